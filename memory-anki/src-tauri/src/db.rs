@@ -0,0 +1,342 @@
+use rusqlite::{params, params_from_iter, Connection, OptionalExtension};
+use serde::Deserialize;
+use serde_json::{json, Value};
+use std::path::Path;
+
+use crate::StoragePayload;
+
+const SCHEMA: &str = "
+CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS decks (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS cards (
+    id TEXT PRIMARY KEY,
+    deck_id TEXT NOT NULL,
+    next_review_at TEXT NOT NULL,
+    data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS cards_deck_due ON cards (deck_id, next_review_at);
+CREATE TABLE IF NOT EXISTS review_logs (
+    id TEXT PRIMARY KEY,
+    card_id TEXT NOT NULL,
+    reviewed_at TEXT NOT NULL,
+    data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS review_logs_card ON review_logs (card_id);
+CREATE TABLE IF NOT EXISTS tombstones (
+    kind TEXT NOT NULL,
+    id TEXT NOT NULL,
+    deleted_at TEXT NOT NULL,
+    PRIMARY KEY (kind, id)
+);
+";
+
+#[derive(Debug, Deserialize, Default)]
+pub struct StorageChanges {
+    #[serde(default)]
+    version: u32,
+    #[serde(rename = "upsertCards", default)]
+    upsert_cards: Vec<Value>,
+    #[serde(rename = "deleteCards", default)]
+    delete_cards: Vec<String>,
+    #[serde(rename = "upsertDecks", default)]
+    upsert_decks: Vec<Value>,
+    #[serde(rename = "deleteDecks", default)]
+    delete_decks: Vec<String>,
+    #[serde(rename = "reviewLogs", default)]
+    review_logs: Vec<Value>,
+    #[serde(rename = "deleteReviewLogs", default)]
+    delete_review_logs: Vec<String>,
+    #[serde(default)]
+    tombstones: Option<Vec<Value>>,
+    #[serde(rename = "dailyProgress", default)]
+    daily_progress: Option<Value>,
+    #[serde(rename = "noteTypes", default)]
+    note_types: Option<Value>,
+}
+
+pub fn open(path: &Path) -> Result<Connection, String> {
+    let conn = Connection::open(path).map_err(|err| err.to_string())?;
+    conn.pragma_update_and_check(None, "journal_mode", "WAL", |row| row.get::<_, String>(0))
+        .map_err(|err| err.to_string())?;
+    conn.pragma_update(None, "synchronous", "NORMAL")
+        .map_err(|err| err.to_string())?;
+    conn.execute_batch(SCHEMA).map_err(|err| err.to_string())?;
+    Ok(conn)
+}
+
+pub fn is_empty(conn: &Connection) -> Result<bool, String> {
+    conn.query_row("SELECT value FROM meta WHERE key = 'version'", [], |row| {
+        row.get::<_, String>(0)
+    })
+    .optional()
+    .map(|value| value.is_none())
+    .map_err(|err| err.to_string())
+}
+
+fn text_field<'a>(value: &'a Value, field: &str) -> Result<&'a str, String> {
+    value
+        .get(field)
+        .and_then(Value::as_str)
+        .ok_or_else(|| format!("{} がないレコードは保存できません。", field))
+}
+
+fn as_slice(value: &Value) -> &[Value] {
+    value.as_array().map(Vec::as_slice).unwrap_or(&[])
+}
+
+fn set_meta(conn: &Connection, key: &str, value: &str) -> Result<(), String> {
+    conn.execute(
+        "INSERT INTO meta (key, value) VALUES (?1, ?2)
+         ON CONFLICT(key) DO UPDATE SET value = excluded.value",
+        params![key, value],
+    )
+    .map(|_| ())
+    .map_err(|err| err.to_string())
+}
+
+fn upsert_card_row(conn: &Connection, card: &Value) -> Result<(), String> {
+    conn.execute(
+        "INSERT INTO cards (id, deck_id, next_review_at, data) VALUES (?1, ?2, ?3, ?4)
+         ON CONFLICT(id) DO UPDATE SET
+           deck_id = excluded.deck_id,
+           next_review_at = excluded.next_review_at,
+           data = excluded.data",
+        params![
+            text_field(card, "id")?,
+            text_field(card, "deckId")?,
+            card.get("nextReviewAt").and_then(Value::as_str).unwrap_or(""),
+            card.to_string()
+        ],
+    )
+    .map(|_| ())
+    .map_err(|err| err.to_string())
+}
+
+fn upsert_deck_row(conn: &Connection, deck: &Value) -> Result<(), String> {
+    conn.execute(
+        "INSERT INTO decks (id, data) VALUES (?1, ?2)
+         ON CONFLICT(id) DO UPDATE SET data = excluded.data",
+        params![text_field(deck, "id")?, deck.to_string()],
+    )
+    .map(|_| ())
+    .map_err(|err| err.to_string())
+}
+
+fn upsert_review_log_row(conn: &Connection, log: &Value) -> Result<(), String> {
+    conn.execute(
+        "INSERT INTO review_logs (id, card_id, reviewed_at, data) VALUES (?1, ?2, ?3, ?4)
+         ON CONFLICT(id) DO UPDATE SET
+           card_id = excluded.card_id,
+           reviewed_at = excluded.reviewed_at,
+           data = excluded.data",
+        params![
+            text_field(log, "id")?,
+            text_field(log, "cardId")?,
+            text_field(log, "reviewedAt")?,
+            log.to_string()
+        ],
+    )
+    .map(|_| ())
+    .map_err(|err| err.to_string())
+}
+
+fn replace_tombstones(conn: &Connection, tombstones: &[Value]) -> Result<(), String> {
+    conn.execute("DELETE FROM tombstones", [])
+        .map_err(|err| err.to_string())?;
+    for tombstone in tombstones {
+        conn.execute(
+            "INSERT OR REPLACE INTO tombstones (kind, id, deleted_at) VALUES (?1, ?2, ?3)",
+            params![
+                text_field(tombstone, "kind")?,
+                text_field(tombstone, "id")?,
+                text_field(tombstone, "deletedAt")?
+            ],
+        )
+        .map_err(|err| err.to_string())?;
+    }
+    Ok(())
+}
+
+fn delete_by_id(conn: &Connection, table: &str, ids: &[String]) -> Result<(), String> {
+    let sql = format!("DELETE FROM {} WHERE id = ?1", table);
+    for id in ids {
+        conn.execute(&sql, [id]).map_err(|err| err.to_string())?;
+    }
+    Ok(())
+}
+
+pub fn replace_all(conn: &mut Connection, payload: &StoragePayload) -> Result<(), String> {
+    let tx = conn.transaction().map_err(|err| err.to_string())?;
+    tx.execute_batch(
+        "DELETE FROM cards; DELETE FROM decks; DELETE FROM review_logs;
+         DELETE FROM tombstones; DELETE FROM meta;",
+    )
+    .map_err(|err| err.to_string())?;
+    for deck in as_slice(&payload.decks) {
+        upsert_deck_row(&tx, deck)?;
+    }
+    for card in as_slice(&payload.cards) {
+        upsert_card_row(&tx, card)?;
+    }
+    for log in as_slice(&payload.review_logs) {
+        upsert_review_log_row(&tx, log)?;
+    }
+    replace_tombstones(&tx, as_slice(&payload.tombstones))?;
+    set_meta(&tx, "version", &payload.version.to_string())?;
+    set_meta(&tx, "dailyProgress", &payload.daily_progress.to_string())?;
+    set_meta(&tx, "deckSettings", &payload.deck_settings.to_string())?;
+    set_meta(&tx, "noteTypes", &payload.note_types.to_string())?;
+    tx.commit().map_err(|err| err.to_string())
+}
+
+pub fn apply_changes(conn: &mut Connection, changes: &StorageChanges) -> Result<(), String> {
+    let tx = conn.transaction().map_err(|err| err.to_string())?;
+    delete_by_id(&tx, "cards", &changes.delete_cards)?;
+    delete_by_id(&tx, "decks", &changes.delete_decks)?;
+    delete_by_id(&tx, "review_logs", &changes.delete_review_logs)?;
+    for deck in &changes.upsert_decks {
+        upsert_deck_row(&tx, deck)?;
+    }
+    for card in &changes.upsert_cards {
+        upsert_card_row(&tx, card)?;
+    }
+    for log in &changes.review_logs {
+        upsert_review_log_row(&tx, log)?;
+    }
+    if let Some(tombstones) = &changes.tombstones {
+        replace_tombstones(&tx, tombstones)?;
+    }
+    if let Some(daily_progress) = &changes.daily_progress {
+        set_meta(&tx, "dailyProgress", &daily_progress.to_string())?;
+    }
+    if let Some(note_types) = &changes.note_types {
+        set_meta(&tx, "noteTypes", &note_types.to_string())?;
+    }
+    set_meta(&tx, "version", &changes.version.to_string())?;
+    tx.commit().map_err(|err| err.to_string())
+}
+
+pub fn upsert_card(conn: &Connection, card: &Value) -> Result<(), String> {
+    upsert_card_row(conn, card)
+}
+
+pub fn record_review(
+    conn: &mut Connection,
+    card: &Value,
+    logs: &[Value],
+    daily_progress: Option<&Value>,
+) -> Result<(), String> {
+    let tx = conn.transaction().map_err(|err| err.to_string())?;
+    upsert_card_row(&tx, card)?;
+    for log in logs {
+        upsert_review_log_row(&tx, log)?;
+    }
+    if let Some(daily_progress) = daily_progress {
+        set_meta(&tx, "dailyProgress", &daily_progress.to_string())?;
+    }
+    tx.commit().map_err(|err| err.to_string())
+}
+
+fn read_json_rows(
+    conn: &Connection,
+    sql: &str,
+    label: &str,
+    errors: &mut Vec<String>,
+) -> Result<Vec<Value>, String> {
+    let mut statement = conn.prepare(sql).map_err(|err| err.to_string())?;
+    let rows = statement
+        .query_map([], |row| row.get::<_, String>(0))
+        .map_err(|err| err.to_string())?;
+    let mut values = Vec::new();
+    for row in rows {
+        let text = row.map_err(|err| err.to_string())?;
+        match serde_json::from_str(&text) {
+            Ok(value) => values.push(value),
+            Err(err) => errors.push(format!("{} の壊れた行を読み飛ばしました（{}）。", label, err)),
+        }
+    }
+    Ok(values)
+}
+
+fn read_meta(conn: &Connection, key: &str) -> Result<Option<String>, String> {
+    conn.query_row("SELECT value FROM meta WHERE key = ?1", [key], |row| row.get(0))
+        .optional()
+        .map_err(|err| err.to_string())
+}
+
+pub fn read_all(conn: &Connection) -> Result<StoragePayload, String> {
+    let mut errors = Vec::new();
+    let decks = read_json_rows(conn, "SELECT data FROM decks ORDER BY rowid", "decks", &mut errors)?;
+    let cards = read_json_rows(conn, "SELECT data FROM cards ORDER BY rowid", "cards", &mut errors)?;
+    let review_logs = read_json_rows(
+        conn,
+        "SELECT data FROM review_logs ORDER BY reviewed_at, rowid",
+        "reviewLogs",
+        &mut errors,
+    )?;
+    let mut statement = conn
+        .prepare("SELECT kind, id, deleted_at FROM tombstones")
+        .map_err(|err| err.to_string())?;
+    let tombstones = statement
+        .query_map([], |row| {
+            Ok(json!({
+                "kind": row.get::<_, String>(0)?,
+                "id": row.get::<_, String>(1)?,
+                "deletedAt": row.get::<_, String>(2)?,
+            }))
+        })
+        .map_err(|err| err.to_string())?
+        .collect::<Result<Vec<_>, _>>()
+        .map_err(|err| err.to_string())?;
+    let parse_meta = |key: &str| -> Result<Value, String> {
+        Ok(read_meta(conn, key)?
+            .and_then(|text| serde_json::from_str(&text).ok())
+            .unwrap_or(Value::Null))
+    };
+    Ok(StoragePayload {
+        version: read_meta(conn, "version")?
+            .and_then(|text| text.parse().ok())
+            .unwrap_or(0),
+        cards: Value::Array(cards),
+        decks: Value::Array(decks),
+        deck_settings: parse_meta("deckSettings")?,
+        review_logs: Value::Array(review_logs),
+        daily_progress: parse_meta("dailyProgress")?,
+        tombstones: Value::Array(tombstones),
+        note_types: parse_meta("noteTypes")?,
+        load_errors: errors,
+    })
+}
+
+pub fn query_due_cards(
+    conn: &Connection,
+    deck_ids: &[String],
+    until: &str,
+) -> Result<Vec<Value>, String> {
+    if deck_ids.is_empty() {
+        return Ok(Vec::new());
+    }
+    let sql = format!(
+        "SELECT data FROM cards WHERE next_review_at <= ? AND deck_id IN ({})
+         ORDER BY next_review_at",
+        vec!["?"; deck_ids.len()].join(", ")
+    );
+    let mut statement = conn.prepare(&sql).map_err(|err| err.to_string())?;
+    let values = std::iter::once(until.to_string()).chain(deck_ids.iter().cloned());
+    let rows = statement
+        .query_map(params_from_iter(values), |row| row.get::<_, String>(0))
+        .map_err(|err| err.to_string())?;
+    let cards = rows
+        .map(|row| {
+            let text = row.map_err(|err| err.to_string())?;
+            serde_json::from_str(&text).map_err(|err| err.to_string())
+        })
+        .collect::<Result<Vec<Value>, String>>()?;
+    Ok(cards)
+}
@@ -1,46 +1,753 @@
 // Learn more about Tauri commands at https://tauri.app/develop/calling-rust/
+mod db;
+
+use chrono::{DateTime, Local, SecondsFormat, Utc};
+use rusqlite::Connection;
 use serde::{Deserialize, Serialize};
 use std::fs;
-use std::path::PathBuf;
-use tauri::{AppHandle, Manager};
+use std::io::Write;
+use std::path::{Path, PathBuf};
+use std::sync::{Mutex, MutexGuard};
+use std::time::{SystemTime, UNIX_EPOCH};
+use tauri::ipc::{InvokeBody, Request, Response};
+use tauri::{AppHandle, Manager, State};
+use tauri_plugin_dialog::DialogExt;
+
+const BACKUP_KINDS: [&str; 4] = ["daily", "pre-import", "pre-restore", "manual"];
+const DAILY_BACKUP_LIMIT: usize = 7;
+const EVENT_BACKUP_LIMIT: usize = 10;
+const DATABASE_FILE_NAME: &str = "memory-anki.sqlite3";
+
+struct Database(Mutex<Connection>);
+
+impl Database {
+    fn lock(&self) -> Result<MutexGuard<'_, Connection>, String> {
+        self.0.lock().map_err(|err| err.to_string())
+    }
+}
 
 #[derive(Debug, Serialize, Deserialize, Default)]
 struct StoragePayload {
+    #[serde(default)]
+    version: u32,
+    #[serde(default)]
     cards: serde_json::Value,
-    decks: Vec<String>,
+    #[serde(default)]
+    decks: serde_json::Value,
+    #[serde(rename = "deckSettings", default)]
+    deck_settings: serde_json::Value,
+    #[serde(rename = "reviewLogs", default)]
+    review_logs: serde_json::Value,
+    #[serde(rename = "dailyProgress", default)]
+    daily_progress: serde_json::Value,
+    #[serde(default)]
+    tombstones: serde_json::Value,
+    #[serde(rename = "noteTypes", default)]
+    note_types: serde_json::Value,
+    #[serde(rename = "loadErrors", default, skip_serializing_if = "Vec::is_empty")]
+    load_errors: Vec<String>,
 }
 
-fn storage_path(app: &AppHandle) -> Result<PathBuf, String> {
+#[derive(Debug, Serialize)]
+struct BackupInfo {
+    name: String,
+    kind: String,
+    #[serde(rename = "createdAt")]
+    created_at: String,
+    size: u64,
+}
+
+fn app_data_dir(app: &AppHandle) -> Result<PathBuf, String> {
     let dir = app
         .path()
         .app_data_dir()
         .map_err(|err| err.to_string())?;
     fs::create_dir_all(&dir).map_err(|err| err.to_string())?;
-    Ok(dir.join("memory-anki-storage.json"))
+    Ok(dir)
 }
 
-#[tauri::command]
-fn load_storage(app: AppHandle) -> Result<StoragePayload, String> {
-    let path = storage_path(&app)?;
+fn legacy_storage_path(app: &AppHandle) -> Result<PathBuf, String> {
+    Ok(app_data_dir(app)?.join("memory-anki-storage.json"))
+}
+
+fn backups_dir(app: &AppHandle) -> Result<PathBuf, String> {
+    let dir = app_data_dir(app)?.join("backups");
+    fs::create_dir_all(&dir).map_err(|err| err.to_string())?;
+    Ok(dir)
+}
+
+fn write_atomic(path: &Path, contents: &[u8]) -> Result<(), String> {
+    let mut temp_name = path.as_os_str().to_owned();
+    temp_name.push(".tmp");
+    let temp = PathBuf::from(temp_name);
+    let mut file = fs::File::create(&temp).map_err(|err| err.to_string())?;
+    file.write_all(contents).map_err(|err| err.to_string())?;
+    file.sync_all().map_err(|err| err.to_string())?;
+    drop(file);
+    fs::rename(&temp, path).map_err(|err| err.to_string())
+}
+
+fn backup_kind(name: &str) -> Option<&'static str> {
+    if !name.ends_with(".json") {
+        return None;
+    }
+    BACKUP_KINDS
+        .into_iter()
+        .find(|kind| name.starts_with(&format!("{}-", kind)))
+}
+
+fn daily_backup_name() -> String {
+    format!("daily-{}.json", Local::now().format("%Y-%m-%d"))
+}
+
+fn prune_backups(dir: &Path, kind: &str) -> Result<(), String> {
+    let limit = if kind == "daily" {
+        DAILY_BACKUP_LIMIT
+    } else {
+        EVENT_BACKUP_LIMIT
+    };
+    let mut names: Vec<String> = fs::read_dir(dir)
+        .map_err(|err| err.to_string())?
+        .filter_map(|entry| entry.ok())
+        .filter_map(|entry| entry.file_name().into_string().ok())
+        .filter(|name| backup_kind(name) == Some(kind))
+        .collect();
+    names.sort();
+    let excess = names.len().saturating_sub(limit);
+    for name in names.into_iter().take(excess) {
+        fs::remove_file(dir.join(name)).map_err(|err| err.to_string())?;
+    }
+    Ok(())
+}
+
+fn write_backup(app: &AppHandle, conn: &Connection, kind: &str) -> Result<Option<String>, String> {
+    if db::is_empty(conn)? {
+        return Ok(None);
+    }
+    let dir = backups_dir(app)?;
+    let name = if kind == "daily" {
+        daily_backup_name()
+    } else {
+        format!("{}-{}.json", kind, Local::now().format("%Y%m%d-%H%M%S%3f"))
+    };
+    let contents =
+        serde_json::to_string_pretty(&db::read_all(conn)?).map_err(|err| err.to_string())?;
+    write_atomic(&dir.join(&name), contents.as_bytes())?;
+    prune_backups(&dir, kind)?;
+    Ok(Some(name))
+}
+
+fn ensure_daily_backup(app: &AppHandle, conn: &Connection) {
+    let exists = backups_dir(app)
+        .map(|dir| dir.join(daily_backup_name()).exists())
+        .unwrap_or(false);
+    if exists {
+        return;
+    }
+    if let Err(err) = write_backup(app, conn, "daily") {
+        eprintln!("Failed to create daily backup: {}", err);
+    }
+}
+
+fn quarantine_corrupt_file(path: &PathBuf) -> Result<PathBuf, String> {
+    let stamp = SystemTime::now()
+        .duration_since(UNIX_EPOCH)
+        .map_err(|err| err.to_string())?
+        .as_secs();
+    let target = path.with_file_name(format!("memory-anki-storage.corrupt-{}.json", stamp));
+    fs::rename(path, &target).map_err(|err| err.to_string())?;
+    Ok(target)
+}
+
+fn ensure_array(value: &mut serde_json::Value, field: &str, errors: &mut Vec<String>) {
+    if !value.is_null() && !value.is_array() {
+        errors.push(format!("{} が配列ではなかったため無視しました。", field));
+        *value = serde_json::Value::Null;
+    }
+}
+
+fn read_legacy_storage(path: &PathBuf) -> Result<Option<StoragePayload>, String> {
     if !path.exists() {
-        return Ok(StoragePayload::default());
+        return Ok(None);
     }
     let contents = fs::read_to_string(path).map_err(|err| err.to_string())?;
-    serde_json::from_str(&contents).map_err(|err| err.to_string())
+    match serde_json::from_str::<StoragePayload>(&contents) {
+        Ok(payload) => Ok(Some(validate_payload(payload))),
+        Err(err) => {
+            let target = quarantine_corrupt_file(path)?;
+            Ok(Some(StoragePayload {
+                load_errors: vec![format!(
+                    "保存ファイルが壊れていたため {} に退避しました（{}）。",
+                    target.display(),
+                    err
+                )],
+                ..StoragePayload::default()
+            }))
+        }
+    }
+}
+
+fn finish_legacy_migration(app: &AppHandle) -> Result<(), String> {
+    let path = legacy_storage_path(app)?;
+    if !path.exists() {
+        return Ok(());
+    }
+    fs::rename(&path, path.with_file_name("memory-anki-storage.migrated.json"))
+        .map_err(|err| err.to_string())
+}
+
+#[tauri::command]
+fn load_storage(app: AppHandle, database: State<Database>) -> Result<StoragePayload, String> {
+    let conn = database.lock()?;
+    if db::is_empty(&conn)? {
+        if let Some(payload) = read_legacy_storage(&legacy_storage_path(&app)?)? {
+            return Ok(payload);
+        }
+    }
+    db::read_all(&conn)
+}
+
+fn validate_payload(mut payload: StoragePayload) -> StoragePayload {
+    let mut errors = Vec::new();
+    ensure_array(&mut payload.cards, "cards", &mut errors);
+    ensure_array(&mut payload.decks, "decks", &mut errors);
+    ensure_array(&mut payload.review_logs, "reviewLogs", &mut errors);
+    ensure_array(&mut payload.tombstones, "tombstones", &mut errors);
+    ensure_array(&mut payload.note_types, "noteTypes", &mut errors);
+    payload.load_errors = errors;
+    payload
+}
+
+#[tauri::command]
+fn save_storage(
+    app: AppHandle,
+    database: State<Database>,
+    payload: StoragePayload,
+) -> Result<(), String> {
+    let mut conn = database.lock()?;
+    ensure_daily_backup(&app, &conn);
+    db::replace_all(&mut conn, &payload)?;
+    if let Err(err) = finish_legacy_migration(&app) {
+        eprintln!("Failed to rename the migrated storage file: {}", err);
+    }
+    Ok(())
+}
+
+#[tauri::command]
+fn apply_storage_changes(
+    app: AppHandle,
+    database: State<Database>,
+    changes: db::StorageChanges,
+) -> Result<(), String> {
+    let mut conn = database.lock()?;
+    ensure_daily_backup(&app, &conn);
+    db::apply_changes(&mut conn, &changes)
+}
+
+#[tauri::command]
+fn upsert_card(
+    app: AppHandle,
+    database: State<Database>,
+    card: serde_json::Value,
+) -> Result<(), String> {
+    let conn = database.lock()?;
+    ensure_daily_backup(&app, &conn);
+    db::upsert_card(&conn, &card)
+}
+
+#[tauri::command]
+fn record_review(
+    app: AppHandle,
+    database: State<Database>,
+    card: serde_json::Value,
+    logs: Vec<serde_json::Value>,
+    daily_progress: Option<serde_json::Value>,
+) -> Result<(), String> {
+    let mut conn = database.lock()?;
+    ensure_daily_backup(&app, &conn);
+    db::record_review(&mut conn, &card, &logs, daily_progress.as_ref())
+}
+
+#[tauri::command]
+fn query_due_cards(
+    database: State<Database>,
+    deck_ids: Vec<String>,
+    until: String,
+) -> Result<Vec<serde_json::Value>, String> {
+    db::query_due_cards(&database.lock()?, &deck_ids, &until)
+}
+
+#[tauri::command]
+fn create_backup(
+    app: AppHandle,
+    database: State<Database>,
+    kind: String,
+) -> Result<Option<String>, String> {
+    if !BACKUP_KINDS.contains(&kind.as_str()) {
+        return Err(format!("不明なバックアップの種類です: {}", kind));
+    }
+    write_backup(&app, &database.lock()?, &kind)
+}
+
+#[tauri::command]
+fn list_backups(app: AppHandle) -> Result<Vec<BackupInfo>, String> {
+    let mut backups: Vec<(SystemTime, BackupInfo)> = fs::read_dir(backups_dir(&app)?)
+        .map_err(|err| err.to_string())?
+        .filter_map(|entry| entry.ok())
+        .filter_map(|entry| {
+            let name = entry.file_name().into_string().ok()?;
+            let kind = backup_kind(&name)?;
+            let metadata = entry.metadata().ok()?;
+            let modified = metadata.modified().ok()?;
+            Some((
+                modified,
+                BackupInfo {
+                    name,
+                    kind: kind.to_string(),
+                    created_at: DateTime::<Local>::from(modified).to_rfc3339(),
+                    size: metadata.len(),
+                },
+            ))
+        })
+        .collect();
+    backups.sort_by(|a, b| b.0.cmp(&a.0));
+    Ok(backups.into_iter().map(|(_, info)| info).collect())
+}
+
+#[tauri::command]
+fn restore_backup(
+    app: AppHandle,
+    database: State<Database>,
+    name: String,
+) -> Result<StoragePayload, String> {
+    if backup_kind(&name).is_none() || name.contains(['/', '\\']) {
+        return Err(format!("不正なバックアップ名です: {}", name));
+    }
+    let path = backups_dir(&app)?.join(&name);
+    let contents = fs::read_to_string(&path).map_err(|err| err.to_string())?;
+    let payload = serde_json::from_str::<StoragePayload>(&contents)
+        .map_err(|err| format!("バックアップ {} を読み込めませんでした（{}）。", name, err))?;
+    write_backup(&app, &database.lock()?, "pre-restore")?;
+    Ok(validate_payload(payload))
+}
+
+fn decode_file_name(value: &str) -> Option<String> {
+    let bytes = value.as_bytes();
+    let mut decoded = Vec::with_capacity(bytes.len());
+    let mut index = 0;
+    while index < bytes.len() {
+        if bytes[index] == b'%' {
+            let hex = value.get(index + 1..index + 3)?;
+            decoded.push(u8::from_str_radix(hex, 16).ok()?);
+            index += 3;
+        } else {
+            decoded.push(bytes[index]);
+            index += 1;
+        }
+    }
+    String::from_utf8(decoded).ok()
+}
+
+#[tauri::command]
+async fn save_export_file(app: AppHandle, request: Request<'_>) -> Result<bool, String> {
+    let InvokeBody::Raw(contents) = request.body() else {
+        return Err("書き出すデータがありません。".to_string());
+    };
+    let name = request
+        .headers()
+        .get("x-file-name")
+        .and_then(|value| value.to_str().ok())
+        .and_then(decode_file_name)
+        .filter(|name| !name.contains(['/', '\\']))
+        .ok_or_else(|| "書き出すファイル名が正しくありません。".to_string())?;
+    let extension = Path::new(&name)
+        .extension()
+        .and_then(|extension| extension.to_str())
+        .unwrap_or("")
+        .to_string();
+    let mut dialog = app.dialog().file().set_file_name(&name);
+    if !extension.is_empty() {
+        dialog = dialog.add_filter(extension.to_uppercase(), &[extension.as_str()]);
+    }
+    let Some(path) = dialog.blocking_save_file() else {
+        return Ok(false);
+    };
+    let path = path.into_path().map_err(|err| err.to_string())?;
+    write_atomic(&path, contents)?;
+    Ok(true)
+}
+
+const SYNC_FILE_NAME: &str = "memory-anki-sync.json";
+const SYNC_FOLDER_FILE_NAME: &str = "sync-folder.txt";
+
+fn sync_folder_setting_path(app: &AppHandle) -> Result<PathBuf, String> {
+    Ok(app_data_dir(app)?.join(SYNC_FOLDER_FILE_NAME))
+}
+
+fn stored_sync_folder(app: &AppHandle) -> Result<Option<PathBuf>, String> {
+    let path = sync_folder_setting_path(app)?;
+    if !path.exists() {
+        return Ok(None);
+    }
+    let folder = fs::read_to_string(path).map_err(|err| err.to_string())?;
+    Ok(Some(PathBuf::from(folder)).filter(|folder| !folder.as_os_str().is_empty()))
+}
+
+fn sync_folder(app: &AppHandle) -> Result<PathBuf, String> {
+    stored_sync_folder(app)?.ok_or_else(|| "同期フォルダが設定されていません。".to_string())
+}
+
+fn existing_sync_folder(app: &AppHandle) -> Result<PathBuf, String> {
+    let folder = sync_folder(app)?;
+    if !folder.is_dir() {
+        return Err(format!("同期フォルダ {} が見つかりません。", folder.display()));
+    }
+    Ok(folder)
+}
+
+#[tauri::command]
+fn load_sync_folder(app: AppHandle) -> Result<Option<String>, String> {
+    Ok(stored_sync_folder(&app)?.map(|folder| folder.display().to_string()))
 }
 
 #[tauri::command]
-fn save_storage(app: AppHandle, payload: StoragePayload) -> Result<(), String> {
-    let path = storage_path(&app)?;
-    let contents = serde_json::to_string_pretty(&payload).map_err(|err| err.to_string())?;
-    fs::write(path, contents).map_err(|err| err.to_string())
+async fn choose_sync_folder(app: AppHandle) -> Result<Option<String>, String> {
+    let Some(folder) = app.dialog().file().blocking_pick_folder() else {
+        return Ok(None);
+    };
+    let folder = folder.into_path().map_err(|err| err.to_string())?;
+    write_atomic(
+        &sync_folder_setting_path(&app)?,
+        folder.to_string_lossy().as_bytes(),
+    )?;
+    Ok(Some(folder.display().to_string()))
+}
+
+#[tauri::command]
+fn read_sync_file(app: AppHandle) -> Result<Option<String>, String> {
+    let path = sync_folder(&app)?.join(SYNC_FILE_NAME);
+    if !path.exists() {
+        return Ok(None);
+    }
+    fs::read_to_string(path).map(Some).map_err(|err| err.to_string())
+}
+
+#[tauri::command]
+fn write_sync_file(app: AppHandle, payload: String) -> Result<(), String> {
+    write_atomic(&existing_sync_folder(&app)?.join(SYNC_FILE_NAME), payload.as_bytes())
+}
+
+const SYNC_SNAPSHOT_DIR: &str = "memory-anki-snapshots";
+const SYNC_SNAPSHOT_LIMIT: usize = 30;
+
+#[derive(Debug, Serialize, Deserialize)]
+struct SnapshotInfo {
+    #[serde(default)]
+    id: String,
+    #[serde(rename = "createdAt", default)]
+    created_at: String,
+    #[serde(rename = "deviceName")]
+    device_name: String,
+    #[serde(rename = "cardCount")]
+    card_count: u64,
+    #[serde(rename = "deckCount")]
+    deck_count: u64,
+}
+
+fn is_snapshot_id(value: &str) -> bool {
+    value.len() == 20 && value.chars().all(|c| c.is_ascii_digit())
+}
+
+fn sync_snapshot_path(folder: &Path, id: &str, suffix: &str) -> Result<PathBuf, String> {
+    if !is_snapshot_id(id) {
+        return Err(format!("同期履歴 {} の名前が正しくありません。", id));
+    }
+    Ok(folder.join(SYNC_SNAPSHOT_DIR).join(format!("{}{}", id, suffix)))
+}
+
+fn sync_snapshot_ids(folder: &Path) -> Result<Vec<String>, String> {
+    let dir = folder.join(SYNC_SNAPSHOT_DIR);
+    if !dir.is_dir() {
+        return Ok(Vec::new());
+    }
+    let mut ids: Vec<String> = fs::read_dir(dir)
+        .map_err(|err| err.to_string())?
+        .filter_map(|entry| entry.ok())
+        .filter_map(|entry| entry.file_name().into_string().ok())
+        .filter_map(|name| name.strip_suffix(".info.json").map(str::to_string))
+        .filter(|id| is_snapshot_id(id))
+        .collect();
+    ids.sort_unstable_by(|a, b| b.cmp(a));
+    Ok(ids)
+}
+
+#[tauri::command]
+fn add_sync_snapshot(app: AppHandle, payload: String, snapshot: SnapshotInfo) -> Result<(), String> {
+    let folder = existing_sync_folder(&app)?;
+    fs::create_dir_all(folder.join(SYNC_SNAPSHOT_DIR)).map_err(|err| err.to_string())?;
+    let nanos = SystemTime::now()
+        .duration_since(UNIX_EPOCH)
+        .map_err(|err| err.to_string())?
+        .as_nanos();
+    let id = format!("{:020}", nanos);
+    write_atomic(&sync_snapshot_path(&folder, &id, ".json")?, payload.as_bytes())?;
+    let info = SnapshotInfo {
+        id: id.clone(),
+        created_at: Utc::now().to_rfc3339_opts(SecondsFormat::Millis, true),
+        ..snapshot
+    };
+    let text = serde_json::to_string(&info).map_err(|err| err.to_string())?;
+    write_atomic(&sync_snapshot_path(&folder, &id, ".info.json")?, text.as_bytes())?;
+    for old in sync_snapshot_ids(&folder)?.iter().skip(SYNC_SNAPSHOT_LIMIT) {
+        for suffix in [".info.json", ".json"] {
+            let path = sync_snapshot_path(&folder, old, suffix)?;
+            if path.exists() {
+                fs::remove_file(path).map_err(|err| err.to_string())?;
+            }
+        }
+    }
+    Ok(())
+}
+
+#[tauri::command]
+fn list_sync_snapshots(app: AppHandle) -> Result<Vec<SnapshotInfo>, String> {
+    let folder = sync_folder(&app)?;
+    let mut snapshots = Vec::new();
+    for id in sync_snapshot_ids(&folder)?.iter().take(SYNC_SNAPSHOT_LIMIT) {
+        let text = fs::read_to_string(sync_snapshot_path(&folder, id, ".info.json")?)
+            .map_err(|err| err.to_string())?;
+        if let Ok(info) = serde_json::from_str::<SnapshotInfo>(&text) {
+            snapshots.push(SnapshotInfo { id: id.clone(), ..info });
+        }
+    }
+    Ok(snapshots)
+}
+
+#[tauri::command]
+fn read_sync_snapshot(app: AppHandle, id: String) -> Result<String, String> {
+    fs::read_to_string(sync_snapshot_path(&sync_folder(&app)?, &id, ".json")?)
+        .map_err(|err| err.to_string())
+}
+
+#[tauri::command]
+fn save_sync_snapshot(app: AppHandle, id: String, payload: String) -> Result<(), String> {
+    let path = sync_snapshot_path(&existing_sync_folder(&app)?, &id, ".json")?;
+    if !path.exists() {
+        return Err(format!("同期履歴 {} が見つかりません。", id));
+    }
+    write_atomic(&path, payload.as_bytes())
+}
+
+#[tauri::command]
+fn wipe_sync_folder(app: AppHandle) -> Result<(), String> {
+    let folder = sync_folder(&app)?;
+    let file = folder.join(SYNC_FILE_NAME);
+    if file.exists() {
+        fs::remove_file(file).map_err(|err| err.to_string())?;
+    }
+    for name in [SYNC_SNAPSHOT_DIR, SYNC_MEDIA_DIR] {
+        let dir = folder.join(name);
+        if dir.is_dir() {
+            fs::remove_dir_all(dir).map_err(|err| err.to_string())?;
+        }
+    }
+    Ok(())
+}
+
+const SYNC_MEDIA_DIR: &str = "memory-anki-media";
+
+fn is_hex_id(value: &str) -> bool {
+    value.len() == 64
+        && value
+            .chars()
+            .all(|c| c.is_ascii_digit() || ('a'..='f').contains(&c))
+}
+
+fn is_media_name(name: &str) -> bool {
+    match name.split_once('.') {
+        Some((hash, extension)) => {
+            is_hex_id(hash)
+                && !extension.is_empty()
+                && extension
+                    .chars()
+                    .all(|c| c.is_ascii_lowercase() || c.is_ascii_digit())
+        }
+        None => false,
+    }
+}
+
+fn media_dir(app: &AppHandle) -> Result<PathBuf, String> {
+    let dir = app_data_dir(app)?.join("media");
+    fs::create_dir_all(&dir).map_err(|err| err.to_string())?;
+    Ok(dir)
+}
+
+fn media_path(app: &AppHandle, name: &str) -> Result<PathBuf, String> {
+    if !is_media_name(name) {
+        return Err(format!("メディア名 {} が正しくありません。", name));
+    }
+    Ok(media_dir(app)?.join(name))
+}
+
+#[tauri::command]
+fn list_media(app: AppHandle) -> Result<Vec<String>, String> {
+    let entries = fs::read_dir(media_dir(&app)?).map_err(|err| err.to_string())?;
+    Ok(entries
+        .filter_map(|entry| entry.ok())
+        .filter_map(|entry| entry.file_name().into_string().ok())
+        .filter(|name| is_media_name(name))
+        .collect())
+}
+
+#[tauri::command]
+fn read_media(app: AppHandle, name: String) -> Result<Response, String> {
+    let path = media_path(&app, &name)?;
+    if !path.exists() {
+        return Ok(Response::new(Vec::new()));
+    }
+    fs::read(path).map(Response::new).map_err(|err| err.to_string())
+}
+
+#[tauri::command]
+fn save_media(app: AppHandle, request: Request<'_>) -> Result<(), String> {
+    let InvokeBody::Raw(data) = request.body() else {
+        return Err("メディアのデータがありません。".to_string());
+    };
+    let name = request
+        .headers()
+        .get("x-media-name")
+        .and_then(|value| value.to_str().ok())
+        .ok_or_else(|| "メディア名がありません。".to_string())?;
+    let path = media_path(&app, name)?;
+    if path.exists() {
+        return Ok(());
+    }
+    write_atomic(&path, data)
+}
+
+fn sync_media_path(folder: &Path, id: &str) -> Result<PathBuf, String> {
+    if !is_hex_id(id) {
+        return Err(format!("同期メディア {} の名前が正しくありません。", id));
+    }
+    Ok(folder.join(SYNC_MEDIA_DIR).join(format!("{}.json", id)))
+}
+
+#[tauri::command]
+fn list_sync_media(app: AppHandle) -> Result<Vec<String>, String> {
+    let dir = sync_folder(&app)?.join(SYNC_MEDIA_DIR);
+    if !dir.is_dir() {
+        return Ok(Vec::new());
+    }
+    let entries = fs::read_dir(dir).map_err(|err| err.to_string())?;
+    Ok(entries
+        .filter_map(|entry| entry.ok())
+        .filter_map(|entry| entry.file_name().into_string().ok())
+        .filter_map(|name| name.strip_suffix(".json").map(str::to_string))
+        .filter(|id| is_hex_id(id))
+        .collect())
+}
+
+#[tauri::command]
+fn read_sync_media(app: AppHandle, id: String) -> Result<String, String> {
+    fs::read_to_string(sync_media_path(&sync_folder(&app)?, &id)?).map_err(|err| err.to_string())
+}
+
+#[tauri::command]
+fn write_sync_media(app: AppHandle, id: String, payload: String) -> Result<(), String> {
+    let path = sync_media_path(&existing_sync_folder(&app)?, &id)?;
+    if let Some(parent) = path.parent() {
+        fs::create_dir_all(parent).map_err(|err| err.to_string())?;
+    }
+    write_atomic(&path, payload.as_bytes())
+}
+
+const KEYRING_SERVICE: &str = "memory-anki";
+const KEYRING_SYNC_KEY: &str = "sync-key";
+
+fn sync_key_entry() -> Result<keyring::Entry, String> {
+    keyring::Entry::new(KEYRING_SERVICE, KEYRING_SYNC_KEY).map_err(|err| err.to_string())
+}
+
+#[tauri::command]
+fn load_sync_key() -> Result<Option<String>, String> {
+    match sync_key_entry()?.get_password() {
+        Ok(value) => Ok(Some(value)),
+        Err(keyring::Error::NoEntry) => Ok(None),
+        Err(err) => Err(err.to_string()),
+    }
+}
+
+#[tauri::command]
+fn save_sync_key(value: String) -> Result<(), String> {
+    sync_key_entry()?
+        .set_password(&value)
+        .map_err(|err| err.to_string())
 }
 
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
     tauri::Builder::default()
         .plugin(tauri_plugin_opener::init())
-        .invoke_handler(tauri::generate_handler![load_storage, save_storage])
+        .plugin(tauri_plugin_dialog::init())
+        .setup(|app| {
+            let path = app_data_dir(app.handle())?.join(DATABASE_FILE_NAME);
+            app.manage(Database(Mutex::new(db::open(&path)?)));
+            Ok(())
+        })
+        .invoke_handler(tauri::generate_handler![
+            load_storage,
+            save_storage,
+            apply_storage_changes,
+            upsert_card,
+            record_review,
+            query_due_cards,
+            create_backup,
+            list_backups,
+            restore_backup,
+            save_export_file,
+            load_sync_folder,
+            choose_sync_folder,
+            read_sync_file,
+            write_sync_file,
+            add_sync_snapshot,
+            list_sync_snapshots,
+            read_sync_snapshot,
+            save_sync_snapshot,
+            wipe_sync_folder,
+            list_media,
+            read_media,
+            save_media,
+            list_sync_media,
+            read_sync_media,
+            write_sync_media,
+            load_sync_key,
+            save_sync_key
+        ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
 }
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    const BASELINE_STORAGE: &str = include_str!("../../src/__fixtures__/baseline-storage.json");
+
+    #[test]
+    fn legacy_storage_is_returned_as_is_and_kept_until_saved() {
+        let dir = std::env::temp_dir().join(format!("memory-anki-test-{}", std::process::id()));
+        fs::create_dir_all(&dir).unwrap();
+        let path = dir.join("memory-anki-storage.json");
+        fs::write(&path, BASELINE_STORAGE).unwrap();
+
+        let payload = read_legacy_storage(&path).unwrap().unwrap();
+        let cards = payload.cards.as_array().unwrap();
+        assert_eq!(cards.len(), 3);
+        assert_eq!(cards[0]["deck"], "英語");
+        assert_eq!(payload.decks, serde_json::json!(["General", "英語", "生物"]));
+        assert!(payload.load_errors.is_empty());
+        assert!(path.exists());
+
+        fs::remove_dir_all(&dir).unwrap();
+    }
+}
@@ -1,93 +1,228 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState, type DragEvent, type ReactNode } from "react";
 import { createClient, type SupabaseClient, type User } from "@supabase/supabase-js";
 import { BlockMath, InlineMath } from "react-katex";
 import "katex/dist/katex.min.css";
 import "./App.css";
+import {
+  DEFAULT_DECK_ID,
+  buildDeckTree,
+  deckRenameConflicts,
+  descendantDeckIds,
+  ensureDeckPath,
+  normalizeDeckName,
+  renameDeckTree,
+  type DeckTreeNode,
+} from "./decks";
+import NoteTypesPanel from "./NoteTypesPanel";
+import StatsPanel from "./StatsPanel";
+import MediaAttachment from "./MediaAttachment";
+import {
+  MAX_MEDIA_BYTES,
+  MEDIA_ACCEPT,
+  createMediaFile,
+  mediaKind,
+  mediaToken,
+  parseMediaToken,
+  referencedMedia,
+  saveMedia,
+  syncMediaFiles,
+  textMediaNames,
+  type MediaFile,
+} from "./media";
+import {
+  backupKindLabels,
+  createBackup,
+  downloadableBackup,
+  ensureDailyBackup,
+  listBackups,
+  restoreBackup,
+  type BackupInfo,
+} from "./backups";
+import { toDateKey } from "./dates";
+import { CLOZE_MARKER_PATTERN, clozeNumbers, renderCloze, splitClozeMarkers } from "./cloze";
+import {
+  allNoteTypes,
+  findNoteType,
+  noteCards,
+  noteTemplateName,
+  noteTypeErrors,
+} from "./notes";
+import { compareTypedAnswer } from "./typedAnswer";
+import { parseDelimited, parseDelimitedStream, type Delimiter } from "./csv";
+import type { AnkiPackage } from "./anki";
+import {
+  cardsToCsv,
+  collectionToApkg,
+  collectionToJson,
+  exportFileExtensions,
+  selectExportCollection,
+  type ExportFormat,
+} from "./exporter";
+import {
+  IMPORT_FIELDS,
+  applyImportPlan,
+  buildImportPreview,
+  createCardsFromDrafts,
+  guessMapping,
+  importFieldLabels,
+  looksLikeHeader,
+  mappingErrors,
+  planImport,
+  summarizeImportPlan,
+  updateNote,
+  updateNoteTypeCards,
+  type ColumnMapping,
+  type ImportAction,
+  type ImportDraft,
+  type ImportField,
+  type ImportMatchKey,
+} from "./importer";
+import {
+  SCHEMA_VERSION,
+  collectStorageChanges,
+  hasStorageChanges,
+  loadCollection,
+  serializeCollection,
+  type RawStoragePayload,
+  type StorageCollection,
+  type StorageReport,
+} from "./storage";
+import {
+  AUTO_SYNC_INTERVAL_MS,
+  CHANGE_SYNC_DELAY_MS,
+  diffCollections,
+  hasRemoteChanges,
+  mergeCollections,
+  parseSyncMeta,
+  restoreSnapshot,
+  syncRetryDelay,
+  type CollectionDiff,
+  type SyncMeta,
+} from "./sync";
+import {
+  createFolderProvider,
+  createHttpProvider,
+  createSupabaseProvider,
+  reencryptSnapshots,
+  SNAPSHOT_LIMIT,
+  syncProviderLabels,
+  type SnapshotInfo,
+  type SyncProviderKind,
+  type SyncServerSettings,
+} from "./syncProviders";
+import {
+  MIN_PASSPHRASE_LENGTH,
+  decryptPayload,
+  deriveSyncKey,
+  encryptPayload,
+  generateSyncKey,
+  isValidSyncKey,
+  parseSyncKeyRecord,
+  syncKeyFingerprint,
+  type SyncKeyRecord,
+} from "./syncCrypto";
+import { invokeTauri, isTauri } from "./tauri";
+import { queryDueCards, saveStorageChanges } from "./tauriStorage";
+import {
+  describeStorageError,
+  isQuotaError,
+  loadWebStorage,
+  requestPersistentStorage,
+  saveWebStorage,
+  saveWebStorageChanges,
+} from "./webStorage";
+import { DEFAULT_FSRS_WEIGHTS, startFsrsOptimization } from "./fsrs";
+import {
+  buildReviewQueue,
+  formatDelay,
+  mergeReviewQueues,
+  formatSteps,
+  isInLearning,
+  normalizeDeckSettings,
+  parseSteps,
+  previewSchedules,
+  recordDailyProgress,
+  scheduleCard,
+} from "./scheduler";
+import type {
+  Card,
+  CardState,
+  ChoiceCard,
+  Deck,
+  DeckDailyProgress,
+  DeckSettings,
+  NoteType,
+  ReviewGrade,
+  ReviewLog,
+  ReviewSource,
+  Tombstone,
+} from "./types";
 
-type BaseCard = {
-  id: string;
-  deck: string;
-  question: string;
-  answer: string;
-  explanation?: string;
-  nextReviewAt: string;
-  intervalDays: number;
-  createdAt: string;
-  lastReviewedAt?: string;
-  reviewCount: number;
-};
-
-type BasicCard = BaseCard & {
-  type: "basic";
-};
-
-type ChoiceCard = BaseCard & {
-  type: "choice";
-  choices: string[];
-};
-
-type Card = BasicCard | ChoiceCard;
-
-type ReviewGrade = "again" | "hard" | "good" | "easy";
 type TestStatus = "idle" | "in_progress" | "finished";
 
+type MediaField = "question" | "answer" | "explanation" | number;
+
 type TestResult = {
   cardId: string;
   selected: string;
   isCorrect: boolean;
 };
 
-const STORAGE_KEY = "memory-anki.cards.v1";
-const DECKS_KEY = "memory-anki.decks.v1";
-const DEFAULT_DECK = "General";
 const SYNC_KEY_STORAGE = "memory-anki.syncKey";
+const AUTO_SYNC_STORAGE = "memory-anki.autoSync";
+const SYNC_META_STORAGE = "memory-anki.syncMeta";
+const SYNC_PROVIDER_STORAGE = "memory-anki.syncProvider";
+const SYNC_SERVER_STORAGE = "memory-anki.syncServer";
+const DEVICE_NAME_STORAGE = "memory-anki.deviceName";
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL as string | undefined;
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY as string | undefined;
 
-const isTauri = () =>
-  typeof window !== "undefined" &&
-  Boolean((window as { __TAURI__?: unknown }).__TAURI__);
+const readSyncServer = (): SyncServerSettings => {
+  try {
+    const value = JSON.parse(localStorage.getItem(SYNC_SERVER_STORAGE) ?? "null");
+    return {
+      url: typeof value?.url === "string" ? value.url : "",
+      token: typeof value?.token === "string" ? value.token : "",
+    };
+  } catch {
+    return { url: "", token: "" };
+  }
+};
 
-const invokeTauri = async <T,>(command: string, payload?: Record<string, unknown>) => {
-  const module = await import("@tauri-apps/api/core");
-  return module.invoke<T>(command, payload);
+const loadStoredSyncKey = async () => {
+  const local = localStorage.getItem(SYNC_KEY_STORAGE);
+  if (!isTauri()) return parseSyncKeyRecord(local);
+  const stored = parseSyncKeyRecord(await invokeTauri<string | null>("load_sync_key"));
+  const migrated = parseSyncKeyRecord(local);
+  if (stored || !migrated) return stored;
+  await invokeTauri("save_sync_key", { value: JSON.stringify(migrated) });
+  localStorage.removeItem(SYNC_KEY_STORAGE);
+  return migrated;
 };
 
-const bytesToBase64 = (bytes: Uint8Array) =>
-  btoa(String.fromCharCode(...bytes));
-
-const base64ToBytes = (value: string) =>
-  Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
-
-const getCryptoKey = async (keyBase64: string) =>
-  crypto.subtle.importKey("raw", base64ToBytes(keyBase64), "AES-GCM", false, [
-    "encrypt",
-    "decrypt",
-  ]);
-
-const encryptPayload = async (payload: unknown, keyBase64: string) => {
-  const iv = crypto.getRandomValues(new Uint8Array(12));
-  const data = new TextEncoder().encode(JSON.stringify(payload));
-  const key = await getCryptoKey(keyBase64);
-  const encrypted = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, data);
-  return {
-    iv: bytesToBase64(iv),
-    data: bytesToBase64(new Uint8Array(encrypted)),
-  };
+const storeSyncKey = async (record: SyncKeyRecord) => {
+  const value = JSON.stringify(record);
+  if (isTauri()) {
+    await invokeTauri("save_sync_key", { value });
+  } else {
+    localStorage.setItem(SYNC_KEY_STORAGE, value);
+  }
 };
 
-const decryptPayload = async (
-  payload: { iv: string; data: string },
-  keyBase64: string
-) => {
-  const key = await getCryptoKey(keyBase64);
-  const decrypted = await crypto.subtle.decrypt(
-    { name: "AES-GCM", iv: base64ToBytes(payload.iv) },
-    key,
-    base64ToBytes(payload.data)
-  );
-  return JSON.parse(new TextDecoder().decode(decrypted));
+const saveFile = async (name: string, contents: Uint8Array, mimeType: string) => {
+  if (isTauri()) {
+    return invokeTauri<boolean>("save_export_file", contents, {
+      headers: { "x-file-name": encodeURIComponent(name) },
+    });
+  }
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+  return true;
 };
 
 const formatDateTime = (date: Date) =>
@@ -101,29 +236,49 @@ const formatDateOnly = (date: Date) =>
     dateStyle: "medium",
   }).format(date);
 
-const parseCsvLine = (line: string) =>
-  line
-    .split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
-    .map((value) => value.trim().replace(/^"|"$/g, ""));
+const IMPORT_PREVIEW_LIMIT = 200;
 
-const startOfToday = () => {
-  const now = new Date();
-  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+const importActionLabels: Record<ImportAction, string> = {
+  add: "追加",
+  update: "更新",
+  unchanged: "変更なし",
+  conflict: "競合",
 };
 
-const addDays = (date: Date, days: number) => {
-  const next = new Date(date);
-  next.setDate(next.getDate() + days);
-  return next;
+const cardStateLabels: Record<CardState, string> = {
+  new: "新規",
+  learning: "学習中",
+  review: "復習",
+  relearning: "再学習",
 };
 
-const reviewAdjustments: Record<ReviewGrade, number> = {
-  again: 0,
-  hard: 1,
-  good: 2,
-  easy: 4,
+const gradeLabels: Record<ReviewGrade, string> = {
+  again: "もう一度",
+  hard: "難しい",
+  good: "良い",
+  easy: "簡単",
 };
 
+const reviewGrades: ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+const createReviewLog = (
+  card: Card,
+  grade: ReviewGrade,
+  nextIntervalDays: number,
+  startedAt: number,
+  source: ReviewSource
+): ReviewLog => ({
+  id: crypto.randomUUID(),
+  cardId: card.id,
+  grade,
+  reviewedAt: new Date().toISOString(),
+  previousIntervalDays: card.intervalDays,
+  previousState: card.state,
+  nextIntervalDays,
+  durationMs: Math.max(Date.now() - startedAt, 0),
+  source,
+});
+
 const shuffle = <T,>(items: T[]) => {
   const list = [...items];
   for (let i = list.length - 1; i > 0; i -= 1) {
@@ -133,10 +288,25 @@ const shuffle = <T,>(items: T[]) => {
   return list;
 };
 
-const renderTextWithLatex = (text: string) => {
-  const pattern = /(\$\$[\s\S]+?\$\$|\\\[[\s\S]+?\\\]|\$[^$\n]+\$)/g;
-  const parts = text.split(pattern).filter(Boolean);
+const renderTextWithLatex = (text: string): ReactNode[] => {
+  const pattern =
+    /(\[(?:image|sound):[0-9a-f]{64}\.[a-z0-9]+\]|\$\$[\s\S]+?\$\$|\\\[[\s\S]+?\\\]|\$[^$\n]+\$)/g;
+  const parts = splitClozeMarkers(text)
+    .flatMap((part) => (CLOZE_MARKER_PATTERN.test(part) ? [part] : part.split(pattern)))
+    .filter(Boolean);
   return parts.map((part, index) => {
+    const cloze = CLOZE_MARKER_PATTERN.exec(part);
+    if (cloze) {
+      return (
+        <span key={`cloze-${index}`} className="cloze">
+          {renderTextWithLatex(cloze[1])}
+        </span>
+      );
+    }
+    const media = parseMediaToken(part);
+    if (media) {
+      return <MediaAttachment key={`media-${index}`} name={media.name} kind={media.kind} />;
+    }
     if (part.startsWith("\\[") && part.endsWith("\\]")) {
       return (
         <div key={`math-block-${index}`} className="math-block">
@@ -168,88 +338,190 @@ const renderTextWithLatex = (text: string) => {
 
 function App() {
   const [activeTab, setActiveTab] = useState<
-    "import" | "cards" | "review" | "test" | "sync"
+    "import" | "cards" | "review" | "test" | "stats" | "sync"
   >(
     "import"
   );
   const [cards, setCards] = useState<Card[]>([]);
-  const [decks, setDecks] = useState<string[]>([DEFAULT_DECK]);
-  const [activeDeck, setActiveDeck] = useState(DEFAULT_DECK);
+  const [decks, setDecks] = useState<Deck[]>(() => loadCollection({}).collection.decks);
+  const [isStorageLoaded, setIsStorageLoaded] = useState(false);
+  const [storageReport, setStorageReport] = useState<StorageReport | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [isStoragePersisted, setIsStoragePersisted] = useState<boolean | null>(null);
+  const [activeDeckId, setActiveDeckId] = useState(DEFAULT_DECK_ID);
+  const [collapsedDeckIds, setCollapsedDeckIds] = useState<Set<string>>(new Set());
+  const [weightsDraft, setWeightsDraft] = useState("");
   const [newDeckName, setNewDeckName] = useState("");
   const [csvText, setCsvText] = useState("");
   const [importError, setImportError] = useState<string | null>(null);
-  const [reviewIndex, setReviewIndex] = useState(0);
+  const [importFile, setImportFile] = useState<{ name: string; rows: string[][] } | null>(
+    null
+  );
+  const [importDelimiter, setImportDelimiter] = useState<Delimiter | "auto">("auto");
+  const [importHasHeader, setImportHasHeader] = useState(false);
+  const [importMapping, setImportMapping] = useState<ColumnMapping>([]);
+  const [importMatchKey, setImportMatchKey] = useState<ImportMatchKey>("question");
+  const [importNoteTypeId, setImportNoteTypeId] = useState("");
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [ankiPackage, setAnkiPackage] = useState<{ name: string; data: AnkiPackage } | null>(
+    null
+  );
+  const [ankiIncludeScheduling, setAnkiIncludeScheduling] = useState(true);
+  const [isReadingAnki, setIsReadingAnki] = useState(false);
+  const [exportScope, setExportScope] = useState<"deck" | "all">("deck");
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [backups, setBackups] = useState<BackupInfo[] | null>(null);
+  const [backupStatus, setBackupStatus] = useState<string | null>(null);
+  const [backupError, setBackupError] = useState<string | null>(null);
+  const [isBackupBusy, setIsBackupBusy] = useState(false);
+  const [reviewLogs, setReviewLogs] = useState<ReviewLog[]>([]);
+  const [dailyProgress, setDailyProgress] = useState<Record<string, DeckDailyProgress>>({});
+  const [tombstones, setTombstones] = useState<Tombstone[]>([]);
+  const [noteTypes, setNoteTypes] = useState<NoteType[]>([]);
+  const noteTypeList = useMemo(() => allNoteTypes(noteTypes), [noteTypes]);
+  const [reviewedInSession, setReviewedInSession] = useState(0);
+  const [currentReviewCardId, setCurrentReviewCardId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [storageRevision, setStorageRevision] = useState(0);
+  const [storedDue, setStoredDue] = useState<{ ids: Set<string>; queriedAt: string } | null>(
+    null
+  );
+  const [reviewStartedAt, setReviewStartedAt] = useState(Date.now());
   const [showAnswer, setShowAnswer] = useState(false);
   const [selectedChoice, setSelectedChoice] = useState<string | null>(null);
+  const [typedAnswer, setTypedAnswer] = useState("");
+  const [optimizeProgress, setOptimizeProgress] = useState<number | null>(null);
+  const cancelOptimization = useRef<(() => void) | null>(null);
   const [editingCard, setEditingCard] = useState<Card | null>(null);
   const [editDraft, setEditDraft] = useState({
+    type: "basic" as Card["type"],
+    noteTypeId: "",
+    fields: [] as string[],
     question: "",
     answer: "",
     explanation: "",
     choicesText: "",
+    tagsText: "",
   });
   const [syncEmail, setSyncEmail] = useState("");
   const [syncPassword, setSyncPassword] = useState("");
   const [syncUser, setSyncUser] = useState<User | null>(null);
   const [syncKeyInput, setSyncKeyInput] = useState("");
+  const [savedSyncKey, setSavedSyncKey] = useState<SyncKeyRecord | null>(null);
+  const [savedSyncKeyFingerprint, setSavedSyncKeyFingerprint] = useState<string | null>(null);
+  const [syncPassphrase, setSyncPassphrase] = useState("");
+  const [rotationPassphrase, setRotationPassphrase] = useState("");
+  const [isDerivingKey, setIsDerivingKey] = useState(false);
   const [syncStatus, setSyncStatus] = useState<string | null>(null);
   const [syncError, setSyncError] = useState<string | null>(null);
+  const [autoSync, setAutoSync] = useState(
+    () => localStorage.getItem(AUTO_SYNC_STORAGE) !== "false"
+  );
+  const [syncMeta, setSyncMeta] = useState<SyncMeta>(() =>
+    parseSyncMeta(localStorage.getItem(SYNC_META_STORAGE))
+  );
+  const [syncState, setSyncState] = useState<"idle" | "syncing" | "offline" | "error">(
+    "idle"
+  );
+  const [syncFailures, setSyncFailures] = useState(0);
+  const [syncProviderKind, setSyncProviderKind] = useState<SyncProviderKind>(() => {
+    const stored = localStorage.getItem(SYNC_PROVIDER_STORAGE);
+    return stored === "folder" || stored === "http" ? stored : "supabase";
+  });
+  const [syncFolder, setSyncFolder] = useState("");
+  const [syncServer, setSyncServer] = useState<SyncServerSettings>(readSyncServer);
+  const [syncServerDraft, setSyncServerDraft] = useState<SyncServerSettings>(readSyncServer);
+  const [deviceName, setDeviceName] = useState(
+    () =>
+      localStorage.getItem(DEVICE_NAME_STORAGE) ??
+      `${isTauri() ? "デスクトップ" : "ブラウザ"}（${navigator.platform || "不明"}）`
+  );
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [snapshotDiff, setSnapshotDiff] = useState<{
+    info: SnapshotInfo;
+    diff: CollectionDiff;
+  } | null>(null);
+  const [isLoadingSnapshot, setIsLoadingSnapshot] = useState(false);
   const [testStatus, setTestStatus] = useState<TestStatus>("idle");
   const [testCards, setTestCards] = useState<ChoiceCard[]>([]);
   const [testIndex, setTestIndex] = useState(0);
   const [testResults, setTestResults] = useState<TestResult[]>([]);
   const [testSelection, setTestSelection] = useState<string | null>(null);
+  const [testStartedAt, setTestStartedAt] = useState(Date.now());
 
   const supabase: SupabaseClient | null = useMemo(() => {
     if (!SUPABASE_URL || !SUPABASE_ANON_KEY) return null;
     return createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
   }, []);
 
+  const syncProvider = useMemo(() => {
+    if (syncProviderKind === "supabase") {
+      return supabase && syncUser ? createSupabaseProvider(supabase, syncUser.id) : null;
+    }
+    if (syncProviderKind === "folder") {
+      return isTauri() && syncFolder ? createFolderProvider() : null;
+    }
+    return syncServer.url && syncServer.token ? createHttpProvider(syncServer) : null;
+  }, [supabase, syncFolder, syncProviderKind, syncServer, syncUser]);
+
+  const latestCollection = useRef<StorageCollection>({
+    cards,
+    decks,
+    reviewLogs,
+    dailyProgress,
+    tombstones,
+    noteTypes,
+  });
+  latestCollection.current = { cards, decks, reviewLogs, dailyProgress, tombstones, noteTypes };
+  const changeVersion = useRef(0);
+  const savedCollection = useRef<StorageCollection | null>(null);
+  const skipChangeMark = useRef(true);
+  const isSyncing = useRef(false);
+
+  const applyCollection = (payload: RawStoragePayload) => {
+    const { collection, report } = loadCollection(payload);
+    setCards(collection.cards);
+    setDecks(collection.decks);
+    setDailyProgress(collection.dailyProgress);
+    setReviewLogs(collection.reviewLogs);
+    setTombstones(collection.tombstones);
+    setNoteTypes(collection.noteTypes);
+    if (report.issues.length > 0 || report.fromVersion !== report.toVersion) {
+      setStorageReport(report);
+    }
+  };
+
   useEffect(() => {
     const load = async () => {
       try {
-        if (isTauri()) {
-          const payload = await invokeTauri<{
-            cards?: Card[];
-            decks?: string[];
-          }>("load_storage");
-
-          if (payload?.cards) {
-            setCards(payload.cards as Card[]);
-          } else {
-            const stored = localStorage.getItem(STORAGE_KEY);
-            if (stored) {
-              setCards(JSON.parse(stored));
-            }
-          }
-
-          if (payload?.decks && payload.decks.length > 0) {
-            setDecks(payload.decks);
-          } else {
-            const storedDecks = localStorage.getItem(DECKS_KEY);
-            if (storedDecks) {
-              const parsed = JSON.parse(storedDecks);
-              if (Array.isArray(parsed) && parsed.length > 0) {
-                setDecks(parsed);
-              }
-            }
-          }
-        } else {
-          const stored = localStorage.getItem(STORAGE_KEY);
-          if (stored) {
-            setCards(JSON.parse(stored));
-          }
-
-          const storedDecks = localStorage.getItem(DECKS_KEY);
-          if (storedDecks) {
-            const parsed = JSON.parse(storedDecks);
-            if (Array.isArray(parsed) && parsed.length > 0) {
-              setDecks(parsed);
-            }
-          }
+        const payload = isTauri()
+          ? await invokeTauri<RawStoragePayload | null>("load_storage")
+          : await loadWebStorage();
+        applyCollection({
+          ...payload,
+          decks:
+            Array.isArray(payload?.decks) && payload.decks.length > 0 ? payload.decks : undefined,
+        });
+        setIsStorageLoaded(true);
+        if (!isTauri()) {
+          requestPersistentStorage()
+            .then(setIsStoragePersisted)
+            .catch((error) => console.warn("Failed to request persistent storage", error));
         }
       } catch (error) {
         console.warn("Failed to load storage", error);
+        setStorageReport({
+          fromVersion: SCHEMA_VERSION,
+          toVersion: SCHEMA_VERSION,
+          issues: [
+            {
+              kind: "load-error",
+              message: `保存データを読み込めませんでした（${
+                error instanceof Error ? error.message : String(error)
+              }）。上書きを防ぐため保存を停止しています。`,
+            },
+          ],
+        });
       }
     };
 
@@ -257,26 +529,82 @@ function App() {
   }, []);
 
   useEffect(() => {
+    if (!isStorageLoaded) return;
     const save = async () => {
       try {
-        if (isTauri()) {
-          await invokeTauri("save_storage", {
-            payload: {
-              cards,
-              decks,
-            },
+        const collection = { cards, decks, reviewLogs, dailyProgress, tombstones, noteTypes };
+        const payload = serializeCollection(collection);
+        const previous = savedCollection.current;
+        savedCollection.current = collection;
+        try {
+          if (!previous) {
+            await (isTauri()
+              ? invokeTauri("save_storage", { payload })
+              : saveWebStorage(payload));
+          } else {
+            const changes = collectStorageChanges(previous, collection);
+            if (hasStorageChanges(changes)) {
+              await (isTauri() ? saveStorageChanges(changes) : saveWebStorageChanges(changes));
+            }
+          }
+        } catch (error) {
+          savedCollection.current = null;
+          throw error;
+        }
+        if (isTauri()) setStorageRevision((value) => value + 1);
+        if (!isTauri()) {
+          ensureDailyBackup(payload).catch(async (error) => {
+            console.warn("Failed to create daily backup", error);
+            if (isQuotaError(error)) setStorageError(await describeStorageError(error));
           });
-        } else {
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(cards));
-          localStorage.setItem(DECKS_KEY, JSON.stringify(decks));
         }
       } catch (error) {
         console.warn("Failed to save storage", error);
+        setStorageError(await describeStorageError(error));
       }
     };
 
     save();
-  }, [cards, decks]);
+  }, [cards, decks, reviewLogs, dailyProgress, tombstones, noteTypes, isStorageLoaded]);
+
+  useEffect(() => {
+    if (!isStorageLoaded) return;
+    if (skipChangeMark.current) {
+      skipChangeMark.current = false;
+      return;
+    }
+    changeVersion.current += 1;
+    setSyncMeta((prev) => (prev.pending ? prev : { ...prev, pending: true }));
+  }, [cards, decks, reviewLogs, dailyProgress, tombstones, noteTypes, isStorageLoaded]);
+
+  useEffect(() => {
+    localStorage.setItem(SYNC_META_STORAGE, JSON.stringify(syncMeta));
+  }, [syncMeta]);
+
+  useEffect(() => {
+    localStorage.setItem(AUTO_SYNC_STORAGE, String(autoSync));
+  }, [autoSync]);
+
+  useEffect(() => {
+    localStorage.setItem(SYNC_PROVIDER_STORAGE, syncProviderKind);
+    localStorage.setItem(SYNC_SERVER_STORAGE, JSON.stringify(syncServer));
+  }, [syncProviderKind, syncServer]);
+
+  useEffect(() => {
+    if (!isTauri()) return;
+    invokeTauri<string | null>("load_sync_folder")
+      .then((folder) => setSyncFolder(folder ?? ""))
+      .catch((error) => console.warn("Failed to load sync folder", error));
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(DEVICE_NAME_STORAGE, deviceName);
+  }, [deviceName]);
+
+  useEffect(() => {
+    setSnapshots(null);
+    setSnapshotDiff(null);
+  }, [syncProvider]);
 
   useEffect(() => {
     if (!supabase) return;
@@ -292,12 +620,32 @@ function App() {
   }, [supabase]);
 
   useEffect(() => {
-    const stored = localStorage.getItem(SYNC_KEY_STORAGE);
-    if (stored) {
-      setSyncKeyInput(stored);
-    }
+    loadStoredSyncKey()
+      .then((record) => {
+        if (!record) return;
+        setSavedSyncKey(record);
+        setSyncKeyInput(record.key);
+      })
+      .catch((error) => {
+        console.warn("Failed to load sync key", error);
+        setSyncError("保存されている同期キーを読み込めませんでした。");
+      });
   }, []);
 
+  useEffect(() => {
+    let cancelled = false;
+    if (!savedSyncKey) {
+      setSavedSyncKeyFingerprint(null);
+      return;
+    }
+    syncKeyFingerprint(savedSyncKey.key).then((fingerprint) => {
+      if (!cancelled) setSavedSyncKeyFingerprint(fingerprint);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [savedSyncKey]);
+
   useEffect(() => {
     if (editingCard) {
       document.body.classList.add("modal-open");
@@ -310,121 +658,519 @@ function App() {
   }, [editingCard]);
 
   useEffect(() => {
-    if (!decks.includes(activeDeck)) {
-      setActiveDeck(DEFAULT_DECK);
+    if (!decks.some((deck) => deck.id === activeDeckId)) {
+      setActiveDeckId(DEFAULT_DECK_ID);
     }
-  }, [activeDeck, decks]);
+  }, [activeDeckId, decks]);
+
+  const deckById = useMemo(() => new Map(decks.map((deck) => [deck.id, deck])), [decks]);
+
+  const activeDeck = deckById.get(activeDeckId) ?? decks[0];
+
+  const activeDeckSettings = activeDeck.options;
+
+  const settingsForDeck = (deckId: string) =>
+    deckById.get(deckId)?.options ?? normalizeDeckSettings(undefined);
+
+  useEffect(() => {
+    setWeightsDraft(activeDeckSettings.fsrsWeights.join(", "));
+  }, [activeDeckSettings.fsrsWeights]);
 
-  const dueCards = useMemo(() => {
-    const today = startOfToday();
-    return cards.filter(
-      (card) =>
-        card.deck === activeDeck && new Date(card.nextReviewAt) <= today
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 15000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const activeDeckIds = useMemo(
+    () => descendantDeckIds(decks, activeDeckId),
+    [activeDeckId, decks]
+  );
+
+  const activeCards = useMemo(
+    () => cards.filter((card) => activeDeckIds.has(card.deckId)),
+    [activeDeckIds, cards]
+  );
+
+  useEffect(() => {
+    if (!isStorageLoaded || !isTauri()) return;
+    let isCurrent = true;
+    const queriedAt = new Date().toISOString();
+    queryDueCards(decks.map((deck) => deck.id), now)
+      .then((due) => {
+        if (isCurrent) setStoredDue({ ids: new Set(due.map((card) => card.id)), queriedAt });
+      })
+      .catch((error) => {
+        console.warn("Failed to query due cards", error);
+        if (isCurrent) setStoredDue(null);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [decks, isStorageLoaded, now, storageRevision]);
+
+  const queuesByDeck = useMemo(() => {
+    const cardsByDeck = new Map<string, Card[]>();
+    const candidates = storedDue
+      ? cards.filter(
+          (card) => storedDue.ids.has(card.id) || card.updatedAt > storedDue.queriedAt
+        )
+      : cards;
+    candidates.forEach((card) => {
+      const list = cardsByDeck.get(card.deckId) ?? [];
+      list.push(card);
+      cardsByDeck.set(card.deckId, list);
+    });
+    return new Map(
+      decks.map((deck) => [
+        deck.id,
+        buildReviewQueue(
+          cardsByDeck.get(deck.id) ?? [],
+          deck.options,
+          dailyProgress[deck.id],
+          now
+        ),
+      ])
     );
-  }, [activeDeck, cards]);
+  }, [cards, dailyProgress, decks, now, storedDue]);
+
+  const reviewQueue = useMemo(
+    () =>
+      mergeReviewQueues(
+        Array.from(activeDeckIds).flatMap((deckId) => queuesByDeck.get(deckId) ?? []),
+        activeCards,
+        now
+      ),
+    [activeCards, activeDeckIds, now, queuesByDeck]
+  );
+
+  const deckTree = useMemo(() => buildDeckTree(decks), [decks]);
+
+  const deckCounts = useMemo(
+    () =>
+      new Map(
+        decks.map((deck) => {
+          const queues = Array.from(descendantDeckIds(decks, deck.id)).flatMap(
+            (deckId) => queuesByDeck.get(deckId) ?? []
+          );
+          return [
+            deck.id,
+            {
+              newCount: queues.reduce((sum, queue) => sum + queue.newCards.length, 0),
+              learningCount: queues.reduce(
+                (sum, queue) => sum + queue.learningCards.length,
+                0
+              ),
+              reviewCount: queues.reduce((sum, queue) => sum + queue.reviewCards.length, 0),
+            },
+          ];
+        })
+      ),
+    [decks, queuesByDeck]
+  );
+
+  const dueCards = reviewQueue.queue;
 
   const pendingCards = useMemo(() => {
-    const today = startOfToday();
-    return cards.filter(
-      (card) => card.deck === activeDeck && new Date(card.nextReviewAt) > today
-    );
-  }, [activeDeck, cards]);
+    const dueIds = new Set(dueCards.map((card) => card.id));
+    return activeCards.filter((card) => !dueIds.has(card.id));
+  }, [activeCards, dueCards]);
+
+  const currentReviewCard =
+    dueCards.find((card) => card.id === currentReviewCardId) ?? dueCards[0];
+
+  useEffect(() => {
+    setCurrentReviewCardId(currentReviewCard?.id ?? null);
+  }, [currentReviewCard?.id]);
+
+  useEffect(() => () => cancelOptimization.current?.(), []);
+
+  useEffect(() => {
+    setReviewStartedAt(Date.now());
+    setTypedAnswer("");
+  }, [currentReviewCard?.id]);
+
+  useEffect(() => {
+    setTestStartedAt(Date.now());
+  }, [testCards, testIndex]);
+
+  const reviewPreview = useMemo(
+    () =>
+      currentReviewCard
+        ? previewSchedules(
+            currentReviewCard,
+            deckById.get(currentReviewCard.deckId)?.options ??
+              normalizeDeckSettings(undefined),
+            now
+          )
+        : null,
+    [currentReviewCard, deckById, now]
+  );
+
+  const typedComparison = useMemo(
+    () =>
+      currentReviewCard?.type === "typed" && showAnswer
+        ? compareTypedAnswer(
+            typedAnswer,
+            [currentReviewCard.answer, ...currentReviewCard.alternatives],
+            deckById.get(currentReviewCard.deckId)?.options ??
+              normalizeDeckSettings(undefined)
+          )
+        : null,
+    [currentReviewCard, deckById, showAnswer, typedAnswer]
+  );
+
+  const importRows = useMemo(
+    () =>
+      importFile?.rows ??
+      (csvText.trim()
+        ? parseDelimited(csvText, importDelimiter === "auto" ? undefined : importDelimiter)
+        : []),
+    [csvText, importDelimiter, importFile]
+  );
+
+  const importHeaderKey = JSON.stringify(importRows[0] ?? []);
+
+  useEffect(() => {
+    const firstRow: string[] = JSON.parse(importHeaderKey);
+    const hasHeader = looksLikeHeader(firstRow);
+    const mapping = guessMapping(firstRow, hasHeader);
+    setImportHasHeader(hasHeader);
+    setImportMapping(mapping);
+    setImportMatchKey(hasHeader && mapping.includes("id") ? "id" : "question");
+  }, [importHeaderKey]);
+
+  const importColumnCount = useMemo(
+    () => importRows.reduce((max, row) => Math.max(max, row.length), 0),
+    [importRows]
+  );
+
+  const importPreview = useMemo(
+    () =>
+      buildImportPreview(
+        importRows,
+        importMapping,
+        importHasHeader,
+        noteTypeList,
+        importNoteTypeId
+      ),
+    [importRows, importMapping, importHasHeader, noteTypeList, importNoteTypeId]
+  );
+
+  const importMappingErrors = useMemo(
+    () => (importRows.length > 0 ? mappingErrors(importMapping, importMatchKey) : []),
+    [importRows, importMapping, importMatchKey]
+  );
 
-  const currentReviewCard = dueCards[reviewIndex];
+  const importPlan = useMemo(
+    () => planImport(importPreview, cards, decks, importMatchKey),
+    [importPreview, cards, decks, importMatchKey]
+  );
+
+  const importSummary = useMemo(() => summarizeImportPlan(importPlan), [importPlan]);
+
+  const importApplicableCount = importSummary.add + importSummary.update;
+
+  const backupBeforeImport = async () => {
+    try {
+      await createBackup("pre-import", serializeCollection(latestCollection.current));
+      return true;
+    } catch (error) {
+      return window.confirm(
+        `取り込み前のバックアップを作成できませんでした（${
+          error instanceof Error ? error.message : String(error)
+        }）。このまま取り込みますか？`
+      );
+    }
+  };
 
-  const handleImport = () => {
+  const handleImport = async () => {
     setImportError(null);
-    if (!csvText.trim()) {
-      setImportError("CSVが空です。問題と回答を入力してください。");
+    if (importMappingErrors.length > 0) {
+      setImportError(importMappingErrors[0]);
       return;
     }
+    if (importApplicableCount === 0) {
+      setImportError("追加・更新する行がありません。");
+      return;
+    }
+    if (!(await backupBeforeImport())) return;
+
+    const { cards: nextCards, createdDecks, removedIds } = applyImportPlan(
+      importPlan,
+      noteTypeList,
+      cards,
+      decks,
+      activeDeckId
+    );
 
-    const lines = csvText
-      .split(/\r?\n/)
-      .map((line) => line.trim())
-      .filter(Boolean);
-
-    const nextCards: Card[] = [];
-    const now = new Date();
-    const today = startOfToday();
-
-    lines.forEach((line, index) => {
-      const [deckRaw, typeRaw, question, answer, choicesRaw, explanationRaw] =
-        parseCsvLine(line);
-      const deck = deckRaw?.trim() || activeDeck || DEFAULT_DECK;
-      const type = typeRaw?.toLowerCase();
-      const explanation = explanationRaw?.trim();
-      if (!question || !answer) {
-        throw new Error(`行 ${index + 1} に問題と回答がありません。`);
-      }
+    setDecks((prev) => [...prev, ...createdDecks]);
+    setCards(nextCards);
+    if (removedIds.length > 0) {
+      const deletedAt = new Date().toISOString();
+      setTombstones((prev) => [
+        ...prev,
+        ...removedIds.map((id): Tombstone => ({ id, kind: "card", deletedAt })),
+      ]);
+    }
+    setCsvText("");
+    setImportFile(null);
+    setActiveTab("review");
+    setReviewedInSession(0);
+    setShowAnswer(false);
+    setSelectedChoice(null);
+  };
 
-      if (type === "choice") {
-        const choices = choicesRaw
-          ? choicesRaw.split("|").map((choice) => choice.trim()).filter(Boolean)
-          : [];
-        if (choices.length < 2) {
-          throw new Error(`行 ${index + 1} の選択肢が不足しています。`);
-        }
-        nextCards.push({
-          id: `${Date.now()}-${index}`,
-          deck,
-          type: "choice",
-          question,
-          answer,
-          choices,
-          explanation,
-          nextReviewAt: today.toISOString(),
-          intervalDays: 1,
-          createdAt: now.toISOString(),
-          reviewCount: 0,
-        });
-        return;
-      }
+  const handleImportFile = async (file: File) => {
+    setImportError(null);
+    try {
+      const rows = await parseDelimitedStream(
+        file.stream(),
+        importDelimiter === "auto"
+          ? /\.tsv$/i.test(file.name)
+            ? "\t"
+            : undefined
+          : importDelimiter
+      );
+      setImportFile({ name: file.name, rows });
+    } catch (error) {
+      setImportError(
+        error instanceof Error
+          ? `ファイルを読み込めませんでした: ${error.message}`
+          : "ファイルを読み込めませんでした。"
+      );
+    }
+  };
 
-      nextCards.push({
-        id: `${Date.now()}-${index}`,
-        deck,
-        type: "basic",
-        question,
-        answer,
-        explanation,
-        nextReviewAt: today.toISOString(),
-        intervalDays: 1,
-        createdAt: now.toISOString(),
-        reviewCount: 0,
+  const handleAnkiFile = async (file: File) => {
+    setImportError(null);
+    setIsReadingAnki(true);
+    try {
+      const { readAnkiPackage } = await import("./anki");
+      setAnkiPackage({
+        name: file.name,
+        data: await readAnkiPackage(await file.arrayBuffer(), noteTypeList),
       });
-    });
+    } catch (error) {
+      setAnkiPackage(null);
+      setImportError(
+        error instanceof Error
+          ? `Ankiパッケージを読み込めませんでした: ${error.message}`
+          : "Ankiパッケージを読み込めませんでした。"
+      );
+    } finally {
+      setIsReadingAnki(false);
+    }
+  };
 
+  const handleAnkiImport = async () => {
+    if (!ankiPackage) return;
+    if (!(await backupBeforeImport())) return;
+    const { data } = ankiPackage;
+    try {
+      await saveMedia(data.media);
+    } catch (error) {
+      setImportError(
+        `画像・音声を保存できませんでした（${
+          error instanceof Error ? error.message : String(error)
+        }）。`
+      );
+      return;
+    }
+    const { cards: createdCards, createdDecks } = createCardsFromDrafts(
+      data.cards.map((item) => item.draft),
+      noteTypeList,
+      decks,
+      activeDeckId
+    );
+    const cardIdByAnkiId = new Map<number, string>();
+    const nextCards = createdCards.map((card, index) => {
+      const { ankiCardId, schedule } = data.cards[index];
+      cardIdByAnkiId.set(ankiCardId, card.id);
+      return ankiIncludeScheduling && schedule ? { ...card, ...schedule } : card;
+    });
+    const nextLogs: ReviewLog[] = ankiIncludeScheduling
+      ? data.reviewLogs.flatMap(({ ankiCardId, ...log }) => {
+          const cardId = cardIdByAnkiId.get(ankiCardId);
+          return cardId ? [{ ...log, id: crypto.randomUUID(), cardId }] : [];
+        })
+      : [];
+
+    setDecks((prev) => [...prev, ...createdDecks]);
     setCards((prev) => [...prev, ...nextCards]);
-    setCsvText("");
+    setReviewLogs((prev) => [...prev, ...nextLogs]);
+    setAnkiPackage(null);
     setActiveTab("review");
-    setReviewIndex(0);
+    setReviewedInSession(0);
     setShowAnswer(false);
     setSelectedChoice(null);
   };
 
-  const handleImportSafe = () => {
+  const handleListBackups = async () => {
+    setBackupError(null);
+    setIsBackupBusy(true);
+    try {
+      setBackups(await listBackups());
+    } catch (error) {
+      setBackupError(
+        error instanceof Error ? error.message : "バックアップの一覧を取得できませんでした。"
+      );
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  const handleCreateBackup = async () => {
+    setBackupError(null);
+    setBackupStatus(null);
+    setIsBackupBusy(true);
+    try {
+      await createBackup("manual", serializeCollection(latestCollection.current));
+      setBackups(await listBackups());
+      setBackupStatus("バックアップを作成しました。");
+    } catch (error) {
+      setBackupError(
+        error instanceof Error ? error.message : "バックアップを作成できませんでした。"
+      );
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  const handleRestoreBackup = async (backup: BackupInfo) => {
+    const label = formatDateTime(new Date(backup.createdAt));
+    if (
+      !window.confirm(
+        `${label} のバックアップに戻します。現在のデータは「復元前」のバックアップとして保存されます。続けますか？`
+      )
+    ) {
+      return;
+    }
+    setBackupError(null);
+    setBackupStatus(null);
+    setIsBackupBusy(true);
+    try {
+      const payload = await restoreBackup(
+        backup.name,
+        serializeCollection(latestCollection.current)
+      );
+      applyCollection(
+        serializeCollection(
+          restoreSnapshot(latestCollection.current, loadCollection(payload).collection)
+        )
+      );
+      setBackups(await listBackups());
+      setBackupStatus(`${label} のバックアップを復元しました。`);
+    } catch (error) {
+      setBackupError(
+        error instanceof Error ? error.message : "バックアップを復元できませんでした。"
+      );
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  const handleDownloadBackup = async (backup: BackupInfo) => {
+    setBackupError(null);
+    try {
+      await saveFile(
+        `memory-anki-backup-${backup.name}.json`,
+        new TextEncoder().encode(await downloadableBackup(backup.name)),
+        "application/json"
+      );
+    } catch (error) {
+      setBackupError(
+        error instanceof Error ? error.message : "バックアップを保存できませんでした。"
+      );
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setExportingFormat(format);
     try {
-      handleImport();
+      const collection = selectExportCollection(
+        { cards, decks, reviewLogs, dailyProgress, tombstones, noteTypes },
+        exportScope === "deck" ? activeDeckIds : null
+      );
+      const baseName =
+        exportScope === "deck" && activeDeck
+          ? activeDeck.name.replace(/[\\/:*?"<>|]+/g, "_")
+          : "memory-anki";
+      const fileName = `${baseName}-${toDateKey(new Date())}.${exportFileExtensions[format]}`;
+      if (format === "csv") {
+        await saveFile(
+          fileName,
+          new TextEncoder().encode(`\uFEFF${cardsToCsv(collection.cards, decks)}`),
+          "text/csv"
+        );
+      } else if (format === "json") {
+        await saveFile(
+          fileName,
+          new TextEncoder().encode(await collectionToJson(collection)),
+          "application/json"
+        );
+      } else {
+        await saveFile(fileName, await collectionToApkg(collection), "application/zip");
+      }
     } catch (error) {
-      setImportError(error instanceof Error ? error.message : "取り込みに失敗しました。");
+      window.alert(
+        error instanceof Error
+          ? `書き出しに失敗しました: ${error.message}`
+          : "書き出しに失敗しました。"
+      );
+    } finally {
+      setExportingFormat(null);
     }
   };
 
+  const handleImportDrop = (event: DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    setIsDraggingFile(false);
+    const file = event.dataTransfer.files[0];
+    if (!file) return;
+    if (/\.(apkg|colpkg)$/i.test(file.name)) void handleAnkiFile(file);
+    else void handleImportFile(file);
+  };
+
+  const handleImportHeaderToggle = (hasHeader: boolean) => {
+    setImportHasHeader(hasHeader);
+    setImportMapping(guessMapping(importRows[0], hasHeader));
+  };
+
+  const handleImportMappingChange = (column: number, field: ImportField | null) => {
+    setImportMapping((prev) =>
+      Array.from({ length: Math.max(prev.length, column + 1) }, (_, index) => {
+        const value = prev[index] ?? null;
+        if (index === column) return field;
+        return field && value === field ? null : value;
+      })
+    );
+  };
+
   const updateCardReview = (card: Card, grade: ReviewGrade) => {
-    const today = startOfToday();
-    const adjustment = reviewAdjustments[grade];
-    const nextInterval = grade === "again" ? 1 : card.intervalDays + adjustment;
-    const nextReviewAt = addDays(today, nextInterval);
+    const reviewedAt = new Date();
+    const result = scheduleCard(
+      card,
+      grade,
+      settingsForDeck(card.deckId),
+      reviewedAt
+    );
+    setReviewLogs((prev) => [
+      ...prev,
+      createReviewLog(card, grade, result.intervalDays, reviewStartedAt, "review"),
+    ]);
+    setDailyProgress((prev) => ({
+      ...prev,
+      [card.deckId]: recordDailyProgress(prev[card.deckId], card.state, reviewedAt),
+    }));
 
     setCards((prev) =>
       prev.map((item) =>
         item.id === card.id
           ? {
               ...item,
-              intervalDays: nextInterval,
-              lastReviewedAt: new Date().toISOString(),
-              nextReviewAt: nextReviewAt.toISOString(),
+              ...result,
+              lastReviewedAt: reviewedAt.toISOString(),
+              updatedAt: reviewedAt.toISOString(),
               reviewCount: item.reviewCount + 1,
             }
           : item
@@ -437,11 +1183,14 @@ function App() {
     updateCardReview(currentReviewCard, grade);
     setShowAnswer(false);
     setSelectedChoice(null);
-    setReviewIndex((prev) => Math.min(prev + 1, Math.max(dueCards.length - 1, 0)));
+    setCurrentReviewCardId(null);
+    setReviewedInSession((prev) => prev + 1);
+    setNow(new Date());
   };
 
   const resetReviewSession = () => {
-    setReviewIndex(0);
+    setReviewedInSession(0);
+    setCurrentReviewCardId(null);
     setShowAnswer(false);
     setSelectedChoice(null);
   };
@@ -452,60 +1201,411 @@ function App() {
   };
 
   const handleCreateDeck = () => {
-    if (!newDeckName.trim()) return;
-    const trimmed = newDeckName.trim();
-    setDecks((prev) => (prev.includes(trimmed) ? prev : [...prev, trimmed]));
-    setActiveDeck(trimmed);
+    const name = normalizeDeckName(newDeckName);
+    if (!name) return;
+    const { created, deckId } = ensureDeckPath(decks, name);
+    setDecks((prev) => [...prev, ...created]);
+    setActiveDeckId(deckId);
     setNewDeckName("");
   };
 
-  const handleDeleteCard = (cardId: string) => {
-    if (!window.confirm("このカードを削除しますか？")) return;
-    setCards((prev) => prev.filter((card) => card.id !== cardId));
-  };
-
-  const handleDeleteDeck = (deckName: string) => {
-    if (deckName === DEFAULT_DECK) {
-      window.alert("General デッキは削除できません。");
+  const handleRenameDeck = (deck: Deck) => {
+    const input = window.prompt(
+      "新しいデッキ名を入力してください。「親::子」で階層にできます。",
+      deck.name
+    );
+    const name = normalizeDeckName(input ?? "");
+    if (!name || name === deck.name) return;
+    if (name.startsWith(`${deck.name}::`)) {
+      window.alert("デッキを自分のサブデッキに移動することはできません。");
       return;
     }
-    const deckCards = cards.filter((card) => card.deck === deckName).length;
-    const message = `デッキ「${deckName}」と、その中のカード ${deckCards} 枚を削除します。よろしいですか？`;
-    if (!window.confirm(message)) return;
+    const conflicts = deckRenameConflicts(decks, deck.id, name);
+    if (conflicts.length > 0) {
+      window.alert(`デッキ「${conflicts.join("」「")}」は既に存在します。`);
+      return;
+    }
+    setDecks((prev) => renameDeckTree(prev, deck.id, name));
+  };
 
-    setCards((prev) => prev.filter((card) => card.deck !== deckName));
-    setDecks((prev) => prev.filter((deck) => deck !== deckName));
-    setActiveDeck((prev) => {
-      if (prev !== deckName) return prev;
-      const remaining = decks.filter((deck) => deck !== deckName);
-      return remaining[0] ?? DEFAULT_DECK;
+  const toggleDeckCollapsed = (deckId: string) => {
+    setCollapsedDeckIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(deckId)) next.delete(deckId);
+      else next.add(deckId);
+      return next;
     });
   };
 
-  const openEditModal = (card: Card) => {
-    setEditingCard(card);
-    setEditDraft({
-      question: card.question,
-      answer: card.answer,
-      explanation: card.explanation ?? "",
-      choicesText:
-        card.type === "choice" ? card.choices.join("\n") : "",
-    });
+  const updateActiveDeck = (patch: Partial<Pick<Deck, "description">>) => {
+    setDecks((prev) =>
+      prev.map((deck) =>
+        deck.id === activeDeckId
+          ? { ...deck, ...patch, updatedAt: new Date().toISOString() }
+          : deck
+      )
+    );
   };
 
-  const closeEditModal = () => {
-    setEditingCard(null);
+  const updateActiveDeckSettings = (patch: Partial<DeckSettings>) => {
+    setDecks((prev) =>
+      prev.map((deck) =>
+        deck.id === activeDeckId
+          ? {
+              ...deck,
+              options: normalizeDeckSettings({ ...deck.options, ...patch }),
+              updatedAt: new Date().toISOString(),
+            }
+          : deck
+      )
+    );
   };
 
-  const handleEditSave = () => {
-    if (!editingCard) return;
-    const trimmedQuestion = editDraft.question.trim();
-    const trimmedAnswer = editDraft.answer.trim();
-    if (!trimmedQuestion || !trimmedAnswer) {
-      window.alert("問題と正解は必須です。");
+  const handleStepsChange = (
+    key: "learningSteps" | "relearningSteps",
+    input: HTMLInputElement
+  ) => {
+    const steps = input.value.trim() ? parseSteps(input.value) : [];
+    if (!steps || (key === "learningSteps" && steps.length === 0)) {
+      window.alert("ステップは「1m 10m 1h」のように入力してください。");
+      input.value = formatSteps(activeDeckSettings[key]);
       return;
     }
-    setCards((prev) =>
+    updateActiveDeckSettings({ [key]: steps });
+  };
+
+  const handleWeightsSave = () => {
+    const weights = weightsDraft
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map(Number);
+    if (
+      weights.length !== DEFAULT_FSRS_WEIGHTS.length ||
+      weights.some((value) => Number.isNaN(value))
+    ) {
+      window.alert(`FSRSの重みは${DEFAULT_FSRS_WEIGHTS.length}個の数値で入力してください。`);
+      return;
+    }
+    updateActiveDeckSettings({ fsrsWeights: weights });
+  };
+
+  const handleOptimizeWeights = async () => {
+    const deckCardIds = new Set(
+      cards.filter((card) => card.deckId === activeDeckId).map((card) => card.id)
+    );
+    const history = reviewLogs.filter(
+      (log) => log.source === "review" && deckCardIds.has(log.cardId)
+    );
+    const optimization = startFsrsOptimization(
+      history,
+      activeDeckSettings.fsrsWeights,
+      (progress) => setOptimizeProgress(progress.iteration / progress.iterations)
+    );
+    cancelOptimization.current = optimization.cancel;
+    setOptimizeProgress(0);
+    try {
+      const result = await optimization.result;
+      if (!result) return;
+      if (result.reviewCount === 0) {
+        window.alert("最適化に使える復習履歴がまだありません。");
+        return;
+      }
+      updateActiveDeckSettings({ fsrsWeights: result.weights });
+      window.alert(
+        `${result.reviewCount} 件の復習から重みを最適化しました（損失 ${result.loss.toFixed(4)}）。`
+      );
+    } catch (error) {
+      window.alert(
+        `重みを最適化できませんでした（${error instanceof Error ? error.message : String(error)}）。`
+      );
+    } finally {
+      cancelOptimization.current = null;
+      setOptimizeProgress(null);
+    }
+  };
+
+  const handleDeleteCard = (cardId: string) => {
+    if (!window.confirm("このカードを削除しますか？")) return;
+    setCards((prev) => prev.filter((card) => card.id !== cardId));
+    setTombstones((prev) => [
+      ...prev,
+      { id: cardId, kind: "card", deletedAt: new Date().toISOString() },
+    ]);
+  };
+
+  const handleDeleteDeck = (target: Deck) => {
+    if (target.id === DEFAULT_DECK_ID) {
+      window.alert(`${target.name} デッキは削除できません。`);
+      return;
+    }
+    const removedIds = descendantDeckIds(decks, target.id);
+    const deckCards = cards.filter((card) => removedIds.has(card.deckId)).length;
+    const subDecks = removedIds.size - 1;
+    const message = `デッキ「${target.name}」${
+      subDecks > 0 ? `とサブデッキ ${subDecks} 個` : ""
+    }、その中のカード ${deckCards} 枚を削除します。よろしいですか？`;
+    if (!window.confirm(message)) return;
+
+    const deletedAt = new Date().toISOString();
+    setTombstones((prev) => [
+      ...prev,
+      ...cards
+        .filter((card) => removedIds.has(card.deckId))
+        .map((card): Tombstone => ({ id: card.id, kind: "card", deletedAt })),
+      ...[...removedIds].map((id): Tombstone => ({ id, kind: "deck", deletedAt })),
+    ]);
+    setCards((prev) => prev.filter((card) => !removedIds.has(card.deckId)));
+    setDecks((prev) => prev.filter((deck) => !removedIds.has(deck.id)));
+    setDailyProgress((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([deckId]) => !removedIds.has(deckId))
+      )
+    );
+    setActiveDeckId((prev) => {
+      if (!removedIds.has(prev)) return prev;
+      const remaining = decks.filter((deck) => !removedIds.has(deck.id));
+      return remaining[0]?.id ?? DEFAULT_DECK_ID;
+    });
+  };
+
+  const openEditModal = (card: Card) => {
+    setEditingCard(card);
+    setEditDraft({
+      type: card.type,
+      noteTypeId: card.type === "note" ? card.noteTypeId : "",
+      fields: card.type === "note" ? card.fields : [],
+      question: card.question,
+      answer: card.answer,
+      explanation: card.explanation ?? "",
+      choicesText:
+        card.type === "choice"
+          ? card.choices.join("\n")
+          : card.type === "typed"
+            ? card.alternatives.join("\n")
+            : "",
+      tagsText: card.tags?.join(" ") ?? "",
+    });
+  };
+
+  const closeEditModal = () => {
+    setEditingCard(null);
+  };
+
+  const handleAttachMedia = async (field: MediaField, files: File[]) => {
+    const tooLarge = files.find((file) => file.size > MAX_MEDIA_BYTES);
+    if (tooLarge) {
+      window.alert(
+        `${tooLarge.name} は ${MAX_MEDIA_BYTES / 1024 / 1024} MB を超えているため添付できません。`
+      );
+      return;
+    }
+    try {
+      const created = await Promise.all(
+        files.map(async (file) =>
+          createMediaFile(new Uint8Array(await file.arrayBuffer()), file.name)
+        )
+      );
+      const mediaFiles = created.filter((file): file is MediaFile => file !== null);
+      if (mediaFiles.length < files.length) {
+        window.alert("画像・音声以外の形式のファイルは添付しませんでした。");
+      }
+      await saveMedia(mediaFiles);
+      const tokens = mediaFiles.map((file) => mediaToken(file.name));
+      const append = (text: string) =>
+        [text.trimEnd(), ...tokens].filter(Boolean).join(field === "answer" ? " " : "\n");
+      setEditDraft((prev) =>
+        typeof field === "number"
+          ? {
+              ...prev,
+              fields: prev.fields.map((value, index) => (index === field ? append(value) : value)),
+            }
+          : { ...prev, [field]: append(prev[field]) }
+      );
+    } catch (error) {
+      window.alert(
+        error instanceof Error ? `添付に失敗しました: ${error.message}` : "添付に失敗しました。"
+      );
+    }
+  };
+
+  const renderMediaPicker = (field: MediaField) => {
+    const names = textMediaNames(
+      typeof field === "number" ? editDraft.fields[field] ?? "" : editDraft[field]
+    );
+    return (
+      <div className="media-picker">
+        <label className="media-picker__button">
+          画像・音声を添付
+          <input
+            type="file"
+            accept={MEDIA_ACCEPT}
+            multiple
+            onChange={(event) => {
+              const files = Array.from(event.target.files ?? []);
+              event.target.value = "";
+              if (files.length > 0) void handleAttachMedia(field, files);
+            }}
+          />
+        </label>
+        {names.length > 0 && (
+          <div className="media-picker__preview">
+            {names.map((name, index) => (
+              <MediaAttachment
+                key={`${name}-${index}`}
+                name={name}
+                kind={mediaKind(name) ?? "image"}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const saveNoteEdit = (card: Card, draft: ImportDraft) => {
+    const noteType =
+      draft.type === "note" ? findNoteType(draft.noteTypeId ?? "", noteTypeList) : undefined;
+    const [firstCard] = noteType ? noteCards(noteType, draft.fields ?? []) : [];
+    const [firstNumber] = clozeNumbers(draft.question);
+    if (noteType && !firstCard) {
+      window.alert(`「${noteType.name}」のカードを作るにはフィールドを入力してください。`);
+      return;
+    }
+    if (draft.type === "cloze" && firstNumber === undefined) {
+      window.alert("穴埋め（{{c1::答え}}）がありません。");
+      return;
+    }
+    const noteId = card.type === "cloze" || card.type === "note" ? card.noteId : card.id;
+    const source = cards.map((item): Card => {
+      if (item.id !== card.id || item.type !== "basic") return item;
+      return noteType
+        ? {
+            ...item,
+            type: "note",
+            noteId,
+            noteTypeId: noteType.id,
+            templateId: firstCard.templateId,
+            fields: draft.fields ?? [],
+          }
+        : { ...item, type: "cloze", noteId, clozeNumber: firstNumber };
+    });
+    const { cards: nextCards, removedIds } = updateNote(
+      source,
+      noteTypeList,
+      noteId,
+      draft,
+      card.deckId
+    );
+    if (
+      removedIds.length > 0 &&
+      !window.confirm(
+        `内容に合わなくなったカード ${removedIds.length} 枚を学習履歴ごと削除します。よろしいですか？`
+      )
+    ) {
+      return;
+    }
+    setCards(nextCards);
+    if (removedIds.length > 0) {
+      const deletedAt = new Date().toISOString();
+      setTombstones((prev) => [
+        ...prev,
+        ...removedIds.map((id): Tombstone => ({ id, kind: "card", deletedAt })),
+      ]);
+    }
+    closeEditModal();
+  };
+
+  const handleSaveNoteType = (noteType: NoteType) => {
+    const errors = noteTypeErrors(noteType, noteTypeList);
+    if (errors.length > 0) {
+      window.alert(errors.join("\n"));
+      return false;
+    }
+    const now = new Date();
+    const previous = noteTypes.find((item) => item.id === noteType.id);
+    const next: NoteType = {
+      ...noteType,
+      name: noteType.name.trim(),
+      createdAt: previous?.createdAt ?? now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    const nextNoteTypes = previous
+      ? noteTypes.map((item) => (item.id === next.id ? next : item))
+      : [...noteTypes, next];
+    const result = previous
+      ? updateNoteTypeCards(cards, allNoteTypes(nextNoteTypes), previous, next, now)
+      : { cards, removedIds: [], emptyNotes: 0 };
+    if (result.emptyNotes > 0) {
+      window.alert(
+        `変更後のテンプレートではカードを作れないノートが ${result.emptyNotes} 件あります。`
+      );
+      return false;
+    }
+    if (
+      result.removedIds.length > 0 &&
+      !window.confirm(
+        `テンプレートに合わなくなったカード ${result.removedIds.length} 枚を学習履歴ごと削除します。よろしいですか？`
+      )
+    ) {
+      return false;
+    }
+    setNoteTypes(nextNoteTypes);
+    setCards(result.cards);
+    if (result.removedIds.length > 0) {
+      const deletedAt = now.toISOString();
+      setTombstones((prev) => [
+        ...prev,
+        ...result.removedIds.map((id): Tombstone => ({ id, kind: "card", deletedAt })),
+      ]);
+    }
+    return true;
+  };
+
+  const handleDeleteNoteType = (noteType: NoteType) => {
+    const used = cards.filter(
+      (card) => card.type === "note" && card.noteTypeId === noteType.id
+    ).length;
+    if (used > 0) {
+      window.alert(`「${noteType.name}」は ${used} 枚のカードで使われているため削除できません。`);
+      return;
+    }
+    if (!window.confirm(`ノートタイプ「${noteType.name}」を削除しますか？`)) return;
+    setNoteTypes((prev) => prev.filter((item) => item.id !== noteType.id));
+    setTombstones((prev) => [
+      ...prev,
+      { id: noteType.id, kind: "noteType", deletedAt: new Date().toISOString() },
+    ]);
+  };
+
+  const handleEditSave = () => {
+    if (!editingCard) return;
+    const tags = editDraft.tagsText.split(/\s+/).filter(Boolean);
+    const trimmedQuestion = editDraft.question.trim();
+    const trimmedAnswer = editDraft.answer.trim();
+    if (editDraft.type === "cloze" || editDraft.type === "note") {
+      const fields = editDraft.fields.map((field) => field.trim());
+      const question = editDraft.type === "note" ? fields[0] ?? "" : trimmedQuestion;
+      if (editDraft.type === "cloze" && !question) {
+        window.alert("本文は必須です。");
+        return;
+      }
+      saveNoteEdit(editingCard, {
+        deck: "",
+        type: editDraft.type,
+        question,
+        answer: editDraft.type === "note" ? fields[1] ?? "" : "",
+        choices: [],
+        explanation: editDraft.explanation.trim(),
+        tags,
+        ...(editDraft.type === "note" ? { noteTypeId: editDraft.noteTypeId, fields } : {}),
+      });
+      return;
+    }
+    if (!trimmedQuestion || !trimmedAnswer) {
+      window.alert("問題と正解は必須です。");
+      return;
+    }
+    setCards((prev) =>
       prev.map((card) => {
         if (card.id !== editingCard.id) return card;
         if (card.type === "choice") {
@@ -522,15 +1622,34 @@ function App() {
             question: trimmedQuestion,
             answer: trimmedAnswer,
             explanation: editDraft.explanation.trim(),
+            tags: tags.length > 0 ? tags : undefined,
             choices,
+            updatedAt: new Date().toISOString(),
           };
         }
-        return {
+        const updated = {
           ...card,
           question: trimmedQuestion,
           answer: trimmedAnswer,
           explanation: editDraft.explanation.trim(),
+          tags: tags.length > 0 ? tags : undefined,
+          updatedAt: new Date().toISOString(),
         };
+        if (editDraft.type === "typed") {
+          return {
+            ...updated,
+            type: "typed",
+            alternatives: editDraft.choicesText
+              .split(/\r?\n/)
+              .map((alternative) => alternative.trim())
+              .filter(Boolean),
+          };
+        }
+        if (updated.type === "typed") {
+          const { alternatives: _alternatives, ...basic } = updated;
+          return { ...basic, type: "basic" };
+        }
+        return updated;
       })
     );
     closeEditModal();
@@ -563,6 +1682,16 @@ function App() {
     if (!current) return;
     const isCorrect = choice === current.answer;
     setTestSelection(choice);
+    setReviewLogs((prev) => [
+      ...prev,
+      createReviewLog(
+        current,
+        isCorrect ? "good" : "again",
+        current.intervalDays,
+        testStartedAt,
+        "test"
+      ),
+    ]);
     setTestResults((prev) => [
       ...prev,
       { cardId: current.id, selected: choice, isCorrect },
@@ -592,21 +1721,64 @@ function App() {
     startTest(wrongCards);
   };
 
-  const ensureSyncKey = () => {
-    if (!syncKeyInput.trim()) {
+  const persistSyncKey = async (record: SyncKeyRecord) => {
+    setSyncKeyInput(record.key);
+    await storeSyncKey(record);
+    setSavedSyncKey(record);
+  };
+
+  const ensureSyncKey = async () => {
+    const key = syncKeyInput.trim();
+    if (!key) {
       setSyncError("同期キーが未設定です。");
-      return false;
+      return null;
+    }
+    if (!isValidSyncKey(key)) {
+      setSyncError("同期キーの形式が正しくありません（32バイトのBase64）。");
+      return null;
+    }
+    if (savedSyncKey?.key === key) return savedSyncKey;
+    try {
+      await persistSyncKey({ key });
+      return { key };
+    } catch (error) {
+      setSyncError(error instanceof Error ? error.message : "同期キーを保存できませんでした。");
+      return null;
     }
-    localStorage.setItem(SYNC_KEY_STORAGE, syncKeyInput.trim());
-    return true;
   };
 
-  const generateSyncKey = () => {
-    const bytes = crypto.getRandomValues(new Uint8Array(32));
-    const key = bytesToBase64(bytes);
-    setSyncKeyInput(key);
-    localStorage.setItem(SYNC_KEY_STORAGE, key);
-    setSyncStatus("同期キーを生成しました。");
+  const handleGenerateSyncKey = async () => {
+    setSyncError(null);
+    try {
+      await persistSyncKey({ key: generateSyncKey() });
+      setSyncStatus("同期キーを生成しました。");
+    } catch (error) {
+      setSyncError(error instanceof Error ? error.message : "同期キーを保存できませんでした。");
+    }
+  };
+
+  const handleDeriveSyncKey = async () => {
+    setSyncError(null);
+    setSyncStatus(null);
+    if (syncPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setSyncError(`パスフレーズは${MIN_PASSPHRASE_LENGTH}文字以上にしてください。`);
+      return;
+    }
+    setIsDerivingKey(true);
+    try {
+      const remote = syncProvider ? await syncProvider.pull() : null;
+      await persistSyncKey(await deriveSyncKey(syncPassphrase, remote?.kdf));
+      setSyncPassphrase("");
+      setSyncStatus(
+        remote?.kdf
+          ? "同期先のソルトを使ってパスフレーズからキーを導出しました。"
+          : "パスフレーズから新しいキーを作成しました。"
+      );
+    } catch (error) {
+      setSyncError(error instanceof Error ? error.message : "キーを導出できませんでした。");
+    } finally {
+      setIsDerivingKey(false);
+    }
   };
 
   const handleSignUp = async () => {
@@ -645,63 +1817,344 @@ function App() {
     setSyncStatus("ログアウトしました。");
   };
 
-  const uploadToCloud = async () => {
-    if (!supabase || !syncUser) return;
+  const runSync = async (record: SyncKeyRecord, nextRecord?: SyncKeyRecord) => {
+    if (!syncProvider || isSyncing.current) return false;
+    if (syncProvider.kind !== "folder" && !navigator.onLine) {
+      setSyncState("offline");
+      setSyncFailures((prev) => prev + 1);
+      setSyncError("オフラインのため同期できません。変更は接続後に送信します。");
+      return false;
+    }
+    isSyncing.current = true;
+    setSyncState("syncing");
+    const startedVersion = changeVersion.current;
+    try {
+      const blob = await syncProvider.pull();
+      const remote = loadCollection(
+        blob ? ((await decryptPayload(blob, record.key)) as RawStoragePayload) : {}
+      ).collection;
+      const { collection, summary } = mergeCollections(latestCollection.current, remote);
+
+      const changed = !blob || Boolean(nextRecord) || hasRemoteChanges(collection, remote);
+      await syncProvider.push(
+        await encryptPayload(
+          serializeCollection(collection),
+          nextRecord ?? { ...record, kdf: record.kdf ?? blob?.kdf }
+        ),
+        changed
+          ? {
+              deviceName: deviceName.trim(),
+              cardCount: collection.cards.length,
+              deckCount: collection.decks.length,
+            }
+          : undefined
+      );
+      const media = await syncMediaFiles(
+        syncProvider.media,
+        referencedMedia(collection.cards, collection.noteTypes),
+        record,
+        nextRecord
+      );
+
+      skipChangeMark.current = true;
+      applyCollection(
+        serializeCollection(mergeCollections(latestCollection.current, collection).collection)
+      );
+      setSyncMeta({
+        lastSyncedAt: new Date().toISOString(),
+        pending: changeVersion.current !== startedVersion,
+      });
+      setSyncState("idle");
+      setSyncFailures(0);
+      setSyncError(null);
+      setSyncStatus(
+        `同期しました（取得 ${summary.pulledCards} 枚・送信 ${summary.pushedCards} 枚・削除 ${summary.deletedCards} 枚${
+          media.uploaded + media.downloaded > 0
+            ? `・メディア送信 ${media.uploaded} 件・受信 ${media.downloaded} 件`
+            : ""
+        }）。${
+          media.missing > 0
+            ? `メディア ${media.missing} 件は同期先にも見つかりませんでした。`
+            : ""
+        }`
+      );
+      return true;
+    } catch (error) {
+      setSyncState("error");
+      setSyncFailures((prev) => prev + 1);
+      setSyncError(error instanceof Error ? error.message : "同期に失敗しました。");
+      return false;
+    } finally {
+      isSyncing.current = false;
+    }
+  };
+
+  const chooseSyncFolder = async () => {
+    try {
+      const folder = await invokeTauri<string | null>("choose_sync_folder");
+      if (folder) {
+        setSyncFolder(folder);
+        setSyncStatus("同期フォルダを設定しました。");
+      }
+    } catch (error) {
+      setSyncError(
+        `同期フォルダを設定できませんでした（${
+          error instanceof Error ? error.message : String(error)
+        }）。`
+      );
+    }
+  };
+
+  const saveSyncServer = () => {
+    const url = syncServerDraft.url.trim();
+    const token = syncServerDraft.token.trim();
+    if (!/^https?:\/\//.test(url) || !token) {
+      setSyncError("サーバーURL（http/https）とトークンを入力してください。");
+      return;
+    }
+    setSyncError(null);
+    setSyncServer({ url, token });
+    setSyncStatus("同期サーバーを設定しました。");
+  };
+
+  const syncWithCloud = async () => {
     setSyncError(null);
     setSyncStatus(null);
-    if (!ensureSyncKey()) return;
+    const record = await ensureSyncKey();
+    if (record) await runSync(record);
+  };
+
+  const handleRotateSyncKey = async (mode: "random" | "passphrase") => {
+    setSyncError(null);
+    setSyncStatus(null);
+    if (!savedSyncKey || !syncProvider) {
+      setSyncError("現在の同期キーと同期先を設定してから変更してください。");
+      return;
+    }
+    if (mode === "passphrase" && rotationPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setSyncError(`パスフレーズは${MIN_PASSPHRASE_LENGTH}文字以上にしてください。`);
+      return;
+    }
+    if (
+      !window.confirm(
+        "同期先のデータを新しいキーで暗号化し直します。他の端末では新しいキーの再設定が必要になります。続けますか？"
+      )
+    ) {
+      return;
+    }
+    setIsDerivingKey(true);
     try {
-      const encrypted = await encryptPayload({ cards, decks }, syncKeyInput.trim());
-      const { error } = await supabase
-        .from("user_data")
-        .upsert(
-          {
-            user_id: syncUser.id,
-            payload: JSON.stringify(encrypted),
-            updated_at: new Date().toISOString(),
-          },
-          { onConflict: "user_id" }
+      const next =
+        mode === "random"
+          ? { key: generateSyncKey() }
+          : await deriveSyncKey(rotationPassphrase);
+      if (!(await runSync(savedSyncKey, next))) return;
+      await persistSyncKey(next).catch(() => {
+        throw new Error(
+          "新しいキーを保存できませんでした。入力欄に表示されている新しいキーを控えてください。"
         );
-      if (error) throw error;
-      setSyncStatus("クラウドにアップロードしました。");
+      });
+      setRotationPassphrase("");
+      await reencryptSnapshots(syncProvider.snapshots, savedSyncKey, next).catch((error) => {
+        throw new Error(
+          `キーは変更しましたが、同期履歴の一部を再暗号化できませんでした（${
+            error instanceof Error ? error.message : String(error)
+          }）。残りの履歴は以前のキーで暗号化されたままです。`
+        );
+      });
+      setSnapshots(null);
+      setSnapshotDiff(null);
+      setSyncStatus(
+        `キーを変更し、同期先のデータと履歴を再暗号化しました（新しい指紋 ${await syncKeyFingerprint(
+          next.key
+        )}）。他の端末にも新しいキーを設定してください。`
+      );
     } catch (error) {
-      setSyncError(error instanceof Error ? error.message : "アップロードに失敗しました。");
+      setSyncError(error instanceof Error ? error.message : "キーを変更できませんでした。");
+    } finally {
+      setIsDerivingKey(false);
     }
   };
 
-  const downloadFromCloud = async () => {
-    if (!supabase || !syncUser) return;
+  const loadSnapshotCollection = async (info: SnapshotInfo) => {
+    if (!syncProvider || !savedSyncKey) {
+      throw new Error("同期先と同期キーを設定してください。");
+    }
+    const blob = await syncProvider.snapshots.load(info.id);
+    return loadCollection(
+      (await decryptPayload(blob, savedSyncKey.key)) as RawStoragePayload
+    ).collection;
+  };
+
+  const handleListSnapshots = async () => {
+    if (!syncProvider) return;
     setSyncError(null);
-    setSyncStatus(null);
-    if (!ensureSyncKey()) return;
-    if (!window.confirm("クラウドの内容で上書きします。よろしいですか？")) {
+    setIsLoadingSnapshot(true);
+    try {
+      setSnapshots(await syncProvider.snapshots.list());
+    } catch (error) {
+      setSyncError(error instanceof Error ? error.message : "履歴を取得できませんでした。");
+    } finally {
+      setIsLoadingSnapshot(false);
+    }
+  };
+
+  const handleDiffSnapshot = async (info: SnapshotInfo) => {
+    setSyncError(null);
+    setIsLoadingSnapshot(true);
+    try {
+      const snapshot = await loadSnapshotCollection(info);
+      setSnapshotDiff({ info, diff: diffCollections(latestCollection.current, snapshot) });
+    } catch (error) {
+      setSyncError(error instanceof Error ? error.message : "履歴を読み込めませんでした。");
+    } finally {
+      setIsLoadingSnapshot(false);
+    }
+  };
+
+  const handleRestoreSnapshot = async (info: SnapshotInfo) => {
+    const label = formatDateTime(new Date(info.createdAt));
+    if (
+      !window.confirm(
+        `${label} の状態（カード ${info.cardCount} 枚）に戻します。この端末のデータは置き換えられ、次回の同期で他の端末にも反映されます。続けますか？`
+      )
+    ) {
       return;
     }
+    setSyncError(null);
+    setIsLoadingSnapshot(true);
     try {
-      const { data, error } = await supabase
-        .from("user_data")
-        .select("payload")
-        .eq("user_id", syncUser.id)
-        .maybeSingle();
-      if (error) throw error;
-      if (!data?.payload) {
-        setSyncError("クラウドにデータがありません。");
-        return;
-      }
-      const parsed = JSON.parse(data.payload) as { iv: string; data: string };
-      const decrypted = await decryptPayload(parsed, syncKeyInput.trim());
-      if (decrypted?.cards) {
-        setCards(decrypted.cards as Card[]);
-      }
-      if (decrypted?.decks) {
-        setDecks(decrypted.decks as string[]);
-      }
-      setSyncStatus("クラウドから復元しました。");
+      const snapshot = await loadSnapshotCollection(info);
+      applyCollection(
+        serializeCollection(restoreSnapshot(latestCollection.current, snapshot))
+      );
+      setSnapshotDiff(null);
+      setSyncStatus(`${label} の状態に復元しました。`);
     } catch (error) {
-      setSyncError(error instanceof Error ? error.message : "復元に失敗しました。");
+      setSyncError(error instanceof Error ? error.message : "履歴を復元できませんでした。");
+    } finally {
+      setIsLoadingSnapshot(false);
     }
   };
 
+  const handleWipeCloud = async () => {
+    if (!syncProvider) return;
+    if (
+      !window.confirm(
+        "同期先に保存されている同期データと履歴をすべて削除します。この端末のデータは残ります。続けますか？"
+      )
+    ) {
+      return;
+    }
+    setSyncError(null);
+    setIsLoadingSnapshot(true);
+    try {
+      await syncProvider.snapshots.wipe();
+      setAutoSync(false);
+      setSnapshots([]);
+      setSnapshotDiff(null);
+      setSyncMeta({ lastSyncedAt: null, pending: true });
+      setSyncStatus("同期先のデータを削除し、自動同期をオフにしました。");
+    } catch (error) {
+      setSyncError(
+        error instanceof Error ? error.message : "同期先のデータを削除できませんでした。"
+      );
+    } finally {
+      setIsLoadingSnapshot(false);
+    }
+  };
+
+  const autoSyncRef = useRef(() => {});
+  autoSyncRef.current = () => {
+    if (savedSyncKey) void runSync(savedSyncKey);
+  };
+
+  const canAutoSync = isStorageLoaded && autoSync && Boolean(syncProvider);
+  const reviewSessionFinished = reviewedInSession > 0 && dueCards.length === 0;
+
+  useEffect(() => {
+    if (canAutoSync) autoSyncRef.current();
+  }, [canAutoSync]);
+
+  useEffect(() => {
+    if (!canAutoSync) return;
+    const timer = window.setInterval(() => autoSyncRef.current(), AUTO_SYNC_INTERVAL_MS);
+    const handleOnline = () => autoSyncRef.current();
+    window.addEventListener("online", handleOnline);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener("online", handleOnline);
+    };
+  }, [canAutoSync]);
+
+  useEffect(() => {
+    if (canAutoSync && reviewSessionFinished) autoSyncRef.current();
+  }, [canAutoSync, reviewSessionFinished]);
+
+  useEffect(() => {
+    if (!canAutoSync || syncState === "syncing") return;
+    if (!syncMeta.pending && syncFailures === 0) return;
+    const timer = window.setTimeout(
+      () => autoSyncRef.current(),
+      syncFailures > 0 ? syncRetryDelay(syncFailures) : CHANGE_SYNC_DELAY_MS
+    );
+    return () => window.clearTimeout(timer);
+  }, [canAutoSync, syncFailures, syncMeta.pending, syncState]);
+
+  const syncIndicator =
+    syncState === "syncing"
+      ? { tone: "syncing", label: "同期中…" }
+      : syncState === "offline"
+        ? { tone: "pending", label: "オフライン（変更を保留中）" }
+        : syncState === "error"
+          ? { tone: "error", label: "同期エラー" }
+          : syncMeta.pending
+            ? { tone: "pending", label: "未同期の変更あり" }
+            : { tone: "synced", label: "同期済み" };
+
+  const renderDeckNode = (node: DeckTreeNode) => {
+    const counts = deckCounts.get(node.deck.id);
+    const isCollapsed = collapsedDeckIds.has(node.deck.id);
+    return (
+      <li key={node.deck.id}>
+        <div
+          className={`deck-tree__row${node.deck.id === activeDeckId ? " is-active" : ""}`}
+          style={{ paddingLeft: `${node.depth * 18}px` }}
+        >
+          {node.children.length > 0 ? (
+            <button
+              type="button"
+              className="deck-tree__toggle"
+              onClick={() => toggleDeckCollapsed(node.deck.id)}
+              aria-label={isCollapsed ? "展開" : "折りたたむ"}
+            >
+              {isCollapsed ? "▸" : "▾"}
+            </button>
+          ) : (
+            <span className="deck-tree__toggle" />
+          )}
+          <button
+            type="button"
+            className="deck-tree__name"
+            onClick={() => setActiveDeckId(node.deck.id)}
+          >
+            {node.label}
+          </button>
+          {counts && (
+            <span className="deck-tree__counts">
+              <span className="stat-new">{counts.newCount}</span>
+              <span className="stat-learning">{counts.learningCount}</span>
+              <span className="stat-review">{counts.reviewCount}</span>
+            </span>
+          )}
+        </div>
+        {node.children.length > 0 && !isCollapsed && (
+          <ul>{node.children.map(renderDeckNode)}</ul>
+        )}
+      </li>
+    );
+  };
+
   return (
     <div className="app">
       <header className="app__header">
@@ -709,11 +2162,33 @@ function App() {
           <p className="app__eyebrow">Memory Anki</p>
           <h1>学習カード管理</h1>
           <p className="app__subtitle">CSV取り込みと基本SRSで復習を進めましょう。</p>
+          {syncProvider && (
+            <p className={`sync-indicator is-${syncIndicator.tone}`}>
+              {syncIndicator.label}
+              {syncMeta.lastSyncedAt && (
+                <span>最終同期 {formatDateTime(new Date(syncMeta.lastSyncedAt))}</span>
+              )}
+            </p>
+          )}
         </div>
         <div className="app__stats">
           <div>
-            <span className="app__stat-label">未復習</span>
-            <span className="app__stat-value">{dueCards.length} 枚</span>
+            <span className="app__stat-label">新規</span>
+            <span className="app__stat-value stat-new">
+              {reviewQueue.newCards.length} 枚
+            </span>
+          </div>
+          <div>
+            <span className="app__stat-label">学習中</span>
+            <span className="app__stat-value stat-learning">
+              {reviewQueue.learningCards.length} 枚
+            </span>
+          </div>
+          <div>
+            <span className="app__stat-label">復習</span>
+            <span className="app__stat-value stat-review">
+              {reviewQueue.reviewCards.length} 枚
+            </span>
           </div>
           <div>
             <span className="app__stat-label">保留中</span>
@@ -726,36 +2201,217 @@ function App() {
         </div>
       </header>
 
+      {storageReport && (
+        <section className="panel storage-report">
+          <div className="storage-report__header">
+            <h2>データの確認結果</h2>
+            <button type="button" onClick={() => setStorageReport(null)}>
+              閉じる
+            </button>
+          </div>
+          {storageReport.fromVersion !== storageReport.toVersion && (
+            <p>
+              保存形式を v{storageReport.fromVersion} から v{storageReport.toVersion}{" "}
+              に移行しました。
+            </p>
+          )}
+          {storageReport.issues.length > 0 ? (
+            <ul className="storage-report__issues">
+              {storageReport.issues.map((issue, index) => (
+                <li key={`${issue.kind}-${index}`} className={`issue-${issue.kind}`}>
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="empty">修復が必要な問題はありませんでした。</p>
+          )}
+        </section>
+      )}
+
+      {storageError && (
+        <section className="panel storage-report storage-report--error">
+          <div className="storage-report__header">
+            <h2>保存できませんでした</h2>
+            <button type="button" onClick={() => setStorageError(null)}>
+              閉じる
+            </button>
+          </div>
+          <p>{storageError}</p>
+        </section>
+      )}
+
       <section className="panel deck-panel">
         <div className="deck-panel__info">
           <h2>デッキ選択</h2>
           <p>科目ごとにカードを分けて管理できます。</p>
         </div>
         <div className="deck-panel__controls">
-          <select
-            value={activeDeck}
-            onChange={(event) => setActiveDeck(event.target.value)}
-          >
-            {decks.map((deck) => (
-              <option key={deck} value={deck}>
-                {deck}
-              </option>
-            ))}
-          </select>
-          <button
-            type="button"
-            className="danger"
-            onClick={() => handleDeleteDeck(activeDeck)}
-            disabled={activeDeck === DEFAULT_DECK}
-          >
-            デッキ削除
-          </button>
+          <ul className="deck-tree">{deckTree.map(renderDeckNode)}</ul>
+          <div className="card-actions">
+            <button type="button" onClick={() => handleRenameDeck(activeDeck)}>
+              名前変更
+            </button>
+            <button
+              type="button"
+              className="danger"
+              onClick={() => handleDeleteDeck(activeDeck)}
+              disabled={activeDeck.id === DEFAULT_DECK_ID}
+            >
+              デッキ削除
+            </button>
+          </div>
+          <label className="form-label">
+            説明
+            <input
+              key={`${activeDeckId}-description`}
+              type="text"
+              defaultValue={activeDeck.description}
+              onBlur={(event) => updateActiveDeck({ description: event.target.value.trim() })}
+              placeholder="このデッキの説明"
+            />
+          </label>
+          <div className="deck-panel__settings">
+            <label className="form-label">
+              スケジューラ
+              <select
+                value={activeDeckSettings.scheduler}
+                onChange={(event) =>
+                  updateActiveDeckSettings({
+                    scheduler: event.target.value as DeckSettings["scheduler"],
+                  })
+                }
+              >
+                <option value="sm2">SM-2</option>
+                <option value="fsrs">FSRS</option>
+              </select>
+            </label>
+            <div className="deck-panel__steps">
+              <label className="form-label">
+                学習ステップ
+                <input
+                  key={`${activeDeckId}-learning`}
+                  type="text"
+                  defaultValue={formatSteps(activeDeckSettings.learningSteps)}
+                  onBlur={(event) => handleStepsChange("learningSteps", event.target)}
+                  placeholder="1m 10m"
+                />
+              </label>
+              <label className="form-label">
+                再学習ステップ
+                <input
+                  key={`${activeDeckId}-relearning`}
+                  type="text"
+                  defaultValue={formatSteps(activeDeckSettings.relearningSteps)}
+                  onBlur={(event) => handleStepsChange("relearningSteps", event.target)}
+                  placeholder="10m"
+                />
+              </label>
+            </div>
+            <div className="deck-panel__steps">
+              <label className="form-label">
+                新規カード/日
+                <input
+                  type="number"
+                  min={0}
+                  value={activeDeckSettings.newCardsPerDay}
+                  onChange={(event) =>
+                    updateActiveDeckSettings({
+                      newCardsPerDay: Math.max(Math.floor(Number(event.target.value)), 0),
+                    })
+                  }
+                />
+              </label>
+              <label className="form-label">
+                最大復習数/日
+                <input
+                  type="number"
+                  min={0}
+                  value={activeDeckSettings.maxReviewsPerDay}
+                  onChange={(event) =>
+                    updateActiveDeckSettings({
+                      maxReviewsPerDay: Math.max(Math.floor(Number(event.target.value)), 0),
+                    })
+                  }
+                />
+              </label>
+            </div>
+            <div className="deck-panel__typed">
+              <span className="form-label">入力カードの判定</span>
+              {(
+                [
+                  ["typedIgnoreCase", "大文字・小文字を区別しない"],
+                  ["typedIgnoreWidth", "全角・半角を区別しない"],
+                  ["typedIgnoreKana", "ひらがな・カタカナを区別しない"],
+                ] as const
+              ).map(([key, label]) => (
+                <label key={key}>
+                  <input
+                    type="checkbox"
+                    checked={activeDeckSettings[key]}
+                    onChange={(event) =>
+                      updateActiveDeckSettings({ [key]: event.target.checked })
+                    }
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            {activeDeckSettings.scheduler === "fsrs" && (
+              <>
+                <label className="form-label">
+                  目標記憶率 {Math.round(activeDeckSettings.desiredRetention * 100)}%
+                  <input
+                    type="range"
+                    min={70}
+                    max={99}
+                    value={Math.round(activeDeckSettings.desiredRetention * 100)}
+                    onChange={(event) =>
+                      updateActiveDeckSettings({
+                        desiredRetention: Number(event.target.value) / 100,
+                      })
+                    }
+                  />
+                </label>
+                <label className="form-label">
+                  FSRSの重み
+                  <textarea
+                    value={weightsDraft}
+                    onChange={(event) => setWeightsDraft(event.target.value)}
+                    rows={3}
+                  />
+                </label>
+                <div className="card-actions">
+                  <button type="button" onClick={handleWeightsSave}>
+                    重みを保存
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateActiveDeckSettings({ fsrsWeights: DEFAULT_FSRS_WEIGHTS })
+                    }
+                  >
+                    既定に戻す
+                  </button>
+                  {optimizeProgress === null ? (
+                    <button type="button" onClick={handleOptimizeWeights}>
+                      履歴から最適化
+                    </button>
+                  ) : (
+                    <button type="button" onClick={() => cancelOptimization.current?.()}>
+                      最適化中 {Math.round(optimizeProgress * 100)}%（中止）
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
           <div className="deck-panel__new">
             <input
               type="text"
               value={newDeckName}
               onChange={(event) => setNewDeckName(event.target.value)}
-              placeholder="新しいデッキ名"
+              placeholder="新しいデッキ名（親::子）"
             />
             <button type="button" onClick={handleCreateDeck}>
               追加
@@ -793,6 +2449,13 @@ function App() {
         >
           テスト
         </button>
+        <button
+          type="button"
+          className={activeTab === "stats" ? "is-active" : ""}
+          onClick={() => setActiveTab("stats")}
+        >
+          統計
+        </button>
         <button
           type="button"
           className={activeTab === "sync" ? "is-active" : ""}
@@ -802,25 +2465,357 @@ function App() {
         </button>
       </nav>
 
-      <main className="app__content">
+      <main className="app__content">
+        {activeTab === "import" && (
+          <section className="panel">
+            <h2>CSV取り込み</h2>
+            <p>
+              CSV または TSV を貼り付けるか、ファイルを選択してください。列の順番は
+              <code>デッキ,種類,問題,回答,選択肢,解説,タグ,ID</code>
+              で、1行目を見出しにすると列を自由に並べられます。選択肢は
+              <code>選択肢1|選択肢2|選択肢3</code>、タグは空白区切りです。
+              問題文または ID が既存のカードと一致する行は、学習状況を保ったまま内容を更新します。
+              種類に <code>reverse</code>（裏表両方）などのノートタイプを指定すると、1行から表→裏・裏→表の
+              カードがまとめて作られ、行を更新するとすべてのカードに反映されます。
+              種類を <code>typed</code> にすると復習時に答えを入力するカードになり、選択肢の列に
+              <code>別解1|別解2</code> と書くと別解も正解として扱います。
+              デッキ名を <code>科目::単元</code> とするとサブデッキが自動で作成されます。
+            </p>
+            <div
+              className={`import-drop ${isDraggingFile ? "is-active" : ""}`}
+              onDragOver={(event) => {
+                event.preventDefault();
+                setIsDraggingFile(true);
+              }}
+              onDragLeave={() => setIsDraggingFile(false)}
+              onDrop={handleImportDrop}
+            >
+              {importFile ? (
+                <div className="import-drop__file">
+                  <span>
+                    {importFile.name}（{importFile.rows.length} 行）
+                  </span>
+                  <button type="button" onClick={() => setImportFile(null)}>
+                    クリア
+                  </button>
+                </div>
+              ) : (
+                <textarea
+                  value={csvText}
+                  onChange={(event) => setCsvText(event.target.value)}
+                  placeholder="例: 英語,basic,apple,りんご"
+                  rows={8}
+                />
+              )}
+              <div className="import-drop__controls">
+                <label className="import-drop__picker">
+                  ファイルを選択
+                  <input
+                    type="file"
+                    accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                    onChange={(event) => {
+                      const file = event.target.files?.[0];
+                      if (file) void handleImportFile(file);
+                      event.target.value = "";
+                    }}
+                  />
+                </label>
+                <span className="import-drop__hint">またはここにドラッグ＆ドロップ</span>
+                <label>
+                  区切り
+                  <select
+                    value={importDelimiter}
+                    onChange={(event) =>
+                      setImportDelimiter(event.target.value as Delimiter | "auto")
+                    }
+                  >
+                    <option value="auto">自動</option>
+                    <option value=",">カンマ</option>
+                    <option value={"\t"}>タブ</option>
+                  </select>
+                </label>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={importHasHeader}
+                    onChange={(event) => handleImportHeaderToggle(event.target.checked)}
+                  />
+                  1行目は見出し
+                </label>
+                <label>
+                  照合キー
+                  <select
+                    value={importMatchKey}
+                    onChange={(event) =>
+                      setImportMatchKey(event.target.value as ImportMatchKey)
+                    }
+                  >
+                    <option value="question">問題文</option>
+                    <option value="id">ID列</option>
+                  </select>
+                </label>
+                <label>
+                  種類が空の行
+                  <select
+                    value={importNoteTypeId}
+                    onChange={(event) => setImportNoteTypeId(event.target.value)}
+                  >
+                    <option value="">基本（1行1枚）</option>
+                    {noteTypeList.map((noteType) => (
+                      <option key={noteType.id} value={noteType.id}>
+                        {noteType.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </div>
+            {importRows.length > 0 && (
+              <div className="import-preview">
+                <p>
+                  追加 {importSummary.add} 行 / 更新 {importSummary.update} 行 / 変更なし{" "}
+                  {importSummary.unchanged} 行 / 競合 {importSummary.conflict} 行 / エラー{" "}
+                  {importSummary.invalid} 行
+                </p>
+                {importMappingErrors.map((message) => (
+                  <p key={message} className="error">
+                    {message}
+                  </p>
+                ))}
+                <div className="import-preview__scroll">
+                  <table className="import-preview__table">
+                    <thead>
+                      <tr>
+                        <th>行</th>
+                        {Array.from({ length: importColumnCount }, (_, column) => (
+                          <th key={column}>
+                            <select
+                              value={importMapping[column] ?? ""}
+                              onChange={(event) =>
+                                handleImportMappingChange(
+                                  column,
+                                  (event.target.value || null) as ImportField | null
+                                )
+                              }
+                            >
+                              <option value="">（無視）</option>
+                              {IMPORT_FIELDS.map((field) => (
+                                <option key={field} value={field}>
+                                  {importFieldLabels[field]}
+                                </option>
+                              ))}
+                            </select>
+                          </th>
+                        ))}
+                        <th>状態</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {importPlan.slice(0, IMPORT_PREVIEW_LIMIT).map((row) => (
+                        <tr
+                          key={row.rowNumber}
+                          className={row.action ? `is-${row.action}` : "is-invalid"}
+                        >
+                          <td>{row.rowNumber}</td>
+                          {Array.from({ length: importColumnCount }, (_, column) => (
+                            <td key={column}>{row.values[column] ?? ""}</td>
+                          ))}
+                          <td>
+                            {row.action
+                              ? [importActionLabels[row.action], row.conflict]
+                                  .filter(Boolean)
+                                  .join(": ")
+                              : row.errors.join(" ")}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {importPreview.length > IMPORT_PREVIEW_LIMIT && (
+                  <p className="import-preview__more">
+                    先頭 {IMPORT_PREVIEW_LIMIT} 行のみ表示しています。
+                  </p>
+                )}
+              </div>
+            )}
+            {importError && <p className="error">{importError}</p>}
+            <button
+              type="button"
+              className="primary"
+              onClick={handleImport}
+              disabled={importApplicableCount === 0 || importMappingErrors.length > 0}
+            >
+              {importApplicableCount} 行を取り込む
+            </button>
+          </section>
+        )}
+
+        {activeTab === "import" && (
+          <section className="panel">
+            <h2>書き出し</h2>
+            <p>
+              CSV は取り込みと同じ列順、JSON は学習状況と復習履歴を含む完全なデータ、
+              <code>.apkg</code> は Anki でそのまま開ける形式で書き出します。
+            </p>
+            <div className="import-drop__controls">
+              <label>
+                対象
+                <select
+                  value={exportScope}
+                  onChange={(event) => setExportScope(event.target.value as "deck" | "all")}
+                >
+                  <option value="deck">{activeDeck?.name ?? "選択中のデッキ"}（サブデッキを含む）</option>
+                  <option value="all">すべてのデッキ</option>
+                </select>
+              </label>
+              {(["csv", "json", "apkg"] as const).map((format) => (
+                <button
+                  key={format}
+                  type="button"
+                  onClick={() => void handleExport(format)}
+                  disabled={exportingFormat !== null}
+                >
+                  {exportingFormat === format
+                    ? "書き出し中..."
+                    : `${format === "apkg" ? ".apkg" : format.toUpperCase()} で書き出す`}
+                </button>
+              ))}
+            </div>
+          </section>
+        )}
+
         {activeTab === "import" && (
           <section className="panel">
-            <h2>CSV取り込み</h2>
+            <h2>バックアップ</h2>
             <p>
-              1行にCSVで入力してください。基本は
-              <code>デッキ,basic,問題,回答,,解説</code>、選択式は
-              <code>デッキ,choice,問題,正解,選択肢1|選択肢2|選択肢3,解説</code>。
+              {isTauri()
+                ? "データは SQLite データベースに保存します。日次（7日分）と取り込み前・復元前（各10件）のバックアップをアプリのデータフォルダに保存します。"
+                : "データとバックアップ（日次7日分、取り込み前・復元前各10件）はブラウザ内（IndexedDB）に保存します。"}
             </p>
-            <textarea
-              value={csvText}
-              onChange={(event) => setCsvText(event.target.value)}
-              placeholder="例: 好きな色は?,青"
-              rows={8}
-            />
-            {importError && <p className="error">{importError}</p>}
-            <button type="button" className="primary" onClick={handleImportSafe}>
-              取り込み
-            </button>
+            {!isTauri() && isStoragePersisted === false && (
+              <p className="error">
+                ブラウザが保存領域の永続化を許可しなかったため、空き容量が少なくなるとデータが削除される可能性があります。定期的にデータを書き出してください。
+              </p>
+            )}
+            <div className="import-drop__controls">
+              <button type="button" onClick={handleListBackups} disabled={isBackupBusy}>
+                バックアップを表示
+              </button>
+              <button type="button" onClick={handleCreateBackup} disabled={isBackupBusy}>
+                今すぐバックアップ
+              </button>
+            </div>
+            {backups &&
+              (backups.length === 0 ? (
+                <p className="empty">バックアップはありません。</p>
+              ) : (
+                <ul className="backup-list">
+                  {backups.map((backup) => (
+                    <li key={backup.name}>
+                      <div>
+                        <strong>{formatDateTime(new Date(backup.createdAt))}</strong>
+                        <span>
+                          {backupKindLabels[backup.kind]}・
+                          {Math.max(1, Math.round(backup.size / 1024))} KB
+                        </span>
+                      </div>
+                      <div className="sync-actions">
+                        {!isTauri() && (
+                          <button type="button" onClick={() => handleDownloadBackup(backup)}>
+                            ダウンロード
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => handleRestoreBackup(backup)}
+                          disabled={isBackupBusy}
+                        >
+                          復元
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ))}
+            {backupStatus && <p className="sync-status">{backupStatus}</p>}
+            {backupError && <p className="error">{backupError}</p>}
+          </section>
+        )}
+
+        {activeTab === "import" && (
+          <section className="panel">
+            <h2>Ankiパッケージ取り込み</h2>
+            <p>
+              Anki から書き出した <code>.apkg</code> / <code>.colpkg</code>{" "}
+              を端末内だけで読み込みます。ノートタイプは基本・選択式カードに変換され、デッキ構成も引き継がれます。
+            </p>
+            <div className="import-drop__controls">
+              <label className="import-drop__picker">
+                {isReadingAnki ? "読み込み中..." : "パッケージを選択"}
+                <input
+                  type="file"
+                  accept=".apkg,.colpkg"
+                  disabled={isReadingAnki}
+                  onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    if (file) void handleAnkiFile(file);
+                    event.target.value = "";
+                  }}
+                />
+              </label>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={ankiIncludeScheduling}
+                  onChange={(event) => setAnkiIncludeScheduling(event.target.checked)}
+                />
+                学習状況（間隔・期日・復習履歴）も取り込む
+              </label>
+            </div>
+            {ankiPackage && (
+              <div className="import-preview">
+                <p>
+                  {ankiPackage.name}: ノート {ankiPackage.data.noteCount} 件、カード{" "}
+                  {ankiPackage.data.cards.length} 枚、復習履歴{" "}
+                  {ankiPackage.data.reviewLogs.length} 件
+                </p>
+                {ankiPackage.data.media.length > 0 && (
+                  <p className="import-preview__more">
+                    画像・音声 {ankiPackage.data.media.length} 件も取り込みます。
+                  </p>
+                )}
+                {ankiPackage.data.skippedMediaCount > 0 && (
+                  <p className="import-preview__more">
+                    対応していない形式などのメディア {ankiPackage.data.skippedMediaCount}{" "}
+                    件は取り込まれません。
+                  </p>
+                )}
+                {ankiPackage.data.skipped.length > 0 && (
+                  <details>
+                    <summary>取り込めないカード {ankiPackage.data.skipped.length} 枚</summary>
+                    <ul className="import-preview__skipped">
+                      {ankiPackage.data.skipped.map((message) => (
+                        <li key={message}>{message}</li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                <div className="card-actions">
+                  <button
+                    type="button"
+                    className="primary"
+                    onClick={handleAnkiImport}
+                    disabled={ankiPackage.data.cards.length === 0}
+                  >
+                    {ankiPackage.data.cards.length} 枚を取り込む
+                  </button>
+                  <button type="button" onClick={() => setAnkiPackage(null)}>
+                    キャンセル
+                  </button>
+                </div>
+              </div>
+            )}
           </section>
         )}
 
@@ -832,15 +2827,34 @@ function App() {
             ) : (
               <div className="card-list">
                 {cards
-                  .filter((card) => card.deck === activeDeck)
+                  .filter((card) => activeDeckIds.has(card.deckId))
                   .map((card) => (
                   <article key={card.id} className="card-item">
                     <div>
                       <div className="card-type">
-                        {card.type === "choice" ? "選択" : "基本"}
+                        {card.type === "choice"
+                          ? "選択"
+                          : card.type === "cloze"
+                            ? `穴埋め c${card.clozeNumber}`
+                            : card.type === "note"
+                              ? noteTemplateName(card.noteTypeId, card.templateId, noteTypeList)
+                              : card.type === "typed"
+                                ? "入力"
+                                : "基本"}
                       </div>
-                      <h3>{renderTextWithLatex(card.question)}</h3>
-                      <p className="card-answer">{renderTextWithLatex(card.answer)}</p>
+                      <h3>
+                        {renderTextWithLatex(
+                          card.type === "cloze"
+                            ? renderCloze(card.question, card.clozeNumber, false)
+                            : card.question
+                        )}
+                      </h3>
+                      <p className="card-answer">
+                        {renderTextWithLatex(card.answer)}
+                        {card.type === "typed" &&
+                          card.alternatives.length > 0 &&
+                          `（別解: ${card.alternatives.join(" / ")}）`}
+                      </p>
                       {card.type === "choice" && (
                         <ul className="choice-list">
                           {card.choices.map((choice) => (
@@ -854,10 +2868,25 @@ function App() {
                           <p>{renderTextWithLatex(card.explanation)}</p>
                         </div>
                       )}
+                      {card.tags && (
+                        <ul className="card-tags">
+                          {card.tags.map((tag) => (
+                            <li key={tag}>{tag}</li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
                     <div className="card-meta">
-                      <span>次回: {formatDateOnly(new Date(card.nextReviewAt))}</span>
+                      <span>状態: {cardStateLabels[card.state]}</span>
+                      <span>
+                        次回:{" "}
+                        {isInLearning(card)
+                          ? formatDateTime(new Date(card.nextReviewAt))
+                          : formatDateOnly(new Date(card.nextReviewAt))}
+                      </span>
                       <span>間隔: {card.intervalDays} 日</span>
+                      <span>易しさ: {Math.round(card.easeFactor * 100)}%</span>
+                      <span>失念: {card.lapses} 回</span>
                       <span>復習回数: {card.reviewCount}</span>
                       <div className="card-actions">
                         <button
@@ -882,6 +2911,14 @@ function App() {
           </section>
         )}
 
+        {activeTab === "cards" && (
+          <NoteTypesPanel
+            noteTypes={noteTypes}
+            onSave={handleSaveNoteType}
+            onDelete={handleDeleteNoteType}
+          />
+        )}
+
         {activeTab === "test" && (
           <section className="panel">
             <h2>テスト</h2>
@@ -895,7 +2932,7 @@ function App() {
                     startTest(
                       cards.filter(
                         (card) =>
-                          card.deck === activeDeck && card.type === "choice"
+                          activeDeckIds.has(card.deckId) && card.type === "choice"
                       ) as ChoiceCard[]
                     )
                   }
@@ -1004,104 +3041,347 @@ function App() {
           </section>
         )}
 
+        {activeTab === "stats" && (
+          <StatsPanel
+            cards={cards}
+            reviewLogs={reviewLogs}
+            decks={decks}
+            activeDeckId={activeDeckId}
+          />
+        )}
+
         {activeTab === "sync" && (
           <section className="panel">
-            <h2>同期（クラウド）</h2>
-            {!SUPABASE_URL || !SUPABASE_ANON_KEY ? (
-              <p className="error">
-                Supabaseの設定がありません。`.env` に
-                `VITE_SUPABASE_URL` と `VITE_SUPABASE_ANON_KEY` を設定してください。
-              </p>
-            ) : (
-              <div className="sync-panel">
-                <div className="sync-section">
-                  <h3>ログイン</h3>
-                  {!syncUser ? (
-                    <>
-                      <input
-                        type="email"
-                        placeholder="メールアドレス"
-                        value={syncEmail}
-                        onChange={(event) => setSyncEmail(event.target.value)}
-                      />
-                      <input
-                        type="password"
-                        placeholder="パスワード"
-                        value={syncPassword}
-                        onChange={(event) => setSyncPassword(event.target.value)}
-                      />
-                      <div className="sync-actions">
-                        <button type="button" onClick={handleSignIn}>
-                          ログイン
-                        </button>
-                        <button type="button" onClick={handleSignUp}>
-                          サインアップ
+            <h2>同期</h2>
+            <div className="sync-panel">
+              <div className="sync-section">
+                <h3>同期先</h3>
+                <select
+                  value={syncProviderKind}
+                  onChange={(event) =>
+                    setSyncProviderKind(event.target.value as SyncProviderKind)
+                  }
+                >
+                  {(Object.keys(syncProviderLabels) as SyncProviderKind[]).map((kind) => (
+                    <option key={kind} value={kind} disabled={kind === "folder" && !isTauri()}>
+                      {syncProviderLabels[kind]}
+                    </option>
+                  ))}
+                </select>
+                <p className="sync-help">
+                  どの同期先でも、端末で暗号化したデータだけが送信されます。
+                </p>
+              </div>
+
+              {syncProviderKind === "supabase" &&
+                (!SUPABASE_URL || !SUPABASE_ANON_KEY ? (
+                  <p className="error">
+                    Supabaseの設定がありません。`.env` に
+                    `VITE_SUPABASE_URL` と `VITE_SUPABASE_ANON_KEY` を設定してください。
+                  </p>
+                ) : (
+                  <div className="sync-section">
+                    <h3>ログイン</h3>
+                    {!syncUser ? (
+                      <>
+                        <input
+                          type="email"
+                          placeholder="メールアドレス"
+                          value={syncEmail}
+                          onChange={(event) => setSyncEmail(event.target.value)}
+                        />
+                        <input
+                          type="password"
+                          placeholder="パスワード"
+                          value={syncPassword}
+                          onChange={(event) => setSyncPassword(event.target.value)}
+                        />
+                        <div className="sync-actions">
+                          <button type="button" onClick={handleSignIn}>
+                            ログイン
+                          </button>
+                          <button type="button" onClick={handleSignUp}>
+                            サインアップ
+                          </button>
+                        </div>
+                      </>
+                    ) : (
+                      <div className="sync-authenticated">
+                        <p>ログイン中: {syncUser.email}</p>
+                        <button type="button" onClick={handleSignOut}>
+                          ログアウト
                         </button>
                       </div>
-                    </>
-                  ) : (
-                    <div className="sync-authenticated">
-                      <p>ログイン中: {syncUser.email}</p>
-                      <button type="button" onClick={handleSignOut}>
-                        ログアウト
-                      </button>
-                    </div>
-                  )}
-                </div>
+                    )}
+                  </div>
+                ))}
 
+              {syncProviderKind === "folder" && (
                 <div className="sync-section">
-                  <h3>同期キー</h3>
+                  <h3>同期フォルダ</h3>
                   <p className="sync-help">
-                    このキーで暗号化されます。別端末でも使う場合は同じキーを入力してください。
+                    Syncthing や NAS など、端末間で共有されるフォルダを選んでください。
                   </p>
-                  <input
-                    type="text"
-                    placeholder="同期キー"
-                    value={syncKeyInput}
-                    onChange={(event) => setSyncKeyInput(event.target.value)}
-                  />
+                  <p className="sync-path">{syncFolder || "未設定"}</p>
                   <div className="sync-actions">
-                    <button type="button" onClick={generateSyncKey}>
-                      生成
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => {
-                        if (ensureSyncKey()) {
-                          setSyncStatus("同期キーを保存しました。");
-                        }
-                      }}
-                    >
-                      保存
+                    <button type="button" onClick={chooseSyncFolder} disabled={!isTauri()}>
+                      フォルダを選択
                     </button>
                   </div>
                 </div>
+              )}
 
+              {syncProviderKind === "http" && (
                 <div className="sync-section">
-                  <h3>同期操作</h3>
+                  <h3>同期サーバー</h3>
+                  <p className="sync-help">
+                    `npm run sync-server` で起動できる参照実装と同じAPIのサーバーに接続します。
+                  </p>
+                  <input
+                    type="url"
+                    placeholder="https://sync.example.com"
+                    value={syncServerDraft.url}
+                    onChange={(event) =>
+                      setSyncServerDraft((prev) => ({ ...prev, url: event.target.value }))
+                    }
+                  />
+                  <input
+                    type="password"
+                    placeholder="アクセストークン"
+                    value={syncServerDraft.token}
+                    onChange={(event) =>
+                      setSyncServerDraft((prev) => ({ ...prev, token: event.target.value }))
+                    }
+                  />
                   <div className="sync-actions">
-                    <button
-                      type="button"
-                      className="primary"
-                      onClick={uploadToCloud}
-                      disabled={!syncUser}
-                    >
-                      アップロード
-                    </button>
-                    <button
-                      type="button"
-                      onClick={downloadFromCloud}
-                      disabled={!syncUser}
-                    >
-                      ダウンロード
+                    <button type="button" onClick={saveSyncServer}>
+                      保存
                     </button>
                   </div>
                 </div>
+              )}
 
-                {syncStatus && <p className="sync-status">{syncStatus}</p>}
-                {syncError && <p className="error">{syncError}</p>}
+              <div className="sync-section">
+                <h3>同期キー</h3>
+                <p className="sync-help">
+                  このキーで暗号化されます。別端末でも使う場合は同じキーを入力してください。
+                </p>
+                <input
+                  type="text"
+                  placeholder="同期キー"
+                  value={syncKeyInput}
+                  onChange={(event) => setSyncKeyInput(event.target.value)}
+                />
+                <div className="sync-actions">
+                  <button type="button" onClick={handleGenerateSyncKey}>
+                    生成
+                  </button>
+                  <button
+                    type="button"
+                    onClick={async () => {
+                      setSyncError(null);
+                      if (await ensureSyncKey()) {
+                        setSyncStatus("同期キーを保存しました。");
+                      }
+                    }}
+                  >
+                    保存
+                  </button>
+                </div>
+                <input
+                  type="password"
+                  placeholder={`パスフレーズ（${MIN_PASSPHRASE_LENGTH}文字以上）`}
+                  value={syncPassphrase}
+                  onChange={(event) => setSyncPassphrase(event.target.value)}
+                />
+                <div className="sync-actions">
+                  <button type="button" onClick={handleDeriveSyncKey} disabled={isDerivingKey}>
+                    {isDerivingKey ? "導出中…" : "パスフレーズから導出"}
+                  </button>
+                </div>
+                <p className="sync-help">
+                  同じパスフレーズを入力すると、同期先に保存されたソルトから同じキーを導出します。
+                </p>
+                {savedSyncKeyFingerprint && (
+                  <p className="sync-help">
+                    キーの指紋: <code className="sync-fingerprint">{savedSyncKeyFingerprint}</code>
+                    {savedSyncKey?.kdf && "（パスフレーズから導出）"}
+                    。端末間で指紋が一致していれば同じキーです。
+                  </p>
+                )}
               </div>
-            )}
+
+              <div className="sync-section">
+                <h3>キーの変更</h3>
+                <p className="sync-help">
+                  同期先のデータを取得し、新しいキーで暗号化し直して保存します。
+                </p>
+                <input
+                  type="password"
+                  placeholder="新しいパスフレーズ（パスフレーズで変更する場合）"
+                  value={rotationPassphrase}
+                  onChange={(event) => setRotationPassphrase(event.target.value)}
+                />
+                <div className="sync-actions">
+                  <button
+                    type="button"
+                    onClick={() => handleRotateSyncKey("random")}
+                    disabled={!savedSyncKey || !syncProvider || isDerivingKey}
+                  >
+                    ランダムなキーに変更
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRotateSyncKey("passphrase")}
+                    disabled={!savedSyncKey || !syncProvider || isDerivingKey}
+                  >
+                    パスフレーズで変更
+                  </button>
+                </div>
+              </div>
+
+              <div className="sync-section">
+                <h3>同期操作</h3>
+                <p className="sync-help">
+                  同期先の内容を取得してカードごとに新しい方を採用し、結果を暗号化して送信します。
+                </p>
+                <label className="sync-toggle">
+                  <input
+                    type="checkbox"
+                    checked={autoSync}
+                    onChange={(event) => setAutoSync(event.target.checked)}
+                  />
+                  自動で同期する（起動時・復習後・{AUTO_SYNC_INTERVAL_MS / 60000}分ごと・変更時）
+                </label>
+                <p className="sync-help">
+                  最終同期:{" "}
+                  {syncMeta.lastSyncedAt
+                    ? formatDateTime(new Date(syncMeta.lastSyncedAt))
+                    : "未同期"}
+                  {syncMeta.pending && "（未送信の変更があります）"}
+                </p>
+                <div className="sync-actions">
+                  <button
+                    type="button"
+                    className="primary"
+                    onClick={syncWithCloud}
+                    disabled={!syncProvider || syncState === "syncing"}
+                  >
+                    {syncState === "syncing" ? "同期中…" : "同期"}
+                  </button>
+                </div>
+              </div>
+
+              <div className="sync-section">
+                <h3>同期先の履歴</h3>
+                {!syncProvider ? (
+                  <p className="sync-help">同期先を設定すると履歴を確認できます。</p>
+                ) : (
+                  <>
+                    <p className="sync-help">
+                      変更を送信するたびに暗号化したスナップショットを保存します（最新{" "}
+                      {SNAPSHOT_LIMIT} 件）。
+                    </p>
+                    <label className="form-label">
+                      この端末の名前
+                      <input
+                        type="text"
+                        value={deviceName}
+                        onChange={(event) => setDeviceName(event.target.value)}
+                      />
+                    </label>
+                    <div className="sync-actions">
+                      <button
+                        type="button"
+                        onClick={handleListSnapshots}
+                        disabled={isLoadingSnapshot}
+                      >
+                        履歴を表示
+                      </button>
+                    </div>
+                    {snapshots &&
+                      (snapshots.length === 0 ? (
+                        <p className="empty">履歴はありません。</p>
+                      ) : (
+                        <ul className="snapshot-list">
+                          {snapshots.map((info) => (
+                            <li key={info.id}>
+                              <div>
+                                <strong>{formatDateTime(new Date(info.createdAt))}</strong>
+                                <span>
+                                  {info.deviceName || "不明な端末"}・カード {info.cardCount}{" "}
+                                  枚・デッキ {info.deckCount} 件
+                                </span>
+                              </div>
+                              <div className="sync-actions">
+                                <button
+                                  type="button"
+                                  onClick={() => handleDiffSnapshot(info)}
+                                  disabled={isLoadingSnapshot || !savedSyncKey}
+                                >
+                                  比較
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => handleRestoreSnapshot(info)}
+                                  disabled={isLoadingSnapshot || !savedSyncKey}
+                                >
+                                  復元
+                                </button>
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      ))}
+                    {snapshotDiff && (
+                      <div className="snapshot-diff">
+                        <p>
+                          {formatDateTime(new Date(snapshotDiff.info.createdAt))}{" "}
+                          との比較: 履歴にのみ {snapshotDiff.diff.onlyInSnapshot.length} 枚・この端末にのみ{" "}
+                          {snapshotDiff.diff.onlyInLocal.length} 枚・内容や学習状況が異なる{" "}
+                          {snapshotDiff.diff.changed.length} 枚
+                        </p>
+                        {(
+                          [
+                            ["履歴にのみあるカード", snapshotDiff.diff.onlyInSnapshot],
+                            ["この端末にのみあるカード", snapshotDiff.diff.onlyInLocal],
+                            [
+                              "異なるカード（この端末の内容）",
+                              snapshotDiff.diff.changed.map(({ local }) => local),
+                            ],
+                          ] as const
+                        )
+                          .filter(([, list]) => list.length > 0)
+                          .map(([title, list]) => (
+                            <div key={title}>
+                              <h4>{title}</h4>
+                              <ul>
+                                {list.slice(0, 10).map((card) => (
+                                  <li key={card.id}>{card.question}</li>
+                                ))}
+                                {list.length > 10 && <li>ほか {list.length - 10} 枚</li>}
+                              </ul>
+                            </div>
+                          ))}
+                      </div>
+                    )}
+                    <div className="sync-actions">
+                      <button
+                        type="button"
+                        className="danger"
+                        onClick={handleWipeCloud}
+                        disabled={isLoadingSnapshot}
+                      >
+                        同期先のデータを削除
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {syncStatus && <p className="sync-status">{syncStatus}</p>}
+              {syncError && <p className="error">{syncError}</p>}
+            </div>
           </section>
         )}
 
@@ -1119,7 +3399,12 @@ function App() {
               <div className="review">
                 <div className="review__header">
                   <span>
-                    {reviewIndex + 1}/{dueCards.length}
+                    {reviewedInSession + 1}/{reviewedInSession + dueCards.length}
+                    {currentReviewCard && (
+                      <span className="review__state">
+                        {cardStateLabels[currentReviewCard.state]}
+                      </span>
+                    )}
                   </span>
                   <button type="button" onClick={resetReviewSession}>
                     先頭に戻る
@@ -1127,7 +3412,17 @@ function App() {
                 </div>
                 {currentReviewCard ? (
                   <div className="review__card">
-                    <h3>{renderTextWithLatex(currentReviewCard.question)}</h3>
+                    <h3>
+                      {renderTextWithLatex(
+                        currentReviewCard.type === "cloze"
+                          ? renderCloze(
+                              currentReviewCard.question,
+                              currentReviewCard.clozeNumber,
+                              showAnswer
+                            )
+                          : currentReviewCard.question
+                      )}
+                    </h3>
                     {currentReviewCard.type === "choice" ? (
                       <div className="review__choices">
                         {currentReviewCard.choices.map((choice) => (
@@ -1146,9 +3441,60 @@ function App() {
                         ))}
                       </div>
                     ) : showAnswer ? (
-                      <p className="review__answer">
-                        {renderTextWithLatex(currentReviewCard.answer)}
-                      </p>
+                      currentReviewCard.type !== "cloze" && (
+                        <div className="review__answer-block">
+                          {typedComparison && (
+                            <div className="typed-result">
+                              <p className="typed-result__diff">
+                                {typedComparison.parts.length > 0
+                                  ? typedComparison.parts.map((part, index) => (
+                                      <span
+                                        key={index}
+                                        className={`typed-result__${part.kind}`}
+                                      >
+                                        {part.text}
+                                      </span>
+                                    ))
+                                  : "（未入力）"}
+                              </p>
+                              <p className="typed-result__summary">
+                                {typedComparison.isExact
+                                  ? "正解"
+                                  : `一致率 ${Math.round(typedComparison.similarity * 100)}%`}
+                                ・おすすめ: {gradeLabels[typedComparison.suggestedGrade]}
+                              </p>
+                            </div>
+                          )}
+                          <p className="review__answer">
+                            {renderTextWithLatex(currentReviewCard.answer)}
+                          </p>
+                          {currentReviewCard.type === "typed" &&
+                            currentReviewCard.alternatives.length > 0 && (
+                              <p className="typed-result__alternatives">
+                                別解: {currentReviewCard.alternatives.join(" / ")}
+                              </p>
+                            )}
+                        </div>
+                      )
+                    ) : currentReviewCard.type === "typed" ? (
+                      <form
+                        className="review__typed"
+                        onSubmit={(event) => {
+                          event.preventDefault();
+                          setShowAnswer(true);
+                        }}
+                      >
+                        <input
+                          type="text"
+                          value={typedAnswer}
+                          onChange={(event) => setTypedAnswer(event.target.value)}
+                          placeholder="答えを入力"
+                          autoFocus
+                        />
+                        <button type="submit" className="secondary">
+                          答え合わせ
+                        </button>
+                      </form>
                     ) : (
                       <button
                         type="button"
@@ -1175,7 +3521,7 @@ function App() {
                   )}
                       </div>
                     )}
-                    {currentReviewCard.type === "basic" && showAnswer &&
+                    {currentReviewCard.type !== "choice" && showAnswer &&
                       currentReviewCard.explanation && (
                         <div className="review__explanation">
                           <span className="explanation-label">解説</span>
@@ -1184,22 +3530,26 @@ function App() {
                       )}
                     {showAnswer && (
                       <div className="review__actions">
-                        <button type="button" onClick={() => handleReview("again")}>
-                          もう一度
-                        </button>
-                        <button type="button" onClick={() => handleReview("hard")}>
-                          難しい
-                        </button>
-                        <button
-                          type="button"
-                          className="primary"
-                          onClick={() => handleReview("good")}
-                        >
-                          良い
-                        </button>
-                        <button type="button" onClick={() => handleReview("easy")}>
-                          簡単
-                        </button>
+                        {reviewGrades.map((grade) => (
+                          <button
+                            key={grade}
+                            type="button"
+                            className={[
+                              grade === "good" ? "primary" : "",
+                              typedComparison?.suggestedGrade === grade ? "is-suggested" : "",
+                            ]
+                              .filter(Boolean)
+                              .join(" ") || undefined}
+                            onClick={() => handleReview(grade)}
+                          >
+                            {gradeLabels[grade]}
+                            {reviewPreview && (
+                              <span className="review__interval">
+                                {formatDelay(reviewPreview[grade], now)}
+                              </span>
+                            )}
+                          </button>
+                        ))}
                       </div>
                     )}
                   </div>
@@ -1222,32 +3572,118 @@ function App() {
             onClick={(event) => event.stopPropagation()}
           >
             <h2>カード編集</h2>
-            <label className="form-label">
-              問題
-              <textarea
-                value={editDraft.question}
-                onChange={(event) =>
-                  setEditDraft((prev) => ({
-                    ...prev,
-                    question: event.target.value,
-                  }))
-                }
-                rows={3}
-              />
-            </label>
-            <label className="form-label">
-              正解
-              <input
-                type="text"
-                value={editDraft.answer}
-                onChange={(event) =>
-                  setEditDraft((prev) => ({
-                    ...prev,
-                    answer: event.target.value,
-                  }))
-                }
-              />
-            </label>
+            {editingCard.type !== "choice" && (
+              <label className="form-label">
+                種類
+                <select
+                  value={editDraft.type === "note" ? editDraft.noteTypeId : editDraft.type}
+                  disabled={editingCard.type === "cloze" || editingCard.type === "note"}
+                  onChange={(event) => {
+                    const { value } = event.target;
+                    const noteType = findNoteType(value, noteTypeList);
+                    setEditDraft((prev) => ({
+                      ...prev,
+                      type: noteType
+                        ? "note"
+                        : value === "cloze" || value === "typed"
+                          ? value
+                          : "basic",
+                      noteTypeId: noteType?.id ?? "",
+                      fields: (noteType?.fields ?? []).map(
+                        (_, index) => [prev.question, prev.answer][index] ?? ""
+                      ),
+                    }));
+                  }}
+                >
+                  <option value="basic">基本</option>
+                  <option value="typed">入力</option>
+                  <option value="cloze" disabled={editingCard.type === "typed"}>
+                    穴埋め
+                  </option>
+                  {noteTypeList.map((noteType) => (
+                    <option
+                      key={noteType.id}
+                      value={noteType.id}
+                      disabled={editingCard.type === "typed"}
+                    >
+                      {noteType.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {editDraft.type === "note" ? (
+              findNoteType(editDraft.noteTypeId, noteTypeList)?.fields.map((name, index) => (
+                <div key={name}>
+                  <label className="form-label">
+                    {name}
+                    <textarea
+                      value={editDraft.fields[index] ?? ""}
+                      onChange={(event) =>
+                        setEditDraft((prev) => ({
+                          ...prev,
+                          fields: prev.fields.map((value, fieldIndex) =>
+                            fieldIndex === index ? event.target.value : value
+                          ),
+                        }))
+                      }
+                      rows={2}
+                    />
+                  </label>
+                  {renderMediaPicker(index)}
+                </div>
+              ))
+            ) : (
+              <>
+                <label className="form-label">
+                  {editDraft.type === "cloze" ? "本文（{{c1::答え::ヒント}} で穴埋め）" : "問題"}
+                  <textarea
+                    value={editDraft.question}
+                    onChange={(event) =>
+                      setEditDraft((prev) => ({
+                        ...prev,
+                        question: event.target.value,
+                      }))
+                    }
+                    rows={3}
+                  />
+                </label>
+                {renderMediaPicker("question")}
+              </>
+            )}
+            {(editDraft.type === "basic" ||
+              editDraft.type === "choice" ||
+              editDraft.type === "typed") && (
+              <label className="form-label">
+                正解
+                <input
+                  type="text"
+                  value={editDraft.answer}
+                  onChange={(event) =>
+                    setEditDraft((prev) => ({
+                      ...prev,
+                      answer: event.target.value,
+                    }))
+                  }
+                />
+              </label>
+            )}
+            {editDraft.type === "basic" && renderMediaPicker("answer")}
+            {editDraft.type === "typed" && (
+              <label className="form-label">
+                別解（1行に1つ）
+                <textarea
+                  value={editDraft.choicesText}
+                  onChange={(event) =>
+                    setEditDraft((prev) => ({
+                      ...prev,
+                      choicesText: event.target.value,
+                    }))
+                  }
+                  rows={3}
+                />
+              </label>
+            )}
             {editingCard.type === "choice" && (
               <label className="form-label">
                 選択肢（1行に1つ）
@@ -1276,6 +3712,20 @@ function App() {
                 rows={4}
               />
             </label>
+            {renderMediaPicker("explanation")}
+            <label className="form-label">
+              タグ（空白区切り）
+              <input
+                type="text"
+                value={editDraft.tagsText}
+                onChange={(event) =>
+                  setEditDraft((prev) => ({
+                    ...prev,
+                    tagsText: event.target.value,
+                  }))
+                }
+              />
+            </label>
             <div className="modal-actions">
               <button type="button" onClick={closeEditModal}>
                 キャンセル
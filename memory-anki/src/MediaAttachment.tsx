@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { acquireMediaUrl, type MediaKind } from "./media";
+
+type MediaAttachmentProps = {
+  name: string;
+  kind: MediaKind;
+};
+
+function MediaAttachment({ name, kind }: MediaAttachmentProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+
+  useEffect(() => {
+    let isActive = true;
+    setUrl(null);
+    setIsMissing(false);
+    const media = acquireMediaUrl(name);
+    media.url
+      .then((value) => {
+        if (!isActive) return;
+        if (value) setUrl(value);
+        else setIsMissing(true);
+      })
+      .catch(() => {
+        if (isActive) setIsMissing(true);
+      });
+    return () => {
+      isActive = false;
+      media.release();
+    };
+  }, [name]);
+
+  if (isMissing) {
+    return (
+      <span className="media-missing">
+        {kind === "image" ? "画像" : "音声"}が見つかりません（同期するとダウンロードされます）
+      </span>
+    );
+  }
+  if (!url) return <span className="media-loading">読み込み中...</span>;
+  if (kind === "image") return <img className="media-image" src={url} alt="" />;
+  return (
+    <audio
+      className="media-audio"
+      src={url}
+      controls
+      preload="none"
+      onClick={(event) => event.stopPropagation()}
+    />
+  );
+}
+
+export default MediaAttachment;
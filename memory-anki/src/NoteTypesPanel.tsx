@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { NOTE_TYPES, isBuiltInNoteType } from "./notes";
+import type { NoteTemplate, NoteType } from "./types";
+
+type NoteTypesPanelProps = {
+  noteTypes: NoteType[];
+  onSave: (noteType: NoteType) => boolean;
+  onDelete: (noteType: NoteType) => void;
+};
+
+type NoteTypeDraft = {
+  id: string;
+  name: string;
+  fieldsText: string;
+  templates: NoteTemplate[];
+  createdAt: string;
+};
+
+const createTemplate = (fields: string[]): NoteTemplate => ({
+  id: crypto.randomUUID(),
+  name: "カード1",
+  front: `{{${fields[0] ?? "表面"}}}`,
+  back: `{{${fields[1] ?? "裏面"}}}`,
+});
+
+const toDraft = (noteType: NoteType, id = noteType.id): NoteTypeDraft => ({
+  id,
+  name: noteType.name,
+  fieldsText: noteType.fields.join("\n"),
+  templates: noteType.templates.map((template) => ({
+    ...template,
+    id: id === noteType.id ? template.id : crypto.randomUUID(),
+  })),
+  createdAt: noteType.createdAt,
+});
+
+const draftFields = (draft: NoteTypeDraft) =>
+  draft.fieldsText
+    .split("\n")
+    .map((field) => field.trim())
+    .filter(Boolean);
+
+function NoteTypesPanel({ noteTypes, onSave, onDelete }: NoteTypesPanelProps) {
+  const [draft, setDraft] = useState<NoteTypeDraft | null>(null);
+
+  const startCreate = () =>
+    setDraft({
+      id: crypto.randomUUID(),
+      name: "",
+      fieldsText: "表面\n裏面",
+      templates: [createTemplate(["表面", "裏面"])],
+      createdAt: "",
+    });
+
+  const startCopy = (noteType: NoteType) =>
+    setDraft({ ...toDraft(noteType, crypto.randomUUID()), name: `${noteType.name}（コピー）` });
+
+  const updateTemplate = (index: number, patch: Partial<NoteTemplate>) =>
+    setDraft((prev) =>
+      prev && {
+        ...prev,
+        templates: prev.templates.map((template, current) =>
+          current === index ? { ...template, ...patch } : template
+        ),
+      }
+    );
+
+  const handleSave = () => {
+    if (!draft) return;
+    const saved = onSave({
+      id: draft.id,
+      name: draft.name,
+      fields: draftFields(draft),
+      templates: draft.templates,
+      createdAt: draft.createdAt,
+      updatedAt: draft.createdAt,
+    });
+    if (saved) setDraft(null);
+  };
+
+  return (
+    <section className="panel">
+      <h2>ノートタイプ</h2>
+      <ul className="note-type-list">
+        {[...NOTE_TYPES, ...noteTypes].map((noteType) => {
+          const isBuiltIn = isBuiltInNoteType(noteType.id);
+          return (
+            <li key={noteType.id} className="note-type-item">
+              <div>
+                <strong>{noteType.name}</strong>
+                {isBuiltIn && <span className="note-type-item__badge">標準</span>}
+                <p>
+                  フィールド: {noteType.fields.join("・")} ／ カード:{" "}
+                  {noteType.templates.map((template) => template.name).join("・")}
+                </p>
+              </div>
+              <div className="card-actions">
+                <button type="button" onClick={() => startCopy(noteType)}>
+                  複製
+                </button>
+                {!isBuiltIn && (
+                  <>
+                    <button type="button" onClick={() => setDraft(toDraft(noteType))}>
+                      編集
+                    </button>
+                    <button type="button" className="danger" onClick={() => onDelete(noteType)}>
+                      削除
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      {!draft && (
+        <div className="card-actions">
+          <button type="button" className="secondary" onClick={startCreate}>
+            ノートタイプを追加
+          </button>
+        </div>
+      )}
+      {draft && (
+        <div className="note-type-editor">
+          <label className="form-label">
+            名前
+            <input
+              value={draft.name}
+              onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+            />
+          </label>
+          <label className="form-label">
+            フィールド（1行に1つ）
+            <textarea
+              rows={4}
+              value={draft.fieldsText}
+              onChange={(event) => setDraft({ ...draft, fieldsText: event.target.value })}
+            />
+          </label>
+          <p className="note-type-editor__hint">
+            表面・裏面では {"{{フィールド名}}"} の位置にフィールドの値が入ります。
+          </p>
+          {draft.templates.map((template, index) => (
+            <fieldset key={template.id} className="note-type-editor__template">
+              <label className="form-label">
+                カードの種類
+                <input
+                  value={template.name}
+                  onChange={(event) => updateTemplate(index, { name: event.target.value })}
+                />
+              </label>
+              <label className="form-label">
+                表面
+                <textarea
+                  rows={2}
+                  value={template.front}
+                  onChange={(event) => updateTemplate(index, { front: event.target.value })}
+                />
+              </label>
+              <label className="form-label">
+                裏面
+                <textarea
+                  rows={3}
+                  value={template.back}
+                  onChange={(event) => updateTemplate(index, { back: event.target.value })}
+                />
+              </label>
+              <div className="card-actions">
+                <button
+                  type="button"
+                  className="danger"
+                  disabled={draft.templates.length === 1}
+                  onClick={() =>
+                    setDraft({
+                      ...draft,
+                      templates: draft.templates.filter((_, current) => current !== index),
+                    })
+                  }
+                >
+                  このカードの種類を削除
+                </button>
+              </div>
+            </fieldset>
+          ))}
+          <div className="modal-actions">
+            <button
+              type="button"
+              onClick={() =>
+                setDraft({
+                  ...draft,
+                  templates: [
+                    ...draft.templates,
+                    {
+                      ...createTemplate(draftFields(draft)),
+                      name: `カード${draft.templates.length + 1}`,
+                    },
+                  ],
+                })
+              }
+            >
+              カードの種類を追加
+            </button>
+            <button type="button" onClick={() => setDraft(null)}>
+              キャンセル
+            </button>
+            <button type="button" className="primary" onClick={handleSave}>
+              保存
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default NoteTypesPanel;
@@ -0,0 +1,192 @@
+import { useMemo, useState } from "react";
+import { descendantDeckIds } from "./decks";
+import {
+  answerDistribution,
+  dueForecast,
+  maturityBreakdown,
+  reviewHeatmap,
+  trueRetentionByDeck,
+} from "./stats";
+import type { Card, Deck, ReviewGrade, ReviewLog } from "./types";
+
+type StatsPanelProps = {
+  cards: Card[];
+  reviewLogs: ReviewLog[];
+  decks: Deck[];
+  activeDeckId: string;
+};
+
+const ALL_DECKS = "__all__";
+
+const gradeLabels: Record<ReviewGrade, string> = {
+  again: "もう一度",
+  hard: "難しい",
+  good: "良い",
+  easy: "簡単",
+};
+
+const formatShortDate = (date: Date) =>
+  new Intl.DateTimeFormat("ja-JP", { month: "numeric", day: "numeric" }).format(date);
+
+const formatPercent = (value: number | null) =>
+  value === null ? "—" : `${Math.round(value * 1000) / 10}%`;
+
+function StatsPanel({ cards, reviewLogs, decks, activeDeckId }: StatsPanelProps) {
+  const [deckFilter, setDeckFilter] = useState(activeDeckId);
+
+  const filteredDecks = useMemo(() => {
+    if (deckFilter === ALL_DECKS) return decks;
+    const ids = descendantDeckIds(decks, deckFilter);
+    return decks.filter((deck) => ids.has(deck.id));
+  }, [deckFilter, decks]);
+
+  const filteredCards = useMemo(() => {
+    const ids = new Set(filteredDecks.map((deck) => deck.id));
+    return cards.filter((card) => ids.has(card.deckId));
+  }, [cards, filteredDecks]);
+
+  const filteredLogs = useMemo(() => {
+    const ids = new Set(filteredCards.map((card) => card.id));
+    return reviewLogs.filter((log) => ids.has(log.cardId));
+  }, [filteredCards, reviewLogs]);
+
+  const forecast = useMemo(() => dueForecast(filteredCards), [filteredCards]);
+  const heatmap = useMemo(() => reviewHeatmap(filteredLogs), [filteredLogs]);
+  const retention = useMemo(
+    () => trueRetentionByDeck(cards, reviewLogs, filteredDecks),
+    [cards, filteredDecks, reviewLogs]
+  );
+  const distribution = useMemo(
+    () => answerDistribution(filteredLogs.filter((log) => log.source === "review")),
+    [filteredLogs]
+  );
+  const maturity = useMemo(() => maturityBreakdown(filteredCards), [filteredCards]);
+
+  const forecastMax = Math.max(...forecast.map((day) => day.count), 1);
+  const distributionTotal = Object.values(distribution).reduce((sum, n) => sum + n, 0);
+  const maturityTotal = maturity.new + maturity.young + maturity.mature;
+
+  return (
+    <section className="panel">
+      <div className="stats__header">
+        <h2>統計</h2>
+        <select value={deckFilter} onChange={(event) => setDeckFilter(event.target.value)}>
+          <option value={ALL_DECKS}>すべてのデッキ</option>
+          {[...decks]
+            .sort((a, b) => a.name.localeCompare(b.name, "ja"))
+            .map((deck) => (
+              <option key={deck.id} value={deck.id}>
+                {deck.name}
+              </option>
+            ))}
+        </select>
+      </div>
+
+      <div className="stats-section">
+        <h3>今後30日の予定</h3>
+        <div className="stats-forecast">
+          {forecast.map((day) => (
+            <div
+              key={day.date.toISOString()}
+              className="stats-forecast__bar"
+              title={`${formatShortDate(day.date)}: ${day.count} 枚`}
+            >
+              <span style={{ height: `${(day.count / forecastMax) * 100}%` }} />
+            </div>
+          ))}
+        </div>
+        <div className="stats-forecast__legend">
+          <span>{formatShortDate(forecast[0].date)}</span>
+          <span>{formatShortDate(forecast[forecast.length - 1].date)}</span>
+        </div>
+      </div>
+
+      <div className="stats-section">
+        <h3>復習カレンダー</h3>
+        <div className="stats-heatmap">
+          {heatmap.map((day) => (
+            <span
+              key={day.date.toISOString()}
+              className={`stats-heatmap__cell level-${day.level}`}
+              title={`${formatShortDate(day.date)}: ${day.count} 回`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="stats-grid">
+        <div className="stats-section">
+          <h3>真の記憶率</h3>
+          <table className="stats-table">
+            <thead>
+              <tr>
+                <th>デッキ</th>
+                <th>正答 / 復習</th>
+                <th>記憶率</th>
+              </tr>
+            </thead>
+            <tbody>
+              {retention.map((row) => (
+                <tr key={row.deck.id}>
+                  <td>{row.deck.name}</td>
+                  <td>
+                    {row.passed} / {row.total}
+                  </td>
+                  <td>{formatPercent(row.rate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="stats-section">
+          <h3>回答ボタン</h3>
+          <ul className="stats-bars">
+            {(Object.keys(gradeLabels) as ReviewGrade[]).map((grade) => (
+              <li key={grade}>
+                <span>{gradeLabels[grade]}</span>
+                <span className="stats-bars__track">
+                  <span
+                    className={`stats-bars__fill grade-${grade}`}
+                    style={{
+                      width: `${distributionTotal ? (distribution[grade] / distributionTotal) * 100 : 0}%`,
+                    }}
+                  />
+                </span>
+                <span>{distribution[grade]}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="stats-section">
+          <h3>カードの成熟度</h3>
+          <ul className="stats-bars">
+            {(
+              [
+                ["new", "新規"],
+                ["young", "学習中（21日未満）"],
+                ["mature", "定着（21日以上）"],
+              ] as const
+            ).map(([key, label]) => (
+              <li key={key}>
+                <span>{label}</span>
+                <span className="stats-bars__track">
+                  <span
+                    className={`stats-bars__fill maturity-${key}`}
+                    style={{
+                      width: `${maturityTotal ? (maturity[key] / maturityTotal) * 100 : 0}%`,
+                    }}
+                  />
+                </span>
+                <span>{maturity[key]}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export default StatsPanel;
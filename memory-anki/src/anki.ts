@@ -0,0 +1,539 @@
+import initSqlJs, { type Database, type SqlJsStatic, type SqlValue } from "sql.js";
+import sqlWasmUrl from "sql.js/dist/sql-wasm.wasm?url";
+import { strFromU8, unzipSync } from "fflate";
+import { decompress } from "fzstd";
+import { DECK_SEPARATOR } from "./decks";
+import { DEFAULT_SM2_SETTINGS } from "./scheduler";
+import { clozeNumbers } from "./cloze";
+import { fieldForHeader, type ImportDraft } from "./importer";
+import { createMediaFile, mediaToken, textMediaNames, type MediaFile } from "./media";
+import { findNoteType, noteCards } from "./notes";
+import type { Card, CardState, NoteType, ReviewGrade, ReviewLog } from "./types";
+
+export type AnkiSchedule = Pick<
+  Card,
+  | "state"
+  | "nextReviewAt"
+  | "intervalDays"
+  | "easeFactor"
+  | "lapses"
+  | "reviewCount"
+  | "lastReviewedAt"
+  | "stability"
+  | "difficulty"
+>;
+
+export type AnkiImportCard = {
+  ankiCardId: number;
+  draft: ImportDraft;
+  schedule: AnkiSchedule | null;
+};
+
+export type AnkiReviewLog = Omit<ReviewLog, "id" | "cardId"> & {
+  ankiCardId: number;
+};
+
+export type AnkiPackage = {
+  cards: AnkiImportCard[];
+  reviewLogs: AnkiReviewLog[];
+  noteCount: number;
+  media: MediaFile[];
+  skippedMediaCount: number;
+  skipped: string[];
+};
+
+type AnkiNoteType = {
+  name: string;
+  isCloze: boolean;
+  fields: string[];
+  templates: { qfmt: string; afmt: string }[];
+};
+
+type Row = Record<string, SqlValue>;
+
+const ANKI_DEFAULT_DECK_ID = 1;
+
+const COLLECTION_FILES = ["collection.anki21b", "collection.anki21", "collection.anki2"];
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+export const loadSqlJs = () => {
+  sqlJs ??= initSqlJs({ locateFile: () => sqlWasmUrl });
+  return sqlJs;
+};
+
+const queryRows = (db: Database, sql: string): Row[] => {
+  const [result] = db.exec(sql);
+  if (!result) return [];
+  return result.values.map((values) =>
+    Object.fromEntries(result.columns.map((column, index) => [column, values[index]]))
+  );
+};
+
+const hasTable = (db: Database, name: string) =>
+  queryRows(db, `SELECT name FROM sqlite_master WHERE type = 'table' AND name = '${name}'`)
+    .length > 0;
+
+const ZSTD_MAGIC = [0x28, 0xb5, 0x2f, 0xfd];
+
+const maybeDecompress = (bytes: Uint8Array) =>
+  ZSTD_MAGIC.every((byte, index) => bytes[index] === byte) ? decompress(bytes) : bytes;
+
+const readProtoFields = (bytes: Uint8Array) => {
+  const fields: [number, Uint8Array][] = [];
+  let offset = 0;
+  const readVarint = () => {
+    let value = 0;
+    let shift = 0;
+    while (offset < bytes.length) {
+      const byte = bytes[offset];
+      offset += 1;
+      value += (byte & 0x7f) * 2 ** shift;
+      if (byte < 0x80) break;
+      shift += 7;
+    }
+    return value;
+  };
+  while (offset < bytes.length) {
+    const key = readVarint();
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+    if (wireType === 0) readVarint();
+    else if (wireType === 1) offset += 8;
+    else if (wireType === 5) offset += 4;
+    else if (wireType === 2) {
+      const length = readVarint();
+      fields.push([field, bytes.subarray(offset, offset + length)]);
+      offset += length;
+    } else break;
+  }
+  return fields;
+};
+
+const readProtoStrings = (bytes: Uint8Array) => {
+  const decoder = new TextDecoder();
+  return new Map(readProtoFields(bytes).map(([field, value]) => [field, decoder.decode(value)]));
+};
+
+const readMediaNames = (bytes: Uint8Array): Map<string, string> => {
+  const decompressed = maybeDecompress(bytes);
+  if (decompressed !== bytes) {
+    return new Map(
+      readProtoFields(decompressed)
+        .filter(([field]) => field === 1)
+        .map(([, entry], index) => [String(index), readProtoStrings(entry).get(1) ?? ""])
+    );
+  }
+  const names = JSON.parse(strFromU8(bytes) || "{}") as Record<string, string>;
+  return new Map(Object.entries(names));
+};
+
+const readPackageMedia = async (files: Record<string, Uint8Array>) => {
+  const media = new Map<string, MediaFile>();
+  let skipped = 0;
+  if (!files.media) return { media, skipped };
+  for (const [entry, name] of readMediaNames(files.media)) {
+    const data = files[entry];
+    const file =
+      data && name ? await createMediaFile(new Uint8Array(maybeDecompress(data)), name) : null;
+    if (file) media.set(name, file);
+    else skipped += 1;
+  }
+  return { media, skipped };
+};
+
+const decodeMediaReference = (value: string) => {
+  const unescaped = value.replace(/&amp;/g, "&").replace(/&quot;/g, '"');
+  try {
+    return decodeURIComponent(unescaped);
+  } catch {
+    return unescaped;
+  }
+};
+
+const readNoteTypes = (db: Database) => {
+  const noteTypes = new Map<number, AnkiNoteType>();
+  if (hasTable(db, "notetypes")) {
+    queryRows(db, "SELECT id, name, config FROM notetypes").forEach((row) => {
+      const config = row.config instanceof Uint8Array ? row.config : new Uint8Array();
+      noteTypes.set(Number(row.id), {
+        name: String(row.name),
+        isCloze: config[0] === 0x08 && config[1] === 0x01,
+        fields: [],
+        templates: [],
+      });
+    });
+    queryRows(db, "SELECT ntid, name FROM fields ORDER BY ntid, ord").forEach((row) => {
+      noteTypes.get(Number(row.ntid))?.fields.push(String(row.name));
+    });
+    queryRows(db, "SELECT ntid, config FROM templates ORDER BY ntid, ord").forEach((row) => {
+      const config = readProtoStrings(
+        row.config instanceof Uint8Array ? row.config : new Uint8Array()
+      );
+      noteTypes
+        .get(Number(row.ntid))
+        ?.templates.push({ qfmt: config.get(1) ?? "", afmt: config.get(2) ?? "" });
+    });
+    return noteTypes;
+  }
+
+  const [col] = queryRows(db, "SELECT models FROM col");
+  const models = JSON.parse(String(col?.models || "{}")) as Record<
+    string,
+    {
+      name: string;
+      type: number;
+      flds: { name: string; ord: number }[];
+      tmpls: { ord: number; qfmt: string; afmt: string }[];
+    }
+  >;
+  Object.entries(models).forEach(([id, model]) => {
+    noteTypes.set(Number(id), {
+      name: model.name,
+      isCloze: model.type === 1,
+      fields: [...model.flds].sort((a, b) => a.ord - b.ord).map((field) => field.name),
+      templates: [...model.tmpls]
+        .sort((a, b) => a.ord - b.ord)
+        .map(({ qfmt, afmt }) => ({ qfmt, afmt })),
+    });
+  });
+  return noteTypes;
+};
+
+const readDeckNames = (db: Database) => {
+  const names = new Map<number, string>();
+  if (hasTable(db, "decks")) {
+    queryRows(db, "SELECT id, name FROM decks").forEach((row) => {
+      names.set(Number(row.id), String(row.name).split("\x1f").join(DECK_SEPARATOR));
+    });
+  } else {
+    const [col] = queryRows(db, "SELECT decks FROM col");
+    const decks = JSON.parse(String(col?.decks || "{}")) as Record<string, { name: string }>;
+    Object.entries(decks).forEach(([id, deck]) => names.set(Number(id), deck.name));
+  }
+  if (names.get(ANKI_DEFAULT_DECK_ID) === "Default") names.delete(ANKI_DEFAULT_DECK_ID);
+  return names;
+};
+
+export const ankiHtmlToText = (html: string, media: Map<string, MediaFile> = new Map()) => {
+  const token = (reference: string) => {
+    const file = media.get(decodeMediaReference(reference)) ?? media.get(reference);
+    return file ? `\n${mediaToken(file.name)}\n` : "";
+  };
+  const withBreaks = html
+    .replace(/\[sound:([^\]]*)\]/g, (_, reference: string) => token(reference))
+    .replace(/<img[^>]*?\bsrc\s*=\s*["']?([^"'\s>]+)["']?[^>]*>/gi, (_, reference: string) =>
+      token(reference)
+    )
+    .replace(/<img[^>]*>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(div|p|li)>/gi, "\n");
+  const text =
+    new DOMParser().parseFromString(withBreaks, "text/html").body.textContent ?? "";
+  return text
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, math: string) => `$${math}$`)
+    .replace(/\u00a0/g, " ")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+};
+
+const templateFields = (format: string) =>
+  [...format.matchAll(/\{\{([^#/^}][^}]*)\}\}/g)]
+    .map((match) => match[1].split(":").pop()?.trim() ?? "")
+    .filter((name) => name && name !== "FrontSide");
+
+const toDraft = (
+  noteType: AnkiNoteType,
+  fieldValues: string[],
+  ordinal: number,
+  deck: string,
+  tags: string[],
+  media: Map<string, MediaFile>,
+  noteTypes: NoteType[]
+): ImportDraft | null => {
+  const values = new Map(
+    noteType.fields.map((name, index) => [name, ankiHtmlToText(fieldValues[index] ?? "", media)])
+  );
+  const choicesField = noteType.fields.find((name) => fieldForHeader(name) === "choices");
+  const choices = choicesField
+    ? (values.get(choicesField) ?? "")
+        .split(/\||\n/)
+        .map((choice) => choice.trim())
+        .filter(Boolean)
+    : [];
+
+  if (noteType.isCloze) {
+    const [clozeField, ...rest] = noteType.fields;
+    const text = values.get(clozeField) ?? "";
+    if (!clozeNumbers(text).includes(ordinal + 1)) return null;
+    const explanation = rest
+      .map((name) => values.get(name))
+      .filter(Boolean)
+      .join("\n");
+    return {
+      deck,
+      type: "cloze",
+      question: text,
+      answer: "",
+      choices: [],
+      explanation: explanation || undefined,
+      tags,
+      clozeNumber: ordinal + 1,
+    };
+  }
+
+  const known = findNoteType(noteType.name, noteTypes);
+  const knownTemplate = known?.templates[ordinal];
+  if (known && knownTemplate && known.fields.every((name) => values.has(name))) {
+    const fields = known.fields.map((name) => values.get(name) ?? "");
+    const card = noteCards(known, fields).find(
+      (item) => item.templateId === knownTemplate.id
+    );
+    if (!card) return null;
+    return {
+      deck,
+      type: "note",
+      question: fields[0],
+      answer: fields[1] ?? "",
+      choices: [],
+      explanation: values.get("Explanation") || undefined,
+      tags,
+      noteTypeId: known.id,
+      templateId: knownTemplate.id,
+      fields,
+    };
+  }
+
+  const template = noteType.templates[ordinal];
+  const typedField = template
+    ? /\{\{type:([^}]+)\}\}/.exec(template.qfmt)?.[1].trim()
+    : undefined;
+  const alternativesField = typedField
+    ? noteType.fields.find((name) => name.toLowerCase() === "alternatives")
+    : undefined;
+  const questionFields = template
+    ? templateFields(template.qfmt).filter((name) => values.has(name) && name !== typedField)
+    : [];
+  const answerFields = template
+    ? templateFields(template.afmt).filter(
+        (name) =>
+          values.has(name) &&
+          !questionFields.includes(name) &&
+          name !== typedField &&
+          name !== alternativesField
+      )
+    : [];
+  if (typedField && values.has(typedField)) answerFields.unshift(typedField);
+  if (questionFields.length === 0) questionFields.push(noteType.fields[0]);
+  if (answerFields.length === 0 && noteType.fields[1]) {
+    answerFields.push(noteType.fields[1]);
+  }
+  const [answerField, ...extras] = answerFields.filter((name) => name !== choicesField);
+  const question = questionFields
+    .filter((name) => name !== choicesField)
+    .map((name) => values.get(name))
+    .filter(Boolean)
+    .join("\n");
+  const answer = answerField ? values.get(answerField) ?? "" : "";
+
+  if (!question || !answer) return null;
+  const explanation = extras
+    .map((name) => values.get(name))
+    .filter(Boolean)
+    .join("\n");
+  if (typedField) {
+    const alternatives = alternativesField
+      ? (values.get(alternativesField) ?? "")
+          .split("\n")
+          .map((alternative) => alternative.trim())
+          .filter(Boolean)
+      : [];
+    return {
+      deck,
+      type: "typed",
+      question,
+      answer,
+      choices: alternatives,
+      explanation: explanation || undefined,
+      tags,
+    };
+  }
+  const isChoice = choices.length >= 2;
+  return {
+    deck,
+    type: isChoice ? "choice" : "basic",
+    question,
+    answer,
+    choices: isChoice ? choices : [],
+    explanation: explanation || undefined,
+    tags,
+  };
+};
+
+const ankiStates: Record<number, CardState> = {
+  0: "new",
+  1: "learning",
+  2: "review",
+  3: "relearning",
+};
+
+const ankiGrades: Record<number, ReviewGrade> = {
+  1: "again",
+  2: "hard",
+  3: "good",
+  4: "easy",
+};
+
+const dayNumberToDate = (collectionCreatedAt: number, dayNumber: number) => {
+  const date = new Date((collectionCreatedAt + dayNumber * 86400) * 1000);
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+const readSchedule = (
+  row: Row,
+  collectionCreatedAt: number,
+  lastReviewedAt: string | undefined
+): AnkiSchedule | null => {
+  const state = ankiStates[Number(row.type)];
+  if (!state || state === "new") return null;
+  const due = Number(row.due);
+  const nextReviewAt =
+    state === "review" || Number(row.queue) === 3
+      ? dayNumberToDate(collectionCreatedAt, due)
+      : new Date(due * 1000);
+  let memory: { s?: unknown; d?: unknown } = {};
+  try {
+    memory = JSON.parse(String(row.data || "{}"));
+  } catch {
+    memory = {};
+  }
+  return {
+    state,
+    nextReviewAt: nextReviewAt.toISOString(),
+    intervalDays: Math.max(1, Number(row.ivl) || 1),
+    easeFactor: Number(row.factor) > 0 ? Number(row.factor) / 1000 : DEFAULT_SM2_SETTINGS.startingEase,
+    lapses: Number(row.lapses) || 0,
+    reviewCount: Number(row.reps) || 0,
+    lastReviewedAt,
+    stability: typeof memory.s === "number" ? memory.s : undefined,
+    difficulty: typeof memory.d === "number" ? memory.d : undefined,
+  };
+};
+
+const revlogIntervalDays = (value: number) => (value < 0 ? -value / 86400 : value);
+
+const revlogStates: Record<number, CardState> = {
+  0: "learning",
+  1: "review",
+  2: "relearning",
+  3: "review",
+};
+
+const openCollection = async (files: Record<string, Uint8Array>) => {
+  const name = COLLECTION_FILES.find((file) => files[file]);
+  if (!name) {
+    throw new Error("パッケージにコレクションが含まれていません。");
+  }
+  const bytes = name.endsWith("b") ? decompress(files[name]) : files[name];
+  const SQL = await loadSqlJs();
+  return new SQL.Database(bytes);
+};
+
+export const readAnkiPackage = async (
+  data: ArrayBuffer,
+  noteTypes: NoteType[]
+): Promise<AnkiPackage> => {
+  const files = unzipSync(new Uint8Array(data), {
+    filter: (file) =>
+      COLLECTION_FILES.includes(file.name) || file.name === "media" || /^\d+$/.test(file.name),
+  });
+  const { media, skipped: skippedMediaCount } = await readPackageMedia(files);
+  const db = await openCollection(files);
+  try {
+    const ankiNoteTypes = readNoteTypes(db);
+    const deckNames = readDeckNames(db);
+    const [col] = queryRows(db, "SELECT crt FROM col");
+    const collectionCreatedAt = Number(col?.crt ?? 0);
+
+    const reviewLogs: AnkiReviewLog[] = [];
+    const lastReviewed = new Map<number, string>();
+    queryRows(db, "SELECT id, cid, ease, ivl, lastIvl, time, type FROM revlog ORDER BY id").forEach(
+      (row) => {
+        const grade = ankiGrades[Number(row.ease)];
+        if (!grade || Number(row.type) > 3) return;
+        const reviewedAt = new Date(Number(row.id)).toISOString();
+        lastReviewed.set(Number(row.cid), reviewedAt);
+        reviewLogs.push({
+          ankiCardId: Number(row.cid),
+          grade,
+          reviewedAt,
+          previousIntervalDays: revlogIntervalDays(Number(row.lastIvl)),
+          nextIntervalDays: revlogIntervalDays(Number(row.ivl)),
+          durationMs: Number(row.time) || 0,
+          source: "review",
+          previousState: revlogStates[Number(row.type)],
+        });
+      }
+    );
+
+    const notes = new Map(
+      queryRows(db, "SELECT id, mid, tags, flds FROM notes").map((row) => [Number(row.id), row])
+    );
+    const skipped: string[] = [];
+    const cards: AnkiImportCard[] = [];
+    const noteIds = new Map<number, string>();
+    queryRows(
+      db,
+      "SELECT id, nid, CASE WHEN odid != 0 THEN odid ELSE did END AS deck, ord, type, queue, due, ivl, factor, reps, lapses, data FROM cards ORDER BY nid, ord"
+    ).forEach((row) => {
+      const note = notes.get(Number(row.nid));
+      const noteType = note ? ankiNoteTypes.get(Number(note.mid)) : undefined;
+      if (!note || !noteType) {
+        skipped.push(`カード ${row.id}: ノートまたはノートタイプが見つかりません。`);
+        return;
+      }
+      const draft = toDraft(
+        noteType,
+        String(note.flds).split("\x1f"),
+        Number(row.ord),
+        deckNames.get(Number(row.deck)) ?? "",
+        String(note.tags).split(/\s+/).filter(Boolean),
+        media,
+        noteTypes
+      );
+      if (!draft) {
+        skipped.push(`カード ${row.id}（${noteType.name}）: 問題または回答が空です。`);
+        return;
+      }
+      if (draft.type === "cloze" || draft.type === "note") {
+        const nid = Number(row.nid);
+        if (!noteIds.has(nid)) noteIds.set(nid, crypto.randomUUID());
+        draft.noteId = noteIds.get(nid);
+      }
+      cards.push({
+        ankiCardId: Number(row.id),
+        draft,
+        schedule: readSchedule(row, collectionCreatedAt, lastReviewed.get(Number(row.id))),
+      });
+    });
+
+    const usedMedia = new Set(
+      cards.flatMap(({ draft }) =>
+        [draft.question, draft.answer, draft.explanation ?? "", ...draft.choices].flatMap(
+          textMediaNames
+        )
+      )
+    );
+    return {
+      cards,
+      reviewLogs,
+      noteCount: notes.size,
+      media: [...media.values()].filter((file) => usedMedia.has(file.name)),
+      skippedMediaCount,
+      skipped,
+    };
+  } finally {
+    db.close();
+  }
+};
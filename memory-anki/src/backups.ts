@@ -0,0 +1,148 @@
+import { toDateKey } from "./dates";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+import type { RawStoragePayload, StoragePayload } from "./storage";
+import { invokeTauri, isTauri } from "./tauri";
+
+export type BackupKind = "daily" | "pre-import" | "pre-restore" | "manual";
+
+export type BackupInfo = {
+  name: string;
+  kind: BackupKind;
+  createdAt: string;
+  size: number;
+};
+
+type StoredBackup = { name: string; payload: StoragePayload };
+
+export const backupKindLabels: Record<BackupKind, string> = {
+  daily: "日次",
+  "pre-import": "取り込み前",
+  "pre-restore": "復元前",
+  manual: "手動",
+};
+
+const BACKUP_LIMITS: Record<BackupKind, number> = {
+  daily: 7,
+  "pre-import": 10,
+  "pre-restore": 10,
+  manual: 10,
+};
+
+const BACKUP_DB = "memory-anki-backups";
+const BACKUP_STORE = "backups";
+const BACKUP_INFO_STORE = "backupInfo";
+
+const openBackupDb = () =>
+  openDatabase(BACKUP_DB, 2, (database, oldVersion, transaction) => {
+    if (oldVersion < 1) database.createObjectStore(BACKUP_STORE, { keyPath: "name" });
+    const infoStore = database.createObjectStore(BACKUP_INFO_STORE, { keyPath: "name" });
+    if (oldVersion < 1) return;
+    const cursorRequest = transaction.objectStore(BACKUP_STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const { payload: _payload, ...info } = cursor.value as StoredBackup & BackupInfo;
+      infoStore.put(info);
+      cursor.continue();
+    };
+  });
+
+const readBackupInfos = async () => {
+  const database = await openBackupDb();
+  try {
+    const transaction = database.transaction(BACKUP_INFO_STORE, "readonly");
+    return await requestToPromise<BackupInfo[]>(
+      transaction.objectStore(BACKUP_INFO_STORE).getAll()
+    );
+  } finally {
+    database.close();
+  }
+};
+
+const writeWebBackup = async (kind: BackupKind, payload: StoragePayload, now: Date) => {
+  const size = new Blob([JSON.stringify(payload)]).size;
+  const name =
+    kind === "daily"
+      ? `daily-${toDateKey(now)}`
+      : `${kind}-${now.toISOString().replace(/[-:.]/g, "")}`;
+  const existing = (await readBackupInfos())
+    .filter((backup) => backup.kind === kind && backup.name !== name)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const database = await openBackupDb();
+  try {
+    const transaction = database.transaction([BACKUP_STORE, BACKUP_INFO_STORE], "readwrite");
+    const store = transaction.objectStore(BACKUP_STORE);
+    const infoStore = transaction.objectStore(BACKUP_INFO_STORE);
+    store.put({ name, payload });
+    infoStore.put({ name, kind, createdAt: now.toISOString(), size });
+    existing
+      .slice(0, Math.max(0, existing.length + 1 - BACKUP_LIMITS[kind]))
+      .forEach((backup) => {
+        store.delete(backup.name);
+        infoStore.delete(backup.name);
+      });
+    await transactionDone(transaction);
+  } finally {
+    database.close();
+  }
+  return name;
+};
+
+let lastDailyBackup: string | null = null;
+
+export const ensureDailyBackup = async (payload: StoragePayload, now: Date = new Date()) => {
+  if (isTauri()) return;
+  const today = toDateKey(now);
+  if (lastDailyBackup === today) return;
+  const database = await openBackupDb();
+  let exists: boolean;
+  try {
+    const transaction = database.transaction(BACKUP_INFO_STORE, "readonly");
+    exists =
+      (await requestToPromise(
+        transaction.objectStore(BACKUP_INFO_STORE).count(`daily-${today}`)
+      )) > 0;
+  } finally {
+    database.close();
+  }
+  if (!exists) await writeWebBackup("daily", payload, now);
+  lastDailyBackup = today;
+};
+
+export const createBackup = async (kind: BackupKind, payload: StoragePayload) =>
+  isTauri()
+    ? invokeTauri<string | null>("create_backup", { kind })
+    : writeWebBackup(kind, payload, new Date());
+
+export const listBackups = async (): Promise<BackupInfo[]> => {
+  if (isTauri()) return invokeTauri<BackupInfo[]>("list_backups");
+  return (await readBackupInfos()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+const readWebBackup = async (name: string) => {
+  const database = await openBackupDb();
+  let backup: StoredBackup | undefined;
+  try {
+    const transaction = database.transaction(BACKUP_STORE, "readonly");
+    backup = await requestToPromise<StoredBackup | undefined>(
+      transaction.objectStore(BACKUP_STORE).get(name)
+    );
+  } finally {
+    database.close();
+  }
+  if (!backup) throw new Error(`バックアップ ${name} が見つかりません。`);
+  return backup.payload;
+};
+
+export const downloadableBackup = async (name: string) =>
+  JSON.stringify(await readWebBackup(name), null, 2);
+
+export const restoreBackup = async (
+  name: string,
+  current: StoragePayload
+): Promise<RawStoragePayload> => {
+  if (isTauri()) return invokeTauri<RawStoragePayload>("restore_backup", { name });
+  const payload = await readWebBackup(name);
+  await writeWebBackup("pre-restore", current, new Date());
+  return payload;
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  CLOZE_MARKER_PATTERN,
+  clozeAnswer,
+  clozeNumbers,
+  renderCloze,
+  splitClozeMarkers,
+} from "./cloze";
+
+const TEXT = "{{c1::ミトコンドリア}}は{{c2::ATP::エネルギー}}を作る";
+
+describe("clozeNumbers", () => {
+  it("lists each cloze number once in order", () => {
+    expect(clozeNumbers("{{c3::c}} {{c1::a}} {{c3::d}} {{c0::x}}")).toEqual([1, 3]);
+    expect(clozeNumbers("no clozes")).toEqual([]);
+  });
+});
+
+describe("clozeAnswer", () => {
+  it("joins every deletion of the number without hints", () => {
+    expect(clozeAnswer(TEXT, 2)).toBe("ATP");
+    expect(clozeAnswer("{{c1::赤}}と{{c1::白}}", 1)).toBe("赤 / 白");
+    expect(clozeAnswer(TEXT, 5)).toBe("[...]");
+  });
+
+  it("keeps nested braces inside the answer", () => {
+    expect(clozeAnswer("$y = {{c1::\\frac{a}{b}}}$", 1)).toBe("\\frac{a}{b}");
+    expect(clozeAnswer("{{c1::x^{2}::指数}} と {{c2::y}}", 1)).toBe("x^{2}");
+    expect(clozeNumbers("{{c1::x^{2}}} と {{c2::y_{i}}}")).toEqual([1, 2]);
+  });
+});
+
+describe("renderCloze", () => {
+  it("hides the current number, shows its hint and keeps the other answers", () => {
+    expect(renderCloze(TEXT, 1, false)).toBe("{{cloze::[...]}}はATPを作る");
+    expect(renderCloze(TEXT, 2, false)).toBe("ミトコンドリアは{{cloze::[エネルギー]}}を作る");
+    expect(renderCloze(TEXT, 2, true)).toBe("ミトコンドリアは{{cloze::ATP}}を作る");
+    expect(CLOZE_MARKER_PATTERN.exec("{{cloze::ATP}}")?.[1]).toBe("ATP");
+  });
+
+  it("uses LaTeX markup for clozes inside math", () => {
+    const text = "$E = {{c1::mc^2::質量}}$ と {{c2::光速}}";
+    expect(renderCloze(text, 1, false)).toBe("$E = \\boxed{\\text{質量}}$ と 光速");
+    expect(renderCloze(text, 1, true)).toBe("$E = \\color{#2563eb}{mc^2}$ と 光速");
+    expect(renderCloze(text, 2, false)).toBe("$E = mc^2$ と {{cloze::[...]}}");
+  });
+
+  it("renders clozes whose answers contain braces", () => {
+    const text = "$y = {{c1::\\frac{a}{b}::分数}}$, {{c2::x^{2}}}";
+    expect(renderCloze(text, 1, false)).toBe("$y = \\boxed{\\text{分数}}$, x^{2}");
+    expect(renderCloze(text, 1, true)).toBe("$y = \\color{#2563eb}{\\frac{a}{b}}$, x^{2}");
+    expect(renderCloze(text, 2, true)).toBe("$y = \\frac{a}{b}$, {{cloze::x^{2}}}");
+  });
+});
+
+describe("splitClozeMarkers", () => {
+  it("splits rendered clozes at their matching closing braces", () => {
+    expect(splitClozeMarkers("a {{cloze::x^{2}}} b {{cloze::[...]}}")).toEqual([
+      "a ",
+      "{{cloze::x^{2}}}",
+      " b ",
+      "{{cloze::[...]}}",
+    ]);
+  });
+});
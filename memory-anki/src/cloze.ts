@@ -0,0 +1,94 @@
+const CLOZE_OPENING_PATTERN = /\{\{c(\d+)::/g;
+
+const CLOZE_MARKER_OPENING = "{{cloze::";
+
+const MATH_PATTERN = /\$\$[\s\S]+?\$\$|\\\[[\s\S]+?\\\]|\$[^$\n]+\$/g;
+
+export const CLOZE_MARKER_PATTERN = /^\{\{cloze::([\s\S]*)\}\}$/;
+
+type Cloze = { start: number; end: number; number: number; answer: string; hint?: string };
+
+const findOutsideBraces = (text: string, token: "::" | "}}", from = 0) => {
+  let depth = 0;
+  for (let index = from; index < text.length; index += 1) {
+    if (depth === 0 && text.startsWith(token, index)) return index;
+    if (text[index] === "{") depth += 1;
+    else if (text[index] === "}") depth = Math.max(0, depth - 1);
+  }
+  return -1;
+};
+
+const findClozes = (text: string) => {
+  const clozes: Cloze[] = [];
+  const opening = new RegExp(CLOZE_OPENING_PATTERN);
+  for (let match = opening.exec(text); match; match = opening.exec(text)) {
+    const contentStart = match.index + match[0].length;
+    const close = findOutsideBraces(text, "}}", contentStart);
+    if (close < 0) break;
+    const content = text.slice(contentStart, close);
+    const separator = findOutsideBraces(content, "::");
+    clozes.push({
+      start: match.index,
+      end: close + 2,
+      number: Number(match[1]),
+      answer: separator < 0 ? content : content.slice(0, separator),
+      hint: separator < 0 ? undefined : content.slice(separator + 2),
+    });
+    opening.lastIndex = close + 2;
+  }
+  return clozes;
+};
+
+export const clozeNumbers = (text: string) =>
+  [...new Set(findClozes(text).map((cloze) => cloze.number))]
+    .filter((number) => number > 0)
+    .sort((a, b) => a - b);
+
+export const clozeAnswer = (text: string, number: number) =>
+  findClozes(text)
+    .filter((cloze) => cloze.number === number)
+    .map((cloze) => cloze.answer.trim())
+    .filter(Boolean)
+    .join(" / ") || "[...]";
+
+export const renderCloze = (text: string, number: number, reveal: boolean) => {
+  const mathRanges = [...text.matchAll(MATH_PATTERN)].map(
+    (match) => [match.index, match.index + match[0].length] as const
+  );
+  let rendered = "";
+  let last = 0;
+  findClozes(text).forEach(({ start, end, answer, hint, ...cloze }) => {
+    rendered += text.slice(last, start);
+    last = end;
+    if (cloze.number !== number) {
+      rendered += answer;
+      return;
+    }
+    const inMath = mathRanges.some(
+      ([mathStart, mathEnd]) => mathStart < start && end <= mathEnd
+    );
+    if (inMath) {
+      rendered += reveal
+        ? `\\color{#2563eb}{${answer}}`
+        : `\\boxed{\\text{${hint?.trim() || "?"}}}`;
+      return;
+    }
+    rendered += `{{cloze::${reveal ? answer : `[${hint?.trim() || "..."}]`}}}`;
+  });
+  return rendered + text.slice(last);
+};
+
+export const splitClozeMarkers = (text: string) => {
+  const parts: string[] = [];
+  let last = 0;
+  let start = text.indexOf(CLOZE_MARKER_OPENING);
+  while (start >= 0) {
+    const close = findOutsideBraces(text, "}}", start + CLOZE_MARKER_OPENING.length);
+    if (close < 0) break;
+    parts.push(text.slice(last, start), text.slice(start, close + 2));
+    last = close + 2;
+    start = text.indexOf(CLOZE_MARKER_OPENING, last);
+  }
+  parts.push(text.slice(last));
+  return parts.filter(Boolean);
+};
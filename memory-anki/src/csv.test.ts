@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  createCsvParser,
+  detectDelimiter,
+  formatDelimited,
+  parseDelimited,
+  parseDelimitedStream,
+} from "./csv";
+
+describe("parseDelimited", () => {
+  it("handles quoted fields, escaped quotes, line breaks and CRLF", () => {
+    const text = 'question,answer\r\n"a, b","say ""hi"""\r\n"multi\nline",x\r\n\r\n';
+    expect(parseDelimited(text)).toEqual([
+      ["question", "answer"],
+      ["a, b", 'say "hi"'],
+      ["multi\nline", "x"],
+    ]);
+  });
+
+  it("keeps empty fields and a last row without a newline", () => {
+    expect(parseDelimited("a,,c\n,b,")).toEqual([
+      ["a", "", "c"],
+      ["", "b", ""],
+    ]);
+  });
+
+  it("detects tab separated files", () => {
+    expect(detectDelimiter("q\ta\tb,c\n")).toBe("\t");
+    expect(parseDelimited("q\ta\n1,2\t3")).toEqual([
+      ["q", "a"],
+      ["1,2", "3"],
+    ]);
+  });
+});
+
+describe("createCsvParser", () => {
+  it("gives the same rows when the input is split at any point", () => {
+    const text = 'a,"b ""c""\r\nd",e\r\nf,g\n';
+    const expected = parseDelimited(text, ",");
+    for (let split = 0; split <= text.length; split += 1) {
+      const parser = createCsvParser(",");
+      const rows = [
+        ...parser.push(text.slice(0, split)),
+        ...parser.push(text.slice(split)),
+        ...parser.end(),
+      ];
+      expect(rows).toEqual(expected);
+    }
+  });
+});
+
+describe("parseDelimitedStream", () => {
+  it("strips the byte order mark and parses the stream", async () => {
+    const stream = new Blob(["﻿question\tanswer\n犬\tdog\n"]).stream();
+    expect(await parseDelimitedStream(stream)).toEqual([
+      ["question", "answer"],
+      ["犬", "dog"],
+    ]);
+  });
+});
+
+describe("formatDelimited", () => {
+  it("quotes only when needed and parses back to the same rows", () => {
+    const rows = [
+      ["plain", "with,comma", 'with "quote"', "two\nlines", " padded "],
+      ["", "x", "y", "z", "w"],
+    ];
+    const text = formatDelimited(rows);
+    expect(text.split("\r\n")[0]).toBe(
+      'plain,"with,comma","with ""quote""","two\nlines"," padded "'
+    );
+    expect(parseDelimited(text)).toEqual(rows);
+  });
+});
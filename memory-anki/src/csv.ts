@@ -0,0 +1,124 @@
+export type Delimiter = "," | "\t";
+
+export type CsvParser = {
+  push: (chunk: string) => string[][];
+  end: () => string[][];
+};
+
+export const createCsvParser = (delimiter: Delimiter): CsvParser => {
+  let field = "";
+  let row: string[] = [];
+  let inQuotes = false;
+  let quotePending = false;
+  let skipLineFeed = false;
+  let fieldQuoted = false;
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+    fieldQuoted = false;
+  };
+
+  const endRow = (rows: string[][]) => {
+    endField();
+    if (!(row.length === 1 && row[0] === "")) rows.push(row);
+    row = [];
+  };
+
+  const push = (chunk: string) => {
+    const rows: string[][] = [];
+    for (let index = 0; index < chunk.length; index += 1) {
+      const char = chunk[index];
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === "\n") continue;
+      }
+
+      if (quotePending) {
+        quotePending = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') quotePending = true;
+        else field += char;
+        continue;
+      }
+
+      if (char === '"' && field === "" && !fieldQuoted) {
+        inQuotes = true;
+        fieldQuoted = true;
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === "\n" || char === "\r") {
+        endRow(rows);
+        skipLineFeed = char === "\r";
+      } else {
+        field += char;
+      }
+    }
+    return rows;
+  };
+
+  const end = () => {
+    const rows: string[][] = [];
+    if (quotePending) {
+      quotePending = false;
+      inQuotes = false;
+    }
+    if (field !== "" || row.length > 0 || inQuotes) endRow(rows);
+    inQuotes = false;
+    return rows;
+  };
+
+  return { push, end };
+};
+
+export const detectDelimiter = (sample: string): Delimiter => {
+  const firstLine = sample.split(/\r?\n/, 1)[0] ?? "";
+  const tabs = firstLine.split("\t").length - 1;
+  const commas = firstLine.split(",").length - 1;
+  return tabs > commas ? "\t" : ",";
+};
+
+export const parseDelimited = (text: string, delimiter: Delimiter = detectDelimiter(text)) => {
+  const parser = createCsvParser(delimiter);
+  return [...parser.push(text), ...parser.end()];
+};
+
+export const parseDelimitedStream = async (
+  stream: ReadableStream<Uint8Array>,
+  delimiter?: Delimiter
+) => {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  const rows: string[][] = [];
+  let parser: CsvParser | null = null;
+  let first = true;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    let chunk = value;
+    if (first) {
+      chunk = chunk.replace(/^﻿/, "");
+      first = false;
+    }
+    parser ??= createCsvParser(delimiter ?? detectDelimiter(chunk));
+    rows.push(...parser.push(chunk));
+  }
+  if (parser) rows.push(...parser.end());
+  return rows;
+};
+
+const escapeField = (value: string, delimiter: Delimiter) =>
+  /["\r\n]/.test(value) || value.includes(delimiter) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+export const formatDelimited = (rows: string[][], delimiter: Delimiter = ",") =>
+  rows.map((row) => row.map((value) => escapeField(value, delimiter)).join(delimiter)).join("\r\n") +
+  "\r\n";
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_DECK_ID,
+  buildDeckTree,
+  createDeck,
+  deckRenameConflicts,
+  ensureDeckPath,
+  migrateLegacyDecks,
+  renameDeckTree,
+} from "./decks";
+
+const deckNames = (decks: { name: string }[]) => decks.map((deck) => deck.name).sort();
+
+describe("renameDeckTree", () => {
+  it("renames a deck together with its sub-decks", () => {
+    const decks = [createDeck("A"), createDeck("A::b"), createDeck("A::b::c"), createDeck("B")];
+    const renamed = renameDeckTree(decks, decks[0].id, "X::Y");
+    expect(deckNames(renamed)).toEqual(["B", "X", "X::Y", "X::Y::b", "X::Y::b::c"]);
+    expect(renamed.find((deck) => deck.name === "X::Y")?.id).toBe(decks[0].id);
+  });
+
+  it("rejects renames where a sub-deck would collide with an existing deck", () => {
+    const decks = [createDeck("A"), createDeck("A::c"), createDeck("Z"), createDeck("Z::c")];
+    expect(deckRenameConflicts(decks, decks[0].id, "Z")).toEqual(["Z", "Z::c"]);
+    expect(renameDeckTree(decks, decks[0].id, "Z")).toBe(decks);
+  });
+
+  it("only reports collisions outside the renamed subtree", () => {
+    const decks = [createDeck("A"), createDeck("A::A")];
+    expect(deckRenameConflicts(decks, decks[0].id, "A::A")).toEqual([]);
+    const withSibling = [...decks, createDeck("X"), createDeck("X::A")];
+    expect(deckRenameConflicts(withSibling, decks[0].id, "X::B")).toEqual([]);
+    expect(deckRenameConflicts(withSibling, decks[0].id, "X")).toEqual(["X", "X::A"]);
+  });
+});
+
+describe("ensureDeckPath", () => {
+  it("creates missing parents and reuses existing decks", () => {
+    const decks = [createDeck("A")];
+    const { created, deckId } = ensureDeckPath(decks, " A :: b ::c ");
+    expect(deckNames(created)).toEqual(["A::b", "A::b::c"]);
+    expect(deckId).toBe(created[1].id);
+  });
+});
+
+describe("buildDeckTree", () => {
+  it("nests decks by name with the default deck first", () => {
+    const decks = [createDeck("B::x"), createDeck("B"), createDeck("General", {}, DEFAULT_DECK_ID)];
+    const tree = buildDeckTree(decks);
+    expect(tree.map((node) => node.label)).toEqual(["General", "B"]);
+    expect(tree[1].children.map((node) => [node.label, node.depth])).toEqual([["x", 1]]);
+  });
+});
+
+describe("migrateLegacyDecks", () => {
+  it("turns deck names and card deck names into deck records", () => {
+    const { cards, decks } = migrateLegacyDecks({
+      decks: ["General", "英語::単語"],
+      cards: [{ id: "1", type: "basic", question: "Q", answer: "A", deck: "英語::単語" }],
+      deckSettings: { "英語::単語": { newCardsPerDay: 5 } },
+    });
+    const deck = decks.find((item) => item.name === "英語::単語");
+    expect(deckNames(decks)).toEqual(["General", "英語", "英語::単語"]);
+    expect(deck?.options.newCardsPerDay).toBe(5);
+    expect(cards[0].deckId).toBe(deck?.id);
+    expect(cards[0]).not.toHaveProperty("deck");
+  });
+});
@@ -0,0 +1,221 @@
+import { migrateCard, normalizeDeckSettings } from "./scheduler";
+import type { Card, Deck, DeckDailyProgress, DeckSettings } from "./types";
+
+export const DEFAULT_DECK_ID = "default";
+export const DEFAULT_DECK_NAME = "General";
+
+export type LegacyCollection = {
+  cards?: unknown;
+  decks?: unknown;
+  deckSettings?: unknown;
+  dailyProgress?: unknown;
+};
+
+export type DeckCollection = {
+  cards: Card[];
+  decks: Deck[];
+  dailyProgress: Record<string, DeckDailyProgress>;
+};
+
+export const createDeck = (
+  name: string,
+  options?: Partial<DeckSettings>,
+  id: string = crypto.randomUUID()
+): Deck => {
+  const now = new Date().toISOString();
+  return {
+    id,
+    name,
+    description: "",
+    createdAt: now,
+    updatedAt: now,
+    options: normalizeDeckSettings(options),
+  };
+};
+
+const asRecord = (value: unknown) =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+
+const normalizeDeck = (
+  value: unknown,
+  legacySettings: Record<string, unknown>
+): Deck | null => {
+  if (typeof value === "string") {
+    const name = value.trim();
+    if (!name) return null;
+    return createDeck(
+      name,
+      legacySettings[name] as Partial<DeckSettings> | undefined,
+      name === DEFAULT_DECK_NAME ? DEFAULT_DECK_ID : undefined
+    );
+  }
+  const record = asRecord(value);
+  if (typeof record.id !== "string" || typeof record.name !== "string") return null;
+  const createdAt =
+    typeof record.createdAt === "string" ? record.createdAt : new Date().toISOString();
+  return {
+    id: record.id,
+    name: record.name,
+    description: typeof record.description === "string" ? record.description : "",
+    createdAt,
+    updatedAt: typeof record.updatedAt === "string" ? record.updatedAt : createdAt,
+    options: normalizeDeckSettings(record.options as Partial<DeckSettings> | undefined),
+  };
+};
+
+export const migrateLegacyDecks = (raw: LegacyCollection): DeckCollection => {
+  const legacySettings = asRecord(raw.deckSettings);
+  const decks: Deck[] = [];
+  (Array.isArray(raw.decks) ? raw.decks : []).forEach((value) => {
+    const deck = normalizeDeck(value, legacySettings);
+    if (deck && !decks.some((item) => item.id === deck.id)) decks.push(deck);
+  });
+  if (!decks.some((deck) => deck.id === DEFAULT_DECK_ID)) {
+    decks.unshift(createDeck(DEFAULT_DECK_NAME, undefined, DEFAULT_DECK_ID));
+  }
+
+  const deckIdFor = (name: string) => {
+    const { created, deckId } = ensureDeckPath(decks, name);
+    decks.push(...created);
+    return deckId;
+  };
+
+  const cards = (Array.isArray(raw.cards) ? raw.cards : []).map((value) => {
+    const { deck: legacyDeck, ...card } = value as Card & { deck?: string };
+    const deckId =
+      typeof card.deckId === "string"
+        ? card.deckId
+        : typeof legacyDeck === "string" && legacyDeck.trim()
+          ? deckIdFor(legacyDeck.trim())
+          : DEFAULT_DECK_ID;
+    return migrateCard({ ...card, deckId });
+  });
+
+  const dailyProgress: Record<string, DeckDailyProgress> = {};
+  Object.entries(asRecord(raw.dailyProgress)).forEach(([key, progress]) => {
+    const deck = decks.find((item) => item.id === key) ?? decks.find((item) => item.name === key);
+    const entry = asRecord(progress);
+    if (
+      deck &&
+      typeof entry.date === "string" &&
+      typeof entry.newCount === "number" &&
+      typeof entry.reviewCount === "number"
+    ) {
+      dailyProgress[deck.id] = entry as DeckDailyProgress;
+    }
+  });
+
+  return { cards, decks: ensureParentDecks(decks), dailyProgress };
+};
+
+export const DECK_SEPARATOR = "::";
+
+export type DeckTreeNode = {
+  deck: Deck;
+  label: string;
+  depth: number;
+  children: DeckTreeNode[];
+};
+
+export const normalizeDeckName = (name: string) =>
+  name
+    .split(DECK_SEPARATOR)
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .join(DECK_SEPARATOR);
+
+const parentDeckName = (name: string) => {
+  const segments = name.split(DECK_SEPARATOR);
+  return segments.length > 1 ? segments.slice(0, -1).join(DECK_SEPARATOR) : null;
+};
+
+const isSameOrDescendant = (name: string, ancestor: string) =>
+  name === ancestor || name.startsWith(`${ancestor}${DECK_SEPARATOR}`);
+
+export const descendantDeckIds = (decks: Deck[], deckId: string) => {
+  const root = decks.find((deck) => deck.id === deckId);
+  if (!root) return new Set([deckId]);
+  return new Set(
+    decks.filter((deck) => isSameOrDescendant(deck.name, root.name)).map((deck) => deck.id)
+  );
+};
+
+export const ensureDeckPath = (decks: Deck[], rawName: string) => {
+  const name = normalizeDeckName(rawName);
+  const created: Deck[] = [];
+  const segments = name.split(DECK_SEPARATOR);
+  let deckId = DEFAULT_DECK_ID;
+  segments.forEach((_, index) => {
+    const path = segments.slice(0, index + 1).join(DECK_SEPARATOR);
+    const existing = [...decks, ...created].find((deck) => deck.name === path);
+    if (existing) {
+      deckId = existing.id;
+      return;
+    }
+    const deck = createDeck(path);
+    created.push(deck);
+    deckId = deck.id;
+  });
+  return { created, deckId };
+};
+
+export const ensureParentDecks = (decks: Deck[]) => {
+  const result = [...decks];
+  decks.forEach((deck) => {
+    const parent = parentDeckName(deck.name);
+    if (parent) result.push(...ensureDeckPath(result, parent).created);
+  });
+  return result;
+};
+
+export const deckRenameConflicts = (decks: Deck[], deckId: string, rawName: string) => {
+  const target = decks.find((deck) => deck.id === deckId);
+  const name = normalizeDeckName(rawName);
+  if (!target || !name) return [];
+  const subtree = decks.filter((deck) => isSameOrDescendant(deck.name, target.name));
+  const others = new Set(
+    decks.filter((deck) => !subtree.includes(deck)).map((deck) => deck.name)
+  );
+  return subtree
+    .map((deck) => `${name}${deck.name.slice(target.name.length)}`)
+    .filter((renamed) => others.has(renamed));
+};
+
+export const renameDeckTree = (decks: Deck[], deckId: string, rawName: string) => {
+  const target = decks.find((deck) => deck.id === deckId);
+  const name = normalizeDeckName(rawName);
+  if (!target || !name || deckRenameConflicts(decks, deckId, name).length > 0) return decks;
+  const updatedAt = new Date().toISOString();
+  const renamed = decks.map((deck) =>
+    isSameOrDescendant(deck.name, target.name)
+      ? { ...deck, name: `${name}${deck.name.slice(target.name.length)}`, updatedAt }
+      : deck
+  );
+  return ensureParentDecks(renamed);
+};
+
+export const buildDeckTree = (decks: Deck[]): DeckTreeNode[] => {
+  const sorted = [...decks].sort((a, b) => {
+    if (a.id === DEFAULT_DECK_ID) return -1;
+    if (b.id === DEFAULT_DECK_ID) return 1;
+    return a.name.localeCompare(b.name, "ja");
+  });
+  const nodes = new Map<string, DeckTreeNode>();
+  const roots: DeckTreeNode[] = [];
+  sorted.forEach((deck) => {
+    const parentName = parentDeckName(deck.name) ?? "";
+    const parent = nodes.get(parentName);
+    const node: DeckTreeNode = {
+      deck,
+      label: parent ? deck.name.slice(parentName.length + DECK_SEPARATOR.length) : deck.name,
+      depth: parent ? parent.depth + 1 : 0,
+      children: [],
+    };
+    nodes.set(deck.name, node);
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  });
+  return roots;
+};
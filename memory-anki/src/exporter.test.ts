@@ -0,0 +1,93 @@
+import { unzipSync } from "fflate";
+import initSqlJs from "sql.js";
+import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_DECK_ID, createDeck } from "./decks";
+import { collectionToApkg } from "./exporter";
+import type { Card, ReviewLog } from "./types";
+
+vi.mock("sql.js/dist/sql-wasm.wasm?url", () => ({
+  default: new URL("../node_modules/sql.js/dist/sql-wasm.wasm", import.meta.url).pathname,
+}));
+
+const card = (id: string): Card => ({
+  id,
+  deckId: DEFAULT_DECK_ID,
+  type: "basic",
+  question: `Q${id}`,
+  answer: `A${id}`,
+  state: "review",
+  learningStep: 0,
+  nextReviewAt: "2026-03-12T00:00:00.000Z",
+  intervalDays: 3,
+  easeFactor: 2.5,
+  lapses: 0,
+  createdAt: "2026-03-01T00:00:00.000Z",
+  updatedAt: "2026-03-01T00:00:00.000Z",
+  reviewCount: 3,
+});
+
+const log = (
+  cardId: string,
+  reviewedAt: string,
+  overrides: Partial<ReviewLog> = {}
+): ReviewLog => ({
+  id: `${cardId}-${reviewedAt}`,
+  cardId,
+  grade: "good",
+  reviewedAt,
+  previousIntervalDays: 1,
+  nextIntervalDays: 1,
+  durationMs: 4000,
+  source: "review",
+  ...overrides,
+});
+
+const exportedRevlog = async (cards: Card[], reviewLogs: ReviewLog[]) => {
+  const apkg = await collectionToApkg({
+    cards,
+    decks: [createDeck("General", {}, DEFAULT_DECK_ID)],
+    reviewLogs,
+    dailyProgress: {},
+    noteTypes: [],
+    tombstones: [],
+  });
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(unzipSync(apkg)["collection.anki2"]);
+  const [result] = db.exec("SELECT type, ease FROM revlog ORDER BY id");
+  db.close();
+  return result?.values ?? [];
+};
+
+describe("collectionToApkg revlog", () => {
+  it("uses the card state stored on each log and skips test answers", async () => {
+    const rows = await exportedRevlog(
+      [card("a")],
+      [
+        log("a", "2026-03-01T10:00:00.000Z", { previousState: "new" }),
+        log("a", "2026-03-01T10:10:00.000Z", { previousState: "learning" }),
+        log("a", "2026-03-02T10:00:00.000Z", { previousState: "review", grade: "again" }),
+        log("a", "2026-03-02T10:05:00.000Z", { source: "test" }),
+        log("a", "2026-03-02T10:10:00.000Z", { previousState: "relearning" }),
+      ]
+    );
+    expect(rows).toEqual([
+      [0, 3],
+      [0, 3],
+      [1, 1],
+      [2, 3],
+    ]);
+  });
+
+  it("infers the log type from earlier answers for logs without a state", async () => {
+    const rows = await exportedRevlog(
+      [card("b")],
+      [
+        log("b", "2026-03-01T10:00:00.000Z"),
+        log("b", "2026-03-02T10:00:00.000Z"),
+        log("b", "2026-03-05T10:00:00.000Z", { grade: "again" }),
+        log("b", "2026-03-05T10:10:00.000Z"),
+      ]
+    );
+    expect(rows.map(([type]) => type)).toEqual([0, 1, 1, 2]);
+  });
+});
@@ -0,0 +1,529 @@
+import { zipSync, strToU8 } from "fflate";
+import { formatDelimited } from "./csv";
+import { startOfToday } from "./dates";
+import { DEFAULT_DECK_ID } from "./decks";
+import { IMPORT_FIELDS, type ImportField } from "./importer";
+import { readMediaFiles, referencedMedia } from "./media";
+import { allNoteTypes } from "./notes";
+import { serializeCollection, type StorageCollection } from "./storage";
+import { bytesToBase64 } from "./syncCrypto";
+import type { Card, CardState, Deck, NoteType, ReviewGrade, ReviewLog } from "./types";
+
+export type ExportFormat = "csv" | "json" | "apkg";
+
+export const exportFileExtensions: Record<ExportFormat, string> = {
+  csv: "csv",
+  json: "json",
+  apkg: "apkg",
+};
+
+export const selectExportCollection = (
+  collection: StorageCollection,
+  deckIds: Set<string> | null
+): StorageCollection => {
+  if (!deckIds) return collection;
+  const cards = collection.cards.filter((card) => deckIds.has(card.deckId));
+  const cardIds = new Set(cards.map((card) => card.id));
+  return {
+    cards,
+    decks: collection.decks.filter((deck) => deckIds.has(deck.id)),
+    reviewLogs: collection.reviewLogs.filter((log) => cardIds.has(log.cardId)),
+    dailyProgress: Object.fromEntries(
+      Object.entries(collection.dailyProgress).filter(([deckId]) => deckIds.has(deckId))
+    ),
+    tombstones: [],
+    noteTypes: collection.noteTypes.filter((noteType) =>
+      cards.some((card) => card.type === "note" && card.noteTypeId === noteType.id)
+    ),
+  };
+};
+
+export const cardsToCsv = (cards: Card[], decks: Deck[]) => {
+  const deckNames = new Map(decks.map((deck) => [deck.id, deck.name]));
+  const columns: Record<ImportField, (card: Card) => string> = {
+    deck: (card) => deckNames.get(card.deckId) ?? "",
+    type: (card) => (card.type === "note" ? card.noteTypeId : card.type),
+    question: (card) => (card.type === "note" ? card.fields[0] ?? "" : card.question),
+    answer: (card) =>
+      card.type === "note" ? card.fields[1] ?? "" : card.type === "cloze" ? "" : card.answer,
+    choices: (card) =>
+      card.type === "choice"
+        ? card.choices.join("|")
+        : card.type === "typed"
+          ? card.alternatives.join("|")
+          : "",
+    explanation: (card) => card.explanation ?? "",
+    tags: (card) => card.tags?.join(" ") ?? "",
+    id: (card) => card.id,
+  };
+  const seenNotes = new Set<string>();
+  const rows = cards.filter((card) => {
+    if (card.type !== "cloze" && card.type !== "note") return true;
+    if (seenNotes.has(card.noteId)) return false;
+    seenNotes.add(card.noteId);
+    return true;
+  });
+  return formatDelimited([
+    IMPORT_FIELDS,
+    ...rows.map((card) => IMPORT_FIELDS.map((field) => columns[field](card))),
+  ]);
+};
+
+export const collectionToJson = async (collection: StorageCollection) => {
+  const media = await readMediaFiles(referencedMedia(collection.cards, collection.noteTypes));
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      ...serializeCollection(collection),
+      ...(media.length > 0
+        ? { media: Object.fromEntries(media.map((file) => [file.name, bytesToBase64(file.data)])) }
+        : {}),
+    },
+    null,
+    2
+  );
+};
+
+const ANKI_SCHEMA = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+  conf text not null, models text not null, decks text not null, dconf text not null,
+  tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null,
+  csum integer not null, flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null,
+  due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+  type integer not null
+);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const ANKI_MODEL_ID = 1700000000001;
+const ANKI_CLOZE_MODEL_ID = 1700000000002;
+const ANKI_TYPED_MODEL_ID = 1700000000003;
+const ANKI_NOTE_MODEL_ID = 1700000000100;
+const ANKI_DEFAULT_DECK_ID = 1;
+const ANKI_FIELDS = ["Front", "Back", "Choices", "Explanation"];
+const ANKI_CLOZE_FIELDS = ["Text", "Back Extra"];
+const ANKI_TYPED_FIELDS = ["Front", "Back", "Alternatives", "Explanation"];
+
+const ankiNoteType = (
+  id: number,
+  name: string,
+  type: number,
+  fields: string[],
+  templates: { name: string; qfmt: string; afmt: string }[],
+  now: number
+) => ({
+  id,
+  name,
+  type,
+  mod: now,
+  usn: -1,
+  sortf: 0,
+  did: ANKI_DEFAULT_DECK_ID,
+  tags: [],
+  vers: [],
+  flds: fields.map((field, ord) => ({
+    name: field,
+    ord,
+    sticky: false,
+    rtl: false,
+    font: "Arial",
+    size: 20,
+    media: [],
+  })),
+  tmpls: templates.map((template, ord) => ({
+    ...template,
+    ord,
+    did: null,
+    bqfmt: "",
+    bafmt: "",
+  })),
+  css: `.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }${
+    type === 1 ? " .cloze { font-weight: bold; color: blue; }" : ""
+  }`,
+  latexPre:
+    "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+  latexPost: "\\end{document}",
+  req: [[0, "any", [0]]],
+});
+
+const ankiModels = (now: number, noteTypes: NoteType[]) => ({
+  [ANKI_MODEL_ID]: ankiNoteType(
+    ANKI_MODEL_ID,
+    "Memory Anki",
+    0,
+    ANKI_FIELDS,
+    [
+      {
+        name: "Card 1",
+        qfmt: "{{Front}}{{#Choices}}<hr>{{Choices}}{{/Choices}}",
+        afmt: "{{FrontSide}}<hr id=answer>{{Back}}{{#Explanation}}<br><br>{{Explanation}}{{/Explanation}}",
+      },
+    ],
+    now
+  ),
+  [ANKI_CLOZE_MODEL_ID]: ankiNoteType(
+    ANKI_CLOZE_MODEL_ID,
+    "Memory Anki Cloze",
+    1,
+    ANKI_CLOZE_FIELDS,
+    [
+      {
+        name: "Cloze",
+        qfmt: "{{cloze:Text}}",
+        afmt: "{{cloze:Text}}{{#Back Extra}}<br><br>{{Back Extra}}{{/Back Extra}}",
+      },
+    ],
+    now
+  ),
+  [ANKI_TYPED_MODEL_ID]: ankiNoteType(
+    ANKI_TYPED_MODEL_ID,
+    "Memory Anki Typed",
+    0,
+    ANKI_TYPED_FIELDS,
+    [
+      {
+        name: "Card 1",
+        qfmt: "{{Front}}<br><br>{{type:Back}}",
+        afmt: "{{Front}}<hr id=answer>{{type:Back}}{{#Alternatives}}<br>{{Alternatives}}{{/Alternatives}}{{#Explanation}}<br><br>{{Explanation}}{{/Explanation}}",
+      },
+    ],
+    now
+  ),
+  ...Object.fromEntries(
+    noteTypes.map((noteType, index) => [
+      ANKI_NOTE_MODEL_ID + index,
+      ankiNoteType(
+        ANKI_NOTE_MODEL_ID + index,
+        noteType.name,
+        0,
+        [...noteType.fields, "Explanation"],
+        noteType.templates.map((template) => ({
+          name: template.name,
+          qfmt: textToAnkiHtml(template.front),
+          afmt: `{{FrontSide}}<hr id=answer>${textToAnkiHtml(
+            template.back
+          )}{{#Explanation}}<br><br>{{Explanation}}{{/Explanation}}`,
+        })),
+        now
+      ),
+    ])
+  ),
+});
+
+const ankiDeck = (id: number, name: string, now: number) => ({
+  id,
+  name,
+  desc: "",
+  mod: now,
+  usn: -1,
+  collapsed: false,
+  browserCollapsed: false,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0],
+  dyn: 0,
+  conf: 1,
+  extendNew: 10,
+  extendRev: 50,
+});
+
+const ANKI_DECK_CONFIG = {
+  1: {
+    id: 1,
+    name: "Default",
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: {
+      bury: true,
+      delays: [1, 10],
+      initialFactor: 2500,
+      ints: [1, 4, 7],
+      order: 1,
+      perDay: 20,
+      separate: true,
+    },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 200 },
+  },
+};
+
+const ANKI_CONF = {
+  activeDecks: [ANKI_DEFAULT_DECK_ID],
+  curDeck: ANKI_DEFAULT_DECK_ID,
+  newSpread: 0,
+  collapseTime: 1200,
+  timeLim: 0,
+  estTimes: true,
+  dueCounts: true,
+  curModel: ANKI_MODEL_ID,
+  nextPos: 1,
+  sortType: "noteFld",
+  sortBackwards: false,
+  addToCur: true,
+};
+
+const hashId = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return 1_000_000_000 + (hash % 1_000_000_000);
+};
+
+const textToAnkiHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\$\$([\s\S]+?)\$\$/g, (_, math: string) => `\\[${math}\\]`)
+    .replace(/\$([^$\n]+)\$/g, (_, math: string) => `\\(${math}\\)`)
+    .replace(/\[image:([0-9a-f]{64}\.[a-z0-9]+)\]/g, (_, name: string) => `<img src="${name}">`)
+    .replace(/\r?\n/g, "<br>");
+
+const fieldChecksum = async (text: string) => {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(text));
+  return new DataView(digest).getUint32(0);
+};
+
+const ankiCardTypes: Record<CardState, number> = {
+  new: 0,
+  learning: 1,
+  review: 2,
+  relearning: 3,
+};
+
+const ankiEase: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4,
+};
+
+const ankiRevlogTypes: Record<CardState, number> = {
+  new: 0,
+  learning: 0,
+  review: 1,
+  relearning: 2,
+};
+
+const revlogTypes = (logs: ReviewLog[]) => {
+  const history = new Map<string, { reachedReview: boolean; lastGrade: ReviewGrade }>();
+  return logs.map((log) => {
+    const previous = history.get(log.cardId);
+    const state: CardState =
+      log.previousState ??
+      (!previous
+        ? "new"
+        : previous.lastGrade !== "again"
+          ? "review"
+          : previous.reachedReview
+            ? "relearning"
+            : "learning");
+    history.set(log.cardId, {
+      reachedReview: (previous?.reachedReview ?? false) || state === "review",
+      lastGrade: log.grade,
+    });
+    return ankiRevlogTypes[state];
+  });
+};
+
+const ankiInterval = (days: number) => {
+  if (days <= 0) return 0;
+  return days >= 1 ? Math.round(days) : -Math.max(60, Math.round(days * 86400));
+};
+
+export const collectionToApkg = async (collection: StorageCollection) => {
+  const { loadSqlJs } = await import("./anki");
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  try {
+    db.run(ANKI_SCHEMA);
+    const now = Date.now();
+    const noteTypes = allNoteTypes(collection.noteTypes);
+    const nowSeconds = Math.floor(now / 1000);
+    const createdAt = Math.floor(startOfToday().getTime() / 1000);
+
+    const deckIds = new Map<string, number>(
+      collection.decks.map((deck) => [
+        deck.id,
+        deck.id === DEFAULT_DECK_ID ? ANKI_DEFAULT_DECK_ID : hashId(deck.id),
+      ])
+    );
+    const ankiDecks: Record<number, ReturnType<typeof ankiDeck>> = {
+      [ANKI_DEFAULT_DECK_ID]: ankiDeck(ANKI_DEFAULT_DECK_ID, "Default", nowSeconds),
+    };
+    collection.decks.forEach((deck) => {
+      const id = deckIds.get(deck.id) ?? ANKI_DEFAULT_DECK_ID;
+      ankiDecks[id] = ankiDeck(id, deck.name, nowSeconds);
+    });
+
+    db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')", [
+      createdAt,
+      now,
+      now,
+      JSON.stringify(ANKI_CONF),
+      JSON.stringify(ankiModels(nowSeconds, noteTypes)),
+      JSON.stringify(ankiDecks),
+      JSON.stringify(ANKI_DECK_CONFIG),
+    ]);
+
+    const ankiCardIds = new Map<string, number>();
+    const sharedNoteIds = new Map<string, number>();
+    for (const [index, card] of collection.cards.entries()) {
+      let noteId = now + index;
+      const noteTypeIndex =
+        card.type === "note" ? noteTypes.findIndex((item) => item.id === card.noteTypeId) : -1;
+      const sharedNoteId =
+        card.type === "cloze" || (card.type === "note" && noteTypeIndex >= 0)
+          ? card.noteId
+          : undefined;
+      const ord =
+        card.type === "cloze"
+          ? card.clozeNumber - 1
+          : card.type === "note" && noteTypeIndex >= 0
+            ? Math.max(
+                0,
+                noteTypes[noteTypeIndex].templates.findIndex(
+                  (template) => template.id === card.templateId
+                )
+              )
+            : 0;
+      const existingNoteId = sharedNoteId ? sharedNoteIds.get(sharedNoteId) : undefined;
+      if (existingNoteId) {
+        noteId = existingNoteId;
+      } else {
+        if (sharedNoteId) sharedNoteIds.set(sharedNoteId, noteId);
+        const fields =
+          card.type === "cloze"
+            ? [textToAnkiHtml(card.question), textToAnkiHtml(card.explanation ?? "")]
+            : card.type === "note" && noteTypeIndex >= 0
+              ? [...card.fields, card.explanation ?? ""].map(textToAnkiHtml)
+              : [
+                  textToAnkiHtml(card.question),
+                  textToAnkiHtml(card.answer),
+                  card.type === "choice" || card.type === "typed"
+                    ? (card.type === "choice" ? card.choices : card.alternatives)
+                        .map(textToAnkiHtml)
+                        .join("<br>")
+                    : "",
+                  textToAnkiHtml(card.explanation ?? ""),
+                ];
+        const sortField = card.type === "note" ? card.fields[0] ?? "" : card.question;
+        const tags = card.tags?.length ? ` ${card.tags.join(" ")} ` : "";
+        db.run("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')", [
+          noteId,
+          sharedNoteId ?? card.id,
+          card.type === "cloze"
+            ? ANKI_CLOZE_MODEL_ID
+            : noteTypeIndex >= 0
+              ? ANKI_NOTE_MODEL_ID + noteTypeIndex
+              : card.type === "typed"
+                ? ANKI_TYPED_MODEL_ID
+                : ANKI_MODEL_ID,
+          nowSeconds,
+          tags,
+          fields.join("\x1f"),
+          sortField,
+          await fieldChecksum(sortField),
+        ]);
+      }
+
+      const nextReviewAt = new Date(card.nextReviewAt);
+      const type = ankiCardTypes[card.state];
+      const due =
+        card.state === "new"
+          ? index + 1
+          : card.state === "review"
+            ? Math.max(0, Math.floor((nextReviewAt.getTime() / 1000 - createdAt) / 86400))
+            : Math.floor(nextReviewAt.getTime() / 1000);
+      const data =
+        card.stability !== undefined && card.difficulty !== undefined
+          ? JSON.stringify({ s: card.stability, d: card.difficulty })
+          : "";
+      const cardId = now + index;
+      ankiCardIds.set(card.id, cardId);
+      db.run(
+        "INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, ?)",
+        [
+          cardId,
+          noteId,
+          deckIds.get(card.deckId) ?? ANKI_DEFAULT_DECK_ID,
+          ord,
+          nowSeconds,
+          type,
+          type === 3 ? 1 : type,
+          due,
+          card.state === "new" ? 0 : Math.round(card.intervalDays),
+          card.state === "new" ? 0 : Math.round(card.easeFactor * 1000),
+          card.reviewCount,
+          card.lapses,
+          card.state === "learning" || card.state === "relearning" ? 1001 : 0,
+          data,
+        ]
+      );
+    }
+
+    const usedLogIds = new Set<number>();
+    const reviewLogs = collection.reviewLogs
+      .filter((log) => log.source === "review")
+      .sort((a, b) => a.reviewedAt.localeCompare(b.reviewedAt));
+    const types = revlogTypes(reviewLogs);
+    reviewLogs.forEach((log, index) => {
+      const cardId = ankiCardIds.get(log.cardId);
+      if (!cardId) return;
+      let id = new Date(log.reviewedAt).getTime();
+      while (usedLogIds.has(id)) id += 1;
+      usedLogIds.add(id);
+      db.run("INSERT INTO revlog VALUES (?, ?, -1, ?, ?, ?, 0, ?, ?)", [
+        id,
+        cardId,
+        ankiEase[log.grade],
+        ankiInterval(log.nextIntervalDays),
+        ankiInterval(log.previousIntervalDays),
+        Math.min(log.durationMs, 60000),
+        types[index],
+      ]);
+    });
+
+    const media = await readMediaFiles(referencedMedia(collection.cards, collection.noteTypes));
+    return zipSync({
+      "collection.anki2": db.export(),
+      media: strToU8(
+        JSON.stringify(Object.fromEntries(media.map((file, index) => [index, file.name])))
+      ),
+      ...Object.fromEntries(media.map((file, index) => [String(index), file.data])),
+    });
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_FSRS_WEIGHTS,
+  fsrsInterval,
+  nextFsrsState,
+  optimizeFsrsWeights,
+  retrievability,
+  type FsrsOptimizationProgress,
+  type FsrsReviewRecord,
+} from "./fsrs";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const seededRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+};
+
+const syntheticHistory = () => {
+  const random = seededRandom(42);
+  const start = new Date("2025-01-01T00:00:00.000Z").getTime();
+  const history: FsrsReviewRecord[] = [];
+  for (let card = 0; card < 60; card += 1) {
+    let time = start;
+    let stability = 0.5;
+    history.push({
+      cardId: `card-${card}`,
+      grade: "good",
+      reviewedAt: new Date(time).toISOString(),
+    });
+    [2, 4, 8, 16].forEach((days) => {
+      time += days * DAY_MS;
+      const recalled = random() < retrievability(days, stability);
+      history.push({
+        cardId: `card-${card}`,
+        grade: recalled ? "good" : "again",
+        reviewedAt: new Date(time).toISOString(),
+      });
+      stability = recalled ? stability * 2 : 0.5;
+    });
+  }
+  return history;
+};
+
+describe("nextFsrsState", () => {
+  it("raises stability after a successful review and lowers it after a lapse", () => {
+    const state = nextFsrsState(DEFAULT_FSRS_WEIGHTS, null, 0, "good");
+    const recalled = nextFsrsState(DEFAULT_FSRS_WEIGHTS, state, 5, "good");
+    const forgotten = nextFsrsState(DEFAULT_FSRS_WEIGHTS, state, 5, "again");
+    expect(recalled.stability).toBeGreaterThan(state.stability);
+    expect(forgotten.stability).toBeLessThanOrEqual(state.stability);
+    expect(forgotten.difficulty).toBeGreaterThan(recalled.difficulty);
+  });
+});
+
+describe("fsrsInterval", () => {
+  it("schedules shorter intervals for a higher retention target", () => {
+    const settings = { weights: DEFAULT_FSRS_WEIGHTS, maximumInterval: 36500 };
+    expect(fsrsInterval(20, { ...settings, desiredRetention: 0.95 })).toBeLessThan(
+      fsrsInterval(20, { ...settings, desiredRetention: 0.8 })
+    );
+  });
+});
+
+describe("optimizeFsrsWeights", () => {
+  it("lowers the loss on a synthetic history", () => {
+    const history = syntheticHistory();
+    const initial = optimizeFsrsWeights(history, DEFAULT_FSRS_WEIGHTS, 0);
+    const progress: FsrsOptimizationProgress[] = [];
+    const result = optimizeFsrsWeights(history, DEFAULT_FSRS_WEIGHTS, 20, (item) =>
+      progress.push(item)
+    );
+    expect(result.reviewCount).toBe(240);
+    expect(result.loss).toBeLessThan(initial.loss);
+    expect(result.weights).toHaveLength(DEFAULT_FSRS_WEIGHTS.length);
+    expect(progress.length).toBeGreaterThan(0);
+    expect(progress[progress.length - 1].loss).toBe(result.loss);
+  });
+
+  it("returns the initial weights when there is nothing to learn from", () => {
+    const result = optimizeFsrsWeights([
+      { cardId: "only", grade: "good", reviewedAt: "2025-01-01T00:00:00.000Z" },
+    ]);
+    expect(result.reviewCount).toBe(0);
+    expect(result.weights).toEqual(DEFAULT_FSRS_WEIGHTS);
+  });
+});
@@ -0,0 +1,311 @@
+import type { Card, ReviewGrade } from "./types";
+
+export type FsrsSettings = {
+  desiredRetention: number;
+  weights: number[];
+  maximumInterval: number;
+};
+
+export type FsrsState = {
+  stability: number;
+  difficulty: number;
+};
+
+export type FsrsReviewRecord = {
+  cardId: string;
+  grade: ReviewGrade;
+  reviewedAt: string;
+};
+
+export type FsrsOptimizationResult = {
+  weights: number[];
+  loss: number;
+  reviewCount: number;
+};
+
+export type FsrsOptimizationProgress = {
+  iteration: number;
+  iterations: number;
+  loss: number;
+};
+
+export type FsrsWorkerRequest = {
+  history: FsrsReviewRecord[];
+  weights: number[];
+};
+
+export type FsrsWorkerMessage =
+  | { kind: "progress"; progress: FsrsOptimizationProgress }
+  | { kind: "done"; result: FsrsOptimizationResult };
+
+export const DEFAULT_FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+const WEIGHT_BOUNDS: [number, number][] = [
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [1, 10],
+  [0.1, 5],
+  [0.1, 5],
+  [0, 0.75],
+  [0, 4],
+  [0, 0.8],
+  [0.01, 3],
+  [0.1, 5],
+  [0.01, 0.2],
+  [0.01, 0.9],
+  [0.01, 4],
+  [0, 1],
+  [1, 6],
+];
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const gradeValues: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4,
+};
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+export const retrievability = (elapsedDays: number, stability: number) =>
+  Math.pow(1 + (FACTOR * elapsedDays) / stability, DECAY);
+
+const initialStability = (w: number[], grade: ReviewGrade) =>
+  Math.max(w[gradeValues[grade] - 1], 0.1);
+
+const initialDifficulty = (w: number[], grade: ReviewGrade) =>
+  clamp(w[4] - (gradeValues[grade] - 3) * w[5], 1, 10);
+
+const nextDifficulty = (w: number[], difficulty: number, grade: ReviewGrade) => {
+  const next = difficulty - w[6] * (gradeValues[grade] - 3);
+  const reverted = w[7] * initialDifficulty(w, "good") + (1 - w[7]) * next;
+  return clamp(reverted, 1, 10);
+};
+
+const nextRecallStability = (
+  w: number[],
+  state: FsrsState,
+  recall: number,
+  grade: ReviewGrade
+) => {
+  const hardPenalty = grade === "hard" ? w[15] : 1;
+  const easyBonus = grade === "easy" ? w[16] : 1;
+  return (
+    state.stability *
+    (Math.exp(w[8]) *
+      (11 - state.difficulty) *
+      Math.pow(state.stability, -w[9]) *
+      (Math.exp(w[10] * (1 - recall)) - 1) *
+      hardPenalty *
+      easyBonus +
+      1)
+  );
+};
+
+const nextForgetStability = (w: number[], state: FsrsState, recall: number) =>
+  Math.min(
+    w[11] *
+      Math.pow(state.difficulty, -w[12]) *
+      (Math.pow(state.stability + 1, w[13]) - 1) *
+      Math.exp(w[14] * (1 - recall)),
+    state.stability
+  );
+
+export const nextFsrsState = (
+  w: number[],
+  state: FsrsState | null,
+  elapsedDays: number,
+  grade: ReviewGrade
+): FsrsState => {
+  if (!state) {
+    return {
+      stability: initialStability(w, grade),
+      difficulty: initialDifficulty(w, grade),
+    };
+  }
+  const recall = retrievability(Math.max(elapsedDays, 0), state.stability);
+  const stability =
+    grade === "again"
+      ? nextForgetStability(w, state, recall)
+      : nextRecallStability(w, state, recall, grade);
+  return {
+    stability: Math.max(stability, 0.1),
+    difficulty: nextDifficulty(w, state.difficulty, grade),
+  };
+};
+
+export const fsrsInterval = (stability: number, settings: FsrsSettings) => {
+  const interval =
+    (stability / FACTOR) * (Math.pow(settings.desiredRetention, 1 / DECAY) - 1);
+  return clamp(Math.round(interval), 1, settings.maximumInterval);
+};
+
+const elapsedDaysSince = (card: Card, now: Date) =>
+  card.lastReviewedAt
+    ? Math.max((now.getTime() - new Date(card.lastReviewedAt).getTime()) / DAY_MS, 0)
+    : 0;
+
+export const fsrsStateFromCard = (card: Card): FsrsState | null => {
+  if (typeof card.stability === "number" && typeof card.difficulty === "number") {
+    return { stability: card.stability, difficulty: card.difficulty };
+  }
+  if (card.reviewCount === 0) return null;
+  return {
+    stability: Math.max(card.intervalDays, 0.1),
+    difficulty: clamp(11 - ((card.easeFactor - 1.3) / 1.7) * 9, 1, 10),
+  };
+};
+
+export const previewFsrs = (
+  card: Card,
+  grade: ReviewGrade,
+  settings: FsrsSettings,
+  now = new Date()
+) => {
+  const state = nextFsrsState(
+    settings.weights,
+    fsrsStateFromCard(card),
+    elapsedDaysSince(card, now),
+    grade
+  );
+  return {
+    ...state,
+    intervalDays: grade === "again" ? 1 : fsrsInterval(state.stability, settings),
+  };
+};
+
+type TrainingSequence = { elapsedDays: number; grade: ReviewGrade }[];
+
+const buildSequences = (history: FsrsReviewRecord[]) => {
+  const byCard = new Map<string, FsrsReviewRecord[]>();
+  history.forEach((record) => {
+    const list = byCard.get(record.cardId) ?? [];
+    list.push(record);
+    byCard.set(record.cardId, list);
+  });
+
+  const sequences: TrainingSequence[] = [];
+  byCard.forEach((records) => {
+    const sorted = [...records].sort(
+      (a, b) => new Date(a.reviewedAt).getTime() - new Date(b.reviewedAt).getTime()
+    );
+    const sequence: TrainingSequence = [];
+    let previous: number | null = null;
+    sorted.forEach((record) => {
+      const time = new Date(record.reviewedAt).getTime();
+      if (Number.isNaN(time)) return;
+      const elapsedDays = previous === null ? 0 : (time - previous) / DAY_MS;
+      if (previous !== null && elapsedDays < 1) return;
+      sequence.push({ elapsedDays, grade: record.grade });
+      previous = time;
+    });
+    if (sequence.length > 1) sequences.push(sequence);
+  });
+  return sequences;
+};
+
+const sequenceLoss = (w: number[], sequences: TrainingSequence[]) => {
+  let total = 0;
+  let count = 0;
+  sequences.forEach((sequence) => {
+    let state: FsrsState | null = null;
+    sequence.forEach((step) => {
+      if (state) {
+        const recall = clamp(retrievability(step.elapsedDays, state.stability), 1e-4, 1 - 1e-4);
+        const recalled = step.grade !== "again";
+        total -= recalled ? Math.log(recall) : Math.log(1 - recall);
+        count += 1;
+      }
+      state = nextFsrsState(w, state, step.elapsedDays, step.grade);
+    });
+  });
+  return count === 0 ? 0 : total / count;
+};
+
+export const optimizeFsrsWeights = (
+  history: FsrsReviewRecord[],
+  initialWeights: number[] = DEFAULT_FSRS_WEIGHTS,
+  iterations = 60,
+  onProgress?: (progress: FsrsOptimizationProgress) => void
+): FsrsOptimizationResult => {
+  const sequences = buildSequences(history);
+  const reviewCount = sequences.reduce((sum, sequence) => sum + sequence.length - 1, 0);
+  let weights = [...initialWeights];
+  let loss = sequenceLoss(weights, sequences);
+  if (reviewCount === 0) {
+    return { weights, loss, reviewCount };
+  }
+
+  let learningRate = 0.05;
+  for (let iteration = 0; iteration < iterations; iteration += 1) {
+    const gradient = weights.map((value, index) => {
+      const step = Math.max(Math.abs(value) * 1e-3, 1e-4);
+      const probe = [...weights];
+      probe[index] = value + step;
+      return (sequenceLoss(probe, sequences) - loss) / step;
+    });
+    const candidate = weights.map((value, index) => {
+      const [min, max] = WEIGHT_BOUNDS[index];
+      const scale = Math.max(Math.abs(value), 0.1);
+      return clamp(value - learningRate * scale * Math.sign(gradient[index]), min, max);
+    });
+    const candidateLoss = sequenceLoss(candidate, sequences);
+    if (candidateLoss < loss) {
+      weights = candidate;
+      loss = candidateLoss;
+    } else {
+      learningRate /= 2;
+      if (learningRate < 1e-4) break;
+    }
+    onProgress?.({ iteration: iteration + 1, iterations, loss });
+  }
+
+  return {
+    weights: weights.map((value) => Math.round(value * 10000) / 10000),
+    loss,
+    reviewCount,
+  };
+};
+
+export const startFsrsOptimization = (
+  history: FsrsReviewRecord[],
+  weights: number[],
+  onProgress: (progress: FsrsOptimizationProgress) => void
+) => {
+  const worker = new Worker(new URL("./fsrsWorker.ts", import.meta.url), { type: "module" });
+  let cancel = () => {};
+  const result = new Promise<FsrsOptimizationResult | null>((resolve, reject) => {
+    worker.addEventListener("message", (event: MessageEvent<FsrsWorkerMessage>) => {
+      if (event.data.kind === "progress") {
+        onProgress(event.data.progress);
+        return;
+      }
+      worker.terminate();
+      resolve(event.data.result);
+    });
+    worker.addEventListener("error", (event) => {
+      worker.terminate();
+      reject(new Error(event.message));
+    });
+    cancel = () => {
+      worker.terminate();
+      resolve(null);
+    };
+  });
+  const request: FsrsWorkerRequest = {
+    history: history.map(({ cardId, grade, reviewedAt }) => ({ cardId, grade, reviewedAt })),
+    weights,
+  };
+  worker.postMessage(request);
+  return { result, cancel: () => cancel() };
+};
@@ -0,0 +1,11 @@
+import { optimizeFsrsWeights, type FsrsWorkerMessage, type FsrsWorkerRequest } from "./fsrs";
+
+const post = (message: FsrsWorkerMessage) => self.postMessage(message);
+
+self.addEventListener("message", (event: MessageEvent<FsrsWorkerRequest>) => {
+  const { history, weights } = event.data;
+  const result = optimizeFsrsWeights(history, weights, undefined, (progress) =>
+    post({ kind: "progress", progress })
+  );
+  post({ kind: "done", result });
+});
@@ -0,0 +1,27 @@
+export const requestToPromise = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("transaction aborted"));
+  });
+
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (database: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => void
+) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) =>
+      upgrade(request.result, event.oldVersion, request.transaction as IDBTransaction);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error("別のタブがデータベースを使用中です。他のタブを閉じてください。"));
+  });
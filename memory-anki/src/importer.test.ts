@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import { parseDelimited } from "./csv";
+import { DEFAULT_DECK_ID, createDeck } from "./decks";
+import {
+  applyImportPlan,
+  buildImportPreview,
+  createCardsFromDrafts,
+  guessMapping,
+  mappingErrors,
+  planImport,
+  summarizeImportPlan,
+  updateNoteTypeCards,
+  type ImportMatchKey,
+} from "./importer";
+import { NOTE_TYPES, allNoteTypes } from "./notes";
+import type { Card, Deck, NoteType } from "./types";
+
+const NOW = new Date("2026-03-10T09:00:00.000Z");
+
+const decks: Deck[] = [createDeck("General", {}, DEFAULT_DECK_ID)];
+
+const importText = (
+  text: string,
+  cards: Card[] = [],
+  matchKey: ImportMatchKey = "question"
+) => {
+  const rows = parseDelimited(text);
+  const preview = buildImportPreview(rows, guessMapping(rows[0], true), true, NOTE_TYPES);
+  const plan = planImport(preview, cards, decks, matchKey);
+  return {
+    preview,
+    plan,
+    ...applyImportPlan(plan, NOTE_TYPES, cards, decks, DEFAULT_DECK_ID, NOW),
+  };
+};
+
+describe("guessMapping", () => {
+  it("maps English and Japanese headers and ignores repeated columns", () => {
+    expect(guessMapping(["問題", "Back", "メモ", "answer", "タグ"], true)).toEqual([
+      "question",
+      "answer",
+      null,
+      null,
+      "tags",
+    ]);
+  });
+
+  it("uses the default column order without a header", () => {
+    expect(guessMapping(["a", "b"], false).slice(0, 3)).toEqual(["deck", "type", "question"]);
+  });
+
+  it("requires a question column and an id column for id matching", () => {
+    expect(mappingErrors(["answer"], "id")).toHaveLength(2);
+    expect(mappingErrors(["question", "question"], "question")).toHaveLength(1);
+  });
+});
+
+describe("buildImportPreview", () => {
+  it("reports row errors with their line numbers", () => {
+    const { preview } = importText(
+      "question,answer,type,choices\nQ1,,basic,\nQ2,A,choice,A\nQ3,A,unknown,\nQ4,A,choice,A|B"
+    );
+    expect(preview.map((row) => [row.rowNumber, row.errors])).toEqual([
+      [2, ["回答がありません。"]],
+      [3, ["選択肢が不足しています。"]],
+      [4, ["種類「unknown」は未対応です。"]],
+      [5, []],
+    ]);
+  });
+});
+
+describe("import plan", () => {
+  it("adds cards into new sub-decks with tags", () => {
+    const { cards, createdDecks, plan } = importText(
+      "deck,question,answer,tags\n英語::単語,dog,犬,animal noun"
+    );
+    expect(summarizeImportPlan(plan).add).toBe(1);
+    expect(createdDecks.map((deck) => deck.name)).toEqual(["英語", "英語::単語"]);
+    expect(cards[0]).toMatchObject({
+      deckId: createdDecks[1].id,
+      question: "dog",
+      answer: "犬",
+      tags: ["animal", "noun"],
+      state: "new",
+    });
+  });
+
+  it("updates matching cards in place and keeps their schedule", () => {
+    const first = importText("question,answer\ndog,犬\ncat,猫");
+    const reviewed = first.cards.map((card) => ({ ...card, reviewCount: 4, intervalDays: 9 }));
+    const second = importText('question,answer\n" dog ",いぬ\ncat,猫\nbird,鳥', reviewed);
+    expect(second.plan.map((row) => row.action)).toEqual(["update", "unchanged", "add"]);
+    const dog = second.cards.find((card) => card.id === reviewed[0].id);
+    expect(dog).toMatchObject({ answer: "いぬ", reviewCount: 4, intervalDays: 9 });
+    expect(second.cards).toHaveLength(3);
+  });
+
+  it("marks duplicate keys and type changes as conflicts", () => {
+    const existing = importText("question,answer\ndog,犬").cards;
+    const { plan } = importText(
+      "question,answer,type,choices\ncat,猫,,\ncat,ねこ,,\ndog,犬,choice,犬|猫",
+      existing
+    );
+    expect(plan.map((row) => row.action)).toEqual(["conflict", "conflict", "conflict"]);
+  });
+
+  it("matches by id when asked to", () => {
+    const existing = importText("question,answer,id\ndog,犬,card-1").cards;
+    expect(existing[0].id).toBe("card-1");
+    const { cards, plan } = importText("question,answer,id\nhound,犬,card-1", existing, "id");
+    expect(plan[0].action).toBe("update");
+    expect(cards[0].question).toBe("hound");
+  });
+
+  it("turns cloze text into one card per number and removes dropped numbers on update", () => {
+    const first = importText("question,answer\n{{c1::A}} and {{c2::B}},");
+    expect(first.cards.map((card) => card.type === "cloze" && card.clozeNumber)).toEqual([1, 2]);
+    const second = importText(
+      "question,answer,type\n{{c1::A}} and {{c2::B}},,cloze",
+      first.cards
+    );
+    expect(second.plan[0].action).toBe("unchanged");
+  });
+
+  it("creates typed cards with alternatives from the choices column", () => {
+    const { cards } = importText("question,answer,type,choices\ncolor,colour,typed,color|Farbe");
+    expect(cards[0]).toMatchObject({ type: "typed", alternatives: ["color", "Farbe"] });
+  });
+});
+
+describe("updateNoteTypeCards", () => {
+  const noteType: NoteType = {
+    id: "type-1",
+    name: "熟語",
+    fields: ["熟語", "読み"],
+    templates: [
+      { id: "t1", name: "読み", front: "{{熟語}}", back: "{{読み}}" },
+      { id: "t2", name: "書き", front: "{{読み}}", back: "{{熟語}}" },
+    ],
+    createdAt: NOW.toISOString(),
+    updatedAt: NOW.toISOString(),
+  };
+  const { cards } = createCardsFromDrafts(
+    [
+      {
+        deck: "",
+        type: "note",
+        question: "漢字",
+        answer: "かんじ",
+        choices: [],
+        tags: [],
+        noteTypeId: noteType.id,
+        fields: ["漢字", "かんじ"],
+      },
+    ],
+    allNoteTypes([noteType]),
+    decks,
+    DEFAULT_DECK_ID,
+    NOW
+  );
+
+  it("re-renders the cards of edited note types and removes dropped templates", () => {
+    const next: NoteType = {
+      ...noteType,
+      fields: ["熟語", "よみ"],
+      templates: [{ id: "t1", name: "読み", front: "{{熟語}}", back: "{{よみ}}（{{熟語}}）" }],
+    };
+    const result = updateNoteTypeCards(cards, allNoteTypes([next]), noteType, next, NOW);
+    expect(result.removedIds).toEqual([cards[1].id]);
+    expect(result.emptyNotes).toBe(0);
+    expect(result.cards).toHaveLength(1);
+    expect(result.cards[0]).toMatchObject({
+      id: cards[0].id,
+      question: "漢字",
+      answer: "かんじ（漢字）",
+      fields: ["漢字", "かんじ"],
+    });
+  });
+
+  it("counts notes that no template can show any more", () => {
+    const next: NoteType = {
+      ...noteType,
+      fields: ["熟語", "読み", "例文"],
+      templates: [{ id: "t3", name: "例文", front: "{{例文}}", back: "{{熟語}}" }],
+    };
+    const result = updateNoteTypeCards(cards, allNoteTypes([next]), noteType, next, NOW);
+    expect(result.emptyNotes).toBe(1);
+  });
+});
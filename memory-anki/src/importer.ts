@@ -0,0 +1,578 @@
+import { DEFAULT_SM2_SETTINGS } from "./scheduler";
+import { clozeAnswer, clozeNumbers } from "./cloze";
+import { startOfToday } from "./dates";
+import { ensureDeckPath, normalizeDeckName } from "./decks";
+import { findNoteType, noteCards, remapNoteFields } from "./notes";
+import type { Card, ClozeCard, Deck, NoteCard, NoteType } from "./types";
+
+export type ImportField =
+  | "deck"
+  | "type"
+  | "question"
+  | "answer"
+  | "choices"
+  | "explanation"
+  | "tags"
+  | "id";
+
+export type ColumnMapping = (ImportField | null)[];
+
+export type ImportDraft = {
+  deck: string;
+  type: Card["type"];
+  question: string;
+  answer: string;
+  choices: string[];
+  explanation?: string;
+  tags: string[];
+  id?: string;
+  noteId?: string;
+  clozeNumber?: number;
+  noteTypeId?: string;
+  templateId?: string;
+  fields?: string[];
+};
+
+export type ImportPreviewRow = {
+  rowNumber: number;
+  values: string[];
+  draft: ImportDraft | null;
+  errors: string[];
+};
+
+export type ImportMatchKey = "question" | "id";
+
+export type ImportAction = "add" | "update" | "unchanged" | "conflict";
+
+export type ImportPlanRow = ImportPreviewRow & {
+  action: ImportAction | null;
+  targetId?: string;
+  conflict?: string;
+};
+
+export type ImportSummary = Record<ImportAction | "invalid", number>;
+
+export const IMPORT_FIELDS: ImportField[] = [
+  "deck",
+  "type",
+  "question",
+  "answer",
+  "choices",
+  "explanation",
+  "tags",
+  "id",
+];
+
+export const importFieldLabels: Record<ImportField, string> = {
+  deck: "デッキ",
+  type: "種類",
+  question: "問題",
+  answer: "回答",
+  choices: "選択肢",
+  explanation: "解説",
+  tags: "タグ",
+  id: "ID",
+};
+
+const headerAliases: Record<ImportField, string[]> = {
+  deck: ["deck", "デッキ"],
+  type: ["type", "種類", "タイプ"],
+  question: ["question", "front", "問題", "表"],
+  answer: ["answer", "back", "回答", "解答", "正解", "裏"],
+  choices: ["choices", "options", "選択肢"],
+  explanation: ["explanation", "note", "notes", "解説", "補足"],
+  tags: ["tags", "tag", "タグ"],
+  id: ["id", "guid"],
+};
+
+export const fieldForHeader = (cell: string): ImportField | null => {
+  const key = cell.trim().toLowerCase();
+  return IMPORT_FIELDS.find((field) => headerAliases[field].includes(key)) ?? null;
+};
+
+export const looksLikeHeader = (row: string[] | undefined) => {
+  if (!row) return false;
+  const fields = row.map(fieldForHeader);
+  return fields.includes("question") && fields.includes("answer");
+};
+
+export const guessMapping = (row: string[] | undefined, hasHeader: boolean): ColumnMapping => {
+  const width = row?.length ?? 0;
+  if (hasHeader && row) {
+    const used = new Set<ImportField>();
+    return row.map((cell) => {
+      const field = fieldForHeader(cell);
+      if (!field || used.has(field)) return null;
+      used.add(field);
+      return field;
+    });
+  }
+  return Array.from(
+    { length: Math.max(width, IMPORT_FIELDS.length) },
+    (_, index) => IMPORT_FIELDS[index] ?? null
+  );
+};
+
+export const mappingErrors = (mapping: ColumnMapping, matchKey: ImportMatchKey) => {
+  const errors: string[] = [];
+  if (matchKey === "id" && !mapping.includes("id")) {
+    errors.push("IDで照合するには「ID」の列を割り当ててください。");
+  }
+  if (!mapping.includes("question")) errors.push("「問題」の列を割り当ててください。");
+  IMPORT_FIELDS.forEach((field) => {
+    if (mapping.filter((value) => value === field).length > 1) {
+      errors.push(`「${importFieldLabels[field]}」が複数の列に割り当てられています。`);
+    }
+  });
+  return errors;
+};
+
+const splitList = (value: string, separator: string | RegExp) =>
+  value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export const buildImportPreview = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  hasHeader: boolean,
+  noteTypes: NoteType[],
+  defaultNoteTypeId?: string
+): ImportPreviewRow[] =>
+  rows.slice(hasHeader ? 1 : 0).map((values, index) => {
+    const rowNumber = index + (hasHeader ? 2 : 1);
+    const read = (field: ImportField) => {
+      const column = mapping.indexOf(field);
+      return column >= 0 ? (values[column] ?? "").trim() : "";
+    };
+    const errors: string[] = [];
+    const question = read("question");
+    const answer = read("answer");
+    const typeRaw = read("type").toLowerCase();
+    const choices = splitList(read("choices"), "|");
+
+    const isCloze =
+      typeRaw === "cloze" || (!typeRaw && !answer && clozeNumbers(question).length > 0);
+    const noteType = isCloze
+      ? undefined
+      : findNoteType(typeRaw || (defaultNoteTypeId ?? ""), noteTypes);
+    if (
+      typeRaw &&
+      typeRaw !== "basic" &&
+      typeRaw !== "choice" &&
+      typeRaw !== "typed" &&
+      typeRaw !== "cloze" &&
+      !noteType
+    ) {
+      errors.push(`種類「${typeRaw}」は未対応です。`);
+    }
+    const type: Card["type"] =
+      typeRaw === "choice" || typeRaw === "typed"
+        ? typeRaw
+        : isCloze
+          ? "cloze"
+          : noteType
+            ? "note"
+            : "basic";
+    const fields = (noteType?.fields ?? []).map((_, index) => [question, answer][index] ?? "");
+    if (!question) errors.push("問題がありません。");
+    if (noteType) {
+      if (question && answer && noteCards(noteType, fields).length === 0) {
+        errors.push(`「${noteType.name}」のカードを作れません。`);
+      }
+    }
+    if (type === "cloze") {
+      if (question && clozeNumbers(question).length === 0) {
+        errors.push("穴埋め（{{c1::答え}}）がありません。");
+      }
+    } else if (!answer) {
+      errors.push("回答がありません。");
+    }
+    if (type === "choice" && choices.length < 2) {
+      errors.push("選択肢が不足しています。");
+    }
+
+    const explanation = read("explanation");
+    return {
+      rowNumber,
+      values,
+      errors,
+      draft:
+        errors.length > 0
+          ? null
+          : {
+              deck: read("deck"),
+              type,
+              question,
+              answer: type === "cloze" ? "" : answer,
+              choices: type === "choice" || type === "typed" ? choices : [],
+              explanation: explanation || undefined,
+              tags: splitList(read("tags"), /[\s|]+/),
+              id: read("id") || undefined,
+              ...(noteType ? { noteTypeId: noteType.id, fields } : {}),
+            },
+    };
+  });
+
+export const createCardFromDraft = (
+  draft: ImportDraft,
+  noteTypes: NoteType[],
+  deckId: string,
+  id: string = crypto.randomUUID(),
+  now: Date = new Date()
+): Card => {
+  const base = {
+    id,
+    deckId,
+    question: draft.question,
+    answer: draft.answer,
+    explanation: draft.explanation,
+    tags: draft.tags.length > 0 ? draft.tags : undefined,
+    state: "new" as const,
+    learningStep: 0,
+    nextReviewAt: startOfToday().toISOString(),
+    intervalDays: 1,
+    easeFactor: DEFAULT_SM2_SETTINGS.startingEase,
+    lapses: 0,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    reviewCount: 0,
+  };
+  const noteType =
+    draft.type === "note" ? findNoteType(draft.noteTypeId ?? "", noteTypes) : undefined;
+  if (noteType) {
+    const fields = draft.fields ?? [];
+    const cards = noteCards(noteType, fields);
+    const card = cards.find((item) => item.templateId === draft.templateId) ?? cards[0];
+    return {
+      ...base,
+      type: "note",
+      question: card?.question ?? draft.question,
+      answer: card?.answer ?? draft.answer,
+      noteId: draft.noteId ?? crypto.randomUUID(),
+      noteTypeId: noteType.id,
+      templateId: card?.templateId ?? noteType.templates[0].id,
+      fields,
+    };
+  }
+  if (draft.type === "cloze") {
+    const clozeNumber = draft.clozeNumber ?? clozeNumbers(draft.question)[0] ?? 1;
+    return {
+      ...base,
+      type: "cloze",
+      answer: clozeAnswer(draft.question, clozeNumber),
+      noteId: draft.noteId ?? crypto.randomUUID(),
+      clozeNumber,
+    };
+  }
+  if (draft.type === "typed") return { ...base, type: "typed", alternatives: draft.choices };
+  return draft.type === "choice"
+    ? { ...base, type: "choice", choices: draft.choices }
+    : { ...base, type: "basic" };
+};
+
+type SiblingKey = number | string;
+
+const siblingKey = (card: Card): SiblingKey | null =>
+  card.type === "cloze" ? card.clozeNumber : card.type === "note" ? card.templateId : null;
+
+const draftKeys = (draft: ImportDraft, noteTypes: NoteType[]): SiblingKey[] => {
+  if (draft.type === "cloze") return clozeNumbers(draft.question);
+  const noteType =
+    draft.type === "note" ? findNoteType(draft.noteTypeId ?? "", noteTypes) : undefined;
+  return noteType ? noteCards(noteType, draft.fields ?? []).map((card) => card.templateId) : [];
+};
+
+const draftForKey = (draft: ImportDraft, noteId: string, key: SiblingKey): ImportDraft =>
+  typeof key === "number"
+    ? { ...draft, noteId, clozeNumber: key }
+    : { ...draft, noteId, templateId: key };
+
+const createNoteCards = (
+  draft: ImportDraft,
+  noteTypes: NoteType[],
+  deckId: string,
+  id: string,
+  now: Date
+): Card[] => {
+  if (
+    (draft.type !== "cloze" && draft.type !== "note") ||
+    draft.clozeNumber !== undefined ||
+    draft.templateId !== undefined
+  ) {
+    return [createCardFromDraft(draft, noteTypes, deckId, id, now)];
+  }
+  const noteId = draft.noteId ?? crypto.randomUUID();
+  return draftKeys(draft, noteTypes).map((key, index) =>
+    createCardFromDraft(
+      draftForKey(draft, noteId, key),
+      noteTypes,
+      deckId,
+      index === 0 ? id : crypto.randomUUID(),
+      now
+    )
+  );
+};
+
+export const updateNote = (
+  cards: Card[],
+  noteTypes: NoteType[],
+  noteId: string,
+  draft: ImportDraft,
+  deckId: string,
+  now: Date = new Date()
+) => {
+  const keys = draftKeys(draft, noteTypes);
+  const isSibling = (card: Card): card is ClozeCard | NoteCard =>
+    (card.type === "cloze" || card.type === "note") && card.noteId === noteId;
+  const siblings = cards.filter(isSibling);
+  const removedIds = new Set(
+    siblings
+      .filter((card) => card.type !== draft.type || !keys.includes(siblingKey(card) ?? ""))
+      .map((card) => card.id)
+  );
+  const updated = cards
+    .filter((card) => !removedIds.has(card.id))
+    .map((card): Card => {
+      if (!isSibling(card)) return card;
+      const next = createCardFromDraft(
+        draftForKey(draft, noteId, siblingKey(card) ?? ""),
+        noteTypes,
+        deckId,
+        card.id,
+        now
+      );
+      const content = {
+        deckId,
+        question: next.question,
+        answer: next.answer,
+        explanation: next.explanation,
+        tags: next.tags,
+        updatedAt: now.toISOString(),
+      };
+      return card.type === "note" && next.type === "note"
+        ? { ...card, ...content, fields: next.fields }
+        : { ...card, ...content };
+    });
+  const added = keys
+    .filter((key) => !siblings.some((card) => !removedIds.has(card.id) && siblingKey(card) === key))
+    .map((key) =>
+      createCardFromDraft(
+        draftForKey(draft, noteId, key),
+        noteTypes,
+        deckId,
+        crypto.randomUUID(),
+        now
+      )
+    );
+  return { cards: [...updated, ...added], removedIds: [...removedIds] };
+};
+
+export const updateNoteTypeCards = (
+  cards: Card[],
+  noteTypes: NoteType[],
+  previous: NoteType,
+  next: NoteType,
+  now: Date = new Date()
+) => {
+  const notes = new Map<string, NoteCard>();
+  cards.forEach((card) => {
+    if (card.type === "note" && card.noteTypeId === next.id && !notes.has(card.noteId)) {
+      notes.set(card.noteId, card);
+    }
+  });
+  let current = cards;
+  const removedIds: string[] = [];
+  let emptyNotes = 0;
+  notes.forEach((card) => {
+    const fields = remapNoteFields(previous, next, card.fields);
+    const draft: ImportDraft = {
+      deck: "",
+      type: "note",
+      question: fields[0] ?? "",
+      answer: fields[1] ?? "",
+      choices: [],
+      explanation: card.explanation,
+      tags: card.tags ?? [],
+      noteTypeId: next.id,
+      fields,
+    };
+    if (draftKeys(draft, noteTypes).length === 0) emptyNotes += 1;
+    const result = updateNote(current, noteTypes, card.noteId, draft, card.deckId, now);
+    current = result.cards;
+    removedIds.push(...result.removedIds);
+  });
+  return { cards: current, removedIds, emptyNotes };
+};
+
+const createDeckResolver = (decks: Deck[], fallbackDeckId: string) => {
+  const createdDecks: Deck[] = [];
+  const resolve = (name: string) => {
+    if (!normalizeDeckName(name)) return fallbackDeckId;
+    const { created, deckId } = ensureDeckPath([...decks, ...createdDecks], name);
+    createdDecks.push(...created);
+    return deckId;
+  };
+  return { resolve, createdDecks };
+};
+
+export const createCardsFromDrafts = (
+  drafts: ImportDraft[],
+  noteTypes: NoteType[],
+  decks: Deck[],
+  fallbackDeckId: string,
+  now: Date = new Date()
+) => {
+  const { resolve, createdDecks } = createDeckResolver(decks, fallbackDeckId);
+  const cards = drafts.flatMap((draft) =>
+    createNoteCards(draft, noteTypes, resolve(draft.deck), crypto.randomUUID(), now)
+  );
+  return { cards, createdDecks };
+};
+
+const normalizeQuestion = (value: string) => value.trim().replace(/\s+/g, " ");
+
+const matchKeyFor = (draft: ImportDraft, matchKey: ImportMatchKey) =>
+  matchKey === "id" ? draft.id ?? "" : normalizeQuestion(draft.question);
+
+const sameList = (left: string[] = [], right: string[] = []) =>
+  left.length === right.length && left.every((value, index) => value === right[index]);
+
+const isSameContent = (card: Card, draft: ImportDraft, deckName: string | undefined) =>
+  (card.type === "note"
+    ? sameList(card.fields, draft.fields)
+    : card.question === draft.question &&
+      (card.type === "cloze" || card.answer === draft.answer)) &&
+  (card.explanation ?? "") === (draft.explanation ?? "") &&
+  sameList(card.tags, draft.tags) &&
+  sameList(
+    card.type === "choice" ? card.choices : card.type === "typed" ? card.alternatives : [],
+    draft.choices
+  ) &&
+  (!normalizeDeckName(draft.deck) || normalizeDeckName(draft.deck) === deckName);
+
+export const planImport = (
+  rows: ImportPreviewRow[],
+  cards: Card[],
+  decks: Deck[],
+  matchKey: ImportMatchKey
+): ImportPlanRow[] => {
+  const deckNames = new Map(decks.map((deck) => [deck.id, deck.name]));
+  const cardsByKey = new Map<string, Card[]>();
+  const seenNotes = new Set<string>();
+  cards.forEach((card) => {
+    if (matchKey === "question" && (card.type === "cloze" || card.type === "note")) {
+      if (seenNotes.has(card.noteId)) return;
+      seenNotes.add(card.noteId);
+    }
+    const key =
+      matchKey === "id"
+        ? card.id
+        : normalizeQuestion(card.type === "note" ? card.fields[0] ?? "" : card.question);
+    cardsByKey.set(key, [...(cardsByKey.get(key) ?? []), card]);
+  });
+  const keyCounts = new Map<string, number>();
+  rows.forEach(({ draft }) => {
+    const key = draft ? matchKeyFor(draft, matchKey) : "";
+    if (key) keyCounts.set(key, (keyCounts.get(key) ?? 0) + 1);
+  });
+
+  return rows.map((row): ImportPlanRow => {
+    const { draft } = row;
+    if (!draft) return { ...row, action: null };
+    const key = matchKeyFor(draft, matchKey);
+    if (key && (keyCounts.get(key) ?? 0) > 1) {
+      return { ...row, action: "conflict", conflict: "ファイル内で同じキーの行が重複しています。" };
+    }
+    const matches = key ? cardsByKey.get(key) ?? [] : [];
+    if (matches.length === 0) return { ...row, action: "add" };
+    if (matches.length > 1) {
+      return {
+        ...row,
+        action: "conflict",
+        conflict: `既存のカード ${matches.length} 枚が一致するため更新先を決められません。`,
+      };
+    }
+    const [card] = matches;
+    if (
+      card.type !== draft.type ||
+      (card.type === "note" && card.noteTypeId !== draft.noteTypeId)
+    ) {
+      return { ...row, action: "conflict", targetId: card.id, conflict: "既存のカードと種類が異なります。" };
+    }
+    return {
+      ...row,
+      action: isSameContent(card, draft, deckNames.get(card.deckId)) ? "unchanged" : "update",
+      targetId: card.id,
+    };
+  });
+};
+
+export const summarizeImportPlan = (plan: ImportPlanRow[]): ImportSummary =>
+  plan.reduce<ImportSummary>(
+    (summary, row) => {
+      summary[row.action ?? "invalid"] += 1;
+      return summary;
+    },
+    { add: 0, update: 0, unchanged: 0, conflict: 0, invalid: 0 }
+  );
+
+export const applyImportPlan = (
+  plan: ImportPlanRow[],
+  noteTypes: NoteType[],
+  cards: Card[],
+  decks: Deck[],
+  fallbackDeckId: string,
+  now: Date = new Date()
+) => {
+  const { resolve, createdDecks } = createDeckResolver(decks, fallbackDeckId);
+  const usedIds = new Set(cards.map((card) => card.id));
+  const updates = new Map<string, ImportDraft>();
+  const added: Card[] = [];
+  plan.forEach(({ draft, action, targetId }) => {
+    if (!draft) return;
+    if (action === "update" && targetId) updates.set(targetId, draft);
+    if (action !== "add") return;
+    const id = draft.id && !usedIds.has(draft.id) ? draft.id : crypto.randomUUID();
+    usedIds.add(id);
+    added.push(...createNoteCards(draft, noteTypes, resolve(draft.deck), id, now));
+  });
+
+  let current = cards;
+  const removedIds: string[] = [];
+  cards.forEach((card) => {
+    const draft = updates.get(card.id);
+    if (!draft || (card.type !== "cloze" && card.type !== "note")) return;
+    updates.delete(card.id);
+    const result = updateNote(
+      current,
+      noteTypes,
+      card.noteId,
+      draft,
+      normalizeDeckName(draft.deck) ? resolve(draft.deck) : card.deckId,
+      now
+    );
+    current = result.cards;
+    removedIds.push(...result.removedIds);
+  });
+
+  const nextCards = current.map((card): Card => {
+    const draft = updates.get(card.id);
+    if (!draft) return card;
+    const content = {
+      deckId: normalizeDeckName(draft.deck) ? resolve(draft.deck) : card.deckId,
+      question: draft.question,
+      answer: draft.answer,
+      explanation: draft.explanation,
+      tags: draft.tags.length > 0 ? draft.tags : undefined,
+      updatedAt: now.toISOString(),
+    };
+    if (card.type === "typed") return { ...card, ...content, alternatives: draft.choices };
+    return card.type === "choice"
+      ? { ...card, ...content, choices: draft.choices }
+      : { ...card, ...content };
+  });
+
+  return { cards: [...nextCards, ...added], createdDecks, removedIds };
+};
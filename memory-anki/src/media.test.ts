@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  acquireMediaUrl,
+  createMediaFile,
+  readMedia,
+  referencedMedia,
+  saveMedia,
+} from "./media";
+import { invokeTauri } from "./tauri";
+import type { Card, NoteType } from "./types";
+
+vi.mock("./tauri", () => ({
+  isTauri: () => true,
+  invokeTauri: vi.fn(),
+}));
+
+const NAME = `${"a".repeat(64)}.png`;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.mocked(invokeTauri).mockReset();
+});
+
+describe("desktop media IPC", () => {
+  it("sends and receives raw bytes", async () => {
+    const data = new Uint8Array([1, 2, 3]);
+    await saveMedia([{ name: NAME, data }]);
+    expect(invokeTauri).toHaveBeenCalledWith("save_media", data, {
+      headers: { "x-media-name": NAME },
+    });
+
+    vi.mocked(invokeTauri).mockResolvedValueOnce(data.buffer);
+    expect(await readMedia(NAME)).toEqual(data);
+    vi.mocked(invokeTauri).mockResolvedValueOnce(new ArrayBuffer(0));
+    expect(await readMedia(NAME)).toBeNull();
+  });
+
+  it("ignores empty files", async () => {
+    expect(await createMediaFile(new Uint8Array(0), "empty.png")).toBeNull();
+  });
+});
+
+describe("acquireMediaUrl", () => {
+  it("shares one object URL and revokes it when the last user releases it", async () => {
+    vi.mocked(invokeTauri).mockResolvedValue(new Uint8Array([1]).buffer);
+    const create = vi.spyOn(URL, "createObjectURL").mockReturnValue("blob:first");
+    const revoke = vi.spyOn(URL, "revokeObjectURL").mockImplementation(() => undefined);
+
+    const first = acquireMediaUrl(NAME);
+    const second = acquireMediaUrl(NAME);
+    expect(await first.url).toBe("blob:first");
+    expect(await second.url).toBe("blob:first");
+    expect(create).toHaveBeenCalledTimes(1);
+
+    first.release();
+    first.release();
+    await Promise.resolve();
+    expect(revoke).not.toHaveBeenCalled();
+    second.release();
+    await vi.waitFor(() => expect(revoke).toHaveBeenCalledWith("blob:first"));
+
+    create.mockReturnValue("blob:second");
+    const third = acquireMediaUrl(NAME);
+    expect(await third.url).toBe("blob:second");
+    third.release();
+  });
+
+  it("reads the file again after it was missing", async () => {
+    vi.mocked(invokeTauri).mockResolvedValueOnce(new ArrayBuffer(0));
+    const missing = acquireMediaUrl(NAME);
+    expect(await missing.url).toBeNull();
+
+    vi.mocked(invokeTauri).mockResolvedValueOnce(new Uint8Array([1]).buffer);
+    vi.spyOn(URL, "createObjectURL").mockReturnValue("blob:found");
+    const found = acquireMediaUrl(NAME);
+    expect(await found.url).toBe("blob:found");
+    found.release();
+    missing.release();
+  });
+});
+
+describe("referencedMedia", () => {
+  it("includes media used only in note fields and note type templates", () => {
+    const field = `${"b".repeat(64)}.mp3`;
+    const template = `${"c".repeat(64)}.png`;
+    const card = {
+      id: "card-1",
+      type: "note",
+      question: `[image:${NAME}]`,
+      answer: "",
+      fields: ["単語", `[sound:${field}]`],
+    } as Card;
+    const noteType = {
+      id: "type-1",
+      templates: [{ id: "t1", name: "表", front: `{{単語}} [image:${template}]`, back: "" }],
+    } as NoteType;
+    expect(referencedMedia([card], [noteType])).toEqual(new Set([NAME, field, template]));
+  });
+});
@@ -0,0 +1,258 @@
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+import {
+  bytesToHex,
+  decryptBytes,
+  encryptBytes,
+  mediaRemoteId,
+  type SyncKeyRecord,
+} from "./syncCrypto";
+import type { MediaStore } from "./syncProviders";
+import { invokeTauri, isTauri } from "./tauri";
+import type { Card, NoteType } from "./types";
+
+export type MediaKind = "image" | "audio";
+
+export type MediaFile = {
+  name: string;
+  data: Uint8Array<ArrayBuffer>;
+};
+
+export type MediaSyncSummary = {
+  uploaded: number;
+  downloaded: number;
+  missing: number;
+};
+
+export const MAX_MEDIA_BYTES = 20 * 1024 * 1024;
+
+const MEDIA_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  aac: "audio/aac",
+  ogg: "audio/ogg",
+  oga: "audio/ogg",
+  opus: "audio/ogg",
+  wav: "audio/wav",
+  webm: "audio/webm",
+  flac: "audio/flac",
+};
+
+export const MEDIA_ACCEPT = Object.keys(MEDIA_TYPES)
+  .map((extension) => `.${extension}`)
+  .join(",");
+
+const MEDIA_NAME_PATTERN = /^[0-9a-f]{64}\.[a-z0-9]+$/;
+
+export const MEDIA_TOKEN_PATTERN = /\[(image|sound):([0-9a-f]{64}\.[a-z0-9]+)\]/g;
+
+const extensionOf = (name: string) =>
+  name.includes(".") ? (name.split(".").pop() ?? "").toLowerCase() : "";
+
+export const mediaType = (name: string) =>
+  MEDIA_TYPES[extensionOf(name)] ?? "application/octet-stream";
+
+export const mediaKind = (name: string): MediaKind | null => {
+  const type = MEDIA_TYPES[extensionOf(name)];
+  if (!type) return null;
+  return type.startsWith("image/") ? "image" : "audio";
+};
+
+export const isMediaName = (name: string) => MEDIA_NAME_PATTERN.test(name);
+
+export const mediaToken = (name: string) =>
+  `[${mediaKind(name) === "image" ? "image" : "sound"}:${name}]`;
+
+export const parseMediaToken = (text: string) => {
+  const match = /^\[(image|sound):([0-9a-f]{64}\.[a-z0-9]+)\]$/.exec(text);
+  if (!match) return null;
+  return { kind: match[1] === "image" ? "image" : "audio", name: match[2] } as const;
+};
+
+export const textMediaNames = (text: string) =>
+  [...text.matchAll(MEDIA_TOKEN_PATTERN)].map((match) => match[2]);
+
+export const referencedMedia = (cards: Card[], noteTypes: NoteType[] = []) =>
+  new Set([
+    ...cards.flatMap((card) =>
+      [
+        card.question,
+        card.answer,
+        card.explanation ?? "",
+        ...(card.type === "choice" ? card.choices : []),
+        ...(card.type === "note" ? card.fields : []),
+      ].flatMap(textMediaNames)
+    ),
+    ...noteTypes
+      .flatMap((noteType) => noteType.templates)
+      .flatMap((template) => [template.front, template.back])
+      .flatMap(textMediaNames),
+  ]);
+
+const hashBytes = async (data: Uint8Array<ArrayBuffer>) =>
+  bytesToHex(new Uint8Array(await crypto.subtle.digest("SHA-256", data)));
+
+export const createMediaFile = async (
+  data: Uint8Array<ArrayBuffer>,
+  fileName: string
+): Promise<MediaFile | null> => {
+  const extension = extensionOf(fileName);
+  if (!MEDIA_TYPES[extension] || data.length === 0) return null;
+  return {
+    name: `${await hashBytes(data)}.${extension === "jpeg" ? "jpg" : extension}`,
+    data,
+  };
+};
+
+const MEDIA_DB = "memory-anki-media";
+const MEDIA_STORE = "media";
+
+type StoredMedia = {
+  name: string;
+  blob: Blob;
+};
+
+let mediaDb: Promise<IDBDatabase> | null = null;
+
+const getMediaDb = () => {
+  mediaDb ??= openDatabase(MEDIA_DB, 1, (database) => {
+    database.createObjectStore(MEDIA_STORE, { keyPath: "name" });
+  });
+  mediaDb.catch(() => {
+    mediaDb = null;
+  });
+  return mediaDb;
+};
+
+export const listMedia = async () => {
+  if (isTauri()) return invokeTauri<string[]>("list_media");
+  const database = await getMediaDb();
+  const transaction = database.transaction(MEDIA_STORE, "readonly");
+  const keys = await requestToPromise(transaction.objectStore(MEDIA_STORE).getAllKeys());
+  return keys.map(String);
+};
+
+export const readMedia = async (name: string): Promise<Uint8Array<ArrayBuffer> | null> => {
+  if (isTauri()) {
+    const data = await invokeTauri<ArrayBuffer>("read_media", { name });
+    return data.byteLength > 0 ? new Uint8Array(data) : null;
+  }
+  const database = await getMediaDb();
+  const transaction = database.transaction(MEDIA_STORE, "readonly");
+  const stored = await requestToPromise<StoredMedia | undefined>(
+    transaction.objectStore(MEDIA_STORE).get(name)
+  );
+  return stored ? new Uint8Array(await stored.blob.arrayBuffer()) : null;
+};
+
+export const saveMedia = async (files: MediaFile[]) => {
+  if (files.length === 0) return;
+  if (isTauri()) {
+    for (const file of files) {
+      await invokeTauri("save_media", file.data, { headers: { "x-media-name": file.name } });
+    }
+    return;
+  }
+  const database = await getMediaDb();
+  const transaction = database.transaction(MEDIA_STORE, "readwrite");
+  const store = transaction.objectStore(MEDIA_STORE);
+  files.forEach((file) =>
+    store.put({ name: file.name, blob: new Blob([file.data], { type: mediaType(file.name) }) })
+  );
+  await transactionDone(transaction);
+};
+
+export const readMediaFiles = async (names: Iterable<string>) => {
+  const files: MediaFile[] = [];
+  for (const name of names) {
+    const data = await readMedia(name);
+    if (data) files.push({ name, data });
+  }
+  return files;
+};
+
+type MediaUrlEntry = {
+  url: Promise<string | null>;
+  users: number;
+};
+
+const mediaUrls = new Map<string, MediaUrlEntry>();
+
+const forgetMediaUrl = (name: string, entry: MediaUrlEntry) => {
+  if (mediaUrls.get(name) === entry) mediaUrls.delete(name);
+};
+
+const createMediaUrl = (name: string) => {
+  const entry: MediaUrlEntry = {
+    url: readMedia(name).then((data) =>
+      data ? URL.createObjectURL(new Blob([data], { type: mediaType(name) })) : null
+    ),
+    users: 0,
+  };
+  entry.url
+    .then((value) => {
+      if (!value) forgetMediaUrl(name, entry);
+    })
+    .catch(() => forgetMediaUrl(name, entry));
+  mediaUrls.set(name, entry);
+  return entry;
+};
+
+export const acquireMediaUrl = (name: string) => {
+  const entry = mediaUrls.get(name) ?? createMediaUrl(name);
+  entry.users += 1;
+  let isReleased = false;
+  const release = () => {
+    if (isReleased) return;
+    isReleased = true;
+    entry.users -= 1;
+    if (entry.users > 0) return;
+    forgetMediaUrl(name, entry);
+    entry.url
+      .then((value) => {
+        if (value) URL.revokeObjectURL(value);
+      })
+      .catch(() => undefined);
+  };
+  return { url: entry.url, release };
+};
+
+export const syncMediaFiles = async (
+  store: MediaStore,
+  names: Set<string>,
+  record: SyncKeyRecord,
+  nextRecord?: SyncKeyRecord
+): Promise<MediaSyncSummary> => {
+  const summary: MediaSyncSummary = { uploaded: 0, downloaded: 0, missing: 0 };
+  if (names.size === 0) return summary;
+  const remote = new Set(await store.list());
+  const local = new Set(await listMedia());
+  const uploadRecord = nextRecord ?? record;
+  for (const name of names) {
+    if (!local.has(name)) {
+      const id = await mediaRemoteId(name, record.key);
+      if (!remote.has(id)) {
+        summary.missing += 1;
+        continue;
+      }
+      const data = await decryptBytes(await store.load(id), record.key);
+      if ((await createMediaFile(data, name))?.name !== name) {
+        throw new Error(`同期先のメディア ${name} の内容が一致しません。`);
+      }
+      await saveMedia([{ name, data }]);
+      summary.downloaded += 1;
+    }
+    const uploadId = await mediaRemoteId(name, uploadRecord.key);
+    if (remote.has(uploadId)) continue;
+    const data = await readMedia(name);
+    if (!data) continue;
+    await store.save(uploadId, await encryptBytes(data, uploadRecord));
+    summary.uploaded += 1;
+  }
+  return summary;
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { NOTE_TYPES, allNoteTypes, findNoteType, noteTypeErrors, remapNoteFields } from "./notes";
+import type { NoteType } from "./types";
+
+const T1 = "2026-03-01T00:00:00.000Z";
+
+const makeNoteType = (overrides: Partial<NoteType> = {}): NoteType => ({
+  id: "type-1",
+  name: "熟語",
+  fields: ["熟語", "読み", "意味"],
+  templates: [{ id: "t1", name: "読み", front: "{{熟語}}", back: "{{読み}}" }],
+  createdAt: T1,
+  updatedAt: T1,
+  ...overrides,
+});
+
+describe("findNoteType", () => {
+  it("finds user note types by id or name", () => {
+    const noteTypes = allNoteTypes([makeNoteType()]);
+    expect(findNoteType("type-1", noteTypes)?.name).toBe("熟語");
+    expect(findNoteType(" 熟語 ", noteTypes)?.id).toBe("type-1");
+    expect(findNoteType("reverse", noteTypes)).toBe(NOTE_TYPES[0]);
+    expect(findNoteType("type-1", NOTE_TYPES)).toBeUndefined();
+  });
+});
+
+describe("noteTypeErrors", () => {
+  it("accepts a complete note type", () => {
+    expect(noteTypeErrors(makeNoteType(), allNoteTypes([makeNoteType()]))).toEqual([]);
+  });
+
+  it("rejects names used by other note types or card types", () => {
+    const existing = allNoteTypes([makeNoteType()]);
+    expect(noteTypeErrors(makeNoteType({ id: "type-2" }), existing)).toHaveLength(1);
+    expect(noteTypeErrors(makeNoteType({ name: "reverse" }), existing)).toHaveLength(1);
+    expect(noteTypeErrors(makeNoteType({ name: "Cloze" }), existing)).toHaveLength(1);
+    expect(noteTypeErrors(makeNoteType({ name: " " }), existing)).toHaveLength(1);
+  });
+
+  it("checks fields and templates", () => {
+    const errors = noteTypeErrors(
+      makeNoteType({
+        fields: ["熟語", "熟語", "a:b"],
+        templates: [
+          { id: "t1", name: "読み", front: "{{読み}}", back: " " },
+          { id: "t2", name: "読み", front: "{{熟語}}", back: "{{熟語}}" },
+          { id: "t3", name: "", front: "{{熟語}}", back: "{{熟語}}" },
+        ],
+      }),
+      NOTE_TYPES
+    );
+    expect(errors).toEqual([
+      "フィールド名「熟語」が重複しています。",
+      "フィールド名「a:b」は使えません。",
+      "「読み」の表面にフィールド（{{フィールド名}}）がありません。",
+      "「読み」の裏面を入力してください。",
+      "カードの種類「読み」が重複しています。",
+      "3 番目のカードの種類に名前を入力してください。",
+    ]);
+    expect(noteTypeErrors(makeNoteType({ fields: [], templates: [] }), NOTE_TYPES)).toEqual([
+      "フィールドを1つ以上入力してください。",
+      "カードの種類を1つ以上追加してください。",
+    ]);
+  });
+});
+
+describe("remapNoteFields", () => {
+  it("moves values by field name and keeps renamed fields in place", () => {
+    const previous = makeNoteType();
+    const next = makeNoteType({ fields: ["意味", "熟語", "よみ", "例文"] });
+    expect(remapNoteFields(previous, next, ["漢字", "かんじ", "文字"])).toEqual([
+      "文字",
+      "漢字",
+      "",
+      "",
+    ]);
+    const renamed = makeNoteType({ fields: ["熟語", "よみ", "意味"] });
+    expect(remapNoteFields(previous, renamed, ["漢字", "かんじ", "文字"])).toEqual([
+      "漢字",
+      "かんじ",
+      "文字",
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import type { NoteType } from "./types";
+
+const BUILT_IN_DATE = "2026-01-01T00:00:00.000Z";
+
+export const NOTE_TYPES: NoteType[] = [
+  {
+    id: "reverse",
+    name: "基本（裏表両方）",
+    fields: ["表", "裏"],
+    templates: [
+      { id: "forward", name: "表→裏", front: "{{表}}", back: "{{裏}}" },
+      { id: "reverse", name: "裏→表", front: "{{裏}}", back: "{{表}}" },
+    ],
+    createdAt: BUILT_IN_DATE,
+    updatedAt: BUILT_IN_DATE,
+  },
+  {
+    id: "vocabulary",
+    name: "単語（両方向）",
+    fields: ["単語", "意味"],
+    templates: [
+      { id: "recognize", name: "単語→意味", front: "{{単語}}", back: "{{意味}}" },
+      { id: "recall", name: "意味→単語", front: "「{{意味}}」を表す単語は？", back: "{{単語}}" },
+    ],
+    createdAt: BUILT_IN_DATE,
+    updatedAt: BUILT_IN_DATE,
+  },
+];
+
+const RESERVED_NAMES = ["basic", "choice", "typed", "cloze", "note"];
+
+export const allNoteTypes = (custom: NoteType[]) => [...NOTE_TYPES, ...custom];
+
+export const isBuiltInNoteType = (id: string) =>
+  NOTE_TYPES.some((noteType) => noteType.id === id);
+
+export const findNoteType = (value: string, noteTypes: NoteType[]) => {
+  const key = value.trim().toLowerCase();
+  return noteTypes.find(
+    (noteType) => noteType.id.toLowerCase() === key || noteType.name.toLowerCase() === key
+  );
+};
+
+const FIELD_PATTERN = /\{\{([^{}]+)\}\}/g;
+
+const templateFieldIndexes = (template: string, noteType: NoteType) =>
+  [...template.matchAll(FIELD_PATTERN)]
+    .map((match) => noteType.fields.indexOf(match[1].trim()))
+    .filter((index) => index >= 0);
+
+export const renderNoteTemplate = (template: string, noteType: NoteType, fields: string[]) =>
+  template
+    .replace(FIELD_PATTERN, (match, name: string) => {
+      const index = noteType.fields.indexOf(name.trim());
+      return index >= 0 ? (fields[index] ?? "").trim() : match;
+    })
+    .trim();
+
+export const noteCards = (noteType: NoteType, fields: string[]) =>
+  noteType.templates
+    .filter((template) =>
+      templateFieldIndexes(template.front, noteType).some((index) => fields[index]?.trim())
+    )
+    .map((template) => ({
+      templateId: template.id,
+      question: renderNoteTemplate(template.front, noteType, fields),
+      answer: renderNoteTemplate(template.back, noteType, fields),
+    }))
+    .filter((card) => card.answer);
+
+export const noteTemplateName = (
+  noteTypeId: string,
+  templateId: string,
+  noteTypes: NoteType[]
+) => {
+  const noteType = noteTypes.find((item) => item.id === noteTypeId);
+  const template = noteType?.templates.find((item) => item.id === templateId);
+  return noteType ? `${noteType.name} ${template?.name ?? ""}`.trim() : "ノート";
+};
+
+export const noteTypeErrors = (noteType: NoteType, noteTypes: NoteType[]) => {
+  const errors: string[] = [];
+  const name = noteType.name.trim();
+  const key = name.toLowerCase();
+  if (!name) {
+    errors.push("ノートタイプ名を入力してください。");
+  } else if (
+    RESERVED_NAMES.includes(key) ||
+    noteTypes.some(
+      (other) =>
+        other.id !== noteType.id &&
+        (other.name.toLowerCase() === key || other.id.toLowerCase() === key)
+    )
+  ) {
+    errors.push(`「${name}」は既に使われている名前です。`);
+  }
+  if (noteType.fields.length === 0) errors.push("フィールドを1つ以上入力してください。");
+  noteType.fields.forEach((field, index) => {
+    if (!field.trim() || /[{}:]/.test(field)) {
+      errors.push(`フィールド名「${field}」は使えません。`);
+    } else if (noteType.fields.indexOf(field) !== index) {
+      errors.push(`フィールド名「${field}」が重複しています。`);
+    }
+  });
+  if (noteType.templates.length === 0) errors.push("カードの種類を1つ以上追加してください。");
+  noteType.templates.forEach((template, index) => {
+    const label = template.name.trim();
+    if (!label) {
+      errors.push(`${index + 1} 番目のカードの種類に名前を入力してください。`);
+      return;
+    }
+    if (noteType.templates.findIndex((item) => item.name.trim() === label) !== index) {
+      errors.push(`カードの種類「${label}」が重複しています。`);
+    }
+    if (templateFieldIndexes(template.front, noteType).length === 0) {
+      errors.push(`「${label}」の表面にフィールド（{{フィールド名}}）がありません。`);
+    }
+    if (!template.back.trim()) errors.push(`「${label}」の裏面を入力してください。`);
+  });
+  return errors;
+};
+
+export const remapNoteFields = (previous: NoteType, next: NoteType, fields: string[]) =>
+  next.fields.map((name, index) => {
+    const sameName = previous.fields.indexOf(name);
+    if (sameName >= 0) return fields[sameName] ?? "";
+    const renamed = previous.fields[index];
+    return renamed !== undefined && !next.fields.includes(renamed) ? fields[index] ?? "" : "";
+  });
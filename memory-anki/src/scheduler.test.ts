@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_DECK_SETTINGS,
+  buildReviewQueue,
+  formatSteps,
+  migrateCard,
+  normalizeDeckSettings,
+  parseSteps,
+  recordDailyProgress,
+  scheduleCard,
+} from "./scheduler";
+import type { Card } from "./types";
+
+const NOW = new Date("2026-03-10T09:00:00.000Z");
+
+const makeCard = (overrides: Partial<Card> = {}): Card =>
+  ({
+    id: "card-1",
+    deckId: "deck-1",
+    type: "basic",
+    question: "Q",
+    answer: "A",
+    state: "new",
+    learningStep: 0,
+    nextReviewAt: NOW.toISOString(),
+    intervalDays: 1,
+    easeFactor: 2.5,
+    lapses: 0,
+    createdAt: NOW.toISOString(),
+    updatedAt: NOW.toISOString(),
+    reviewCount: 0,
+    ...overrides,
+  }) as Card;
+
+const minutesAfterNow = (iso: string) => (new Date(iso).getTime() - NOW.getTime()) / 60000;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("scheduleCard", () => {
+  it("walks a new card through the learning steps before graduating", () => {
+    const first = scheduleCard(makeCard(), "good", DEFAULT_DECK_SETTINGS, NOW);
+    expect(first.state).toBe("learning");
+    expect(first.learningStep).toBe(1);
+    expect(minutesAfterNow(first.nextReviewAt)).toBe(10);
+
+    const second = scheduleCard(
+      makeCard({ state: "learning", learningStep: 1 }),
+      "good",
+      DEFAULT_DECK_SETTINGS,
+      NOW
+    );
+    expect(second.state).toBe("review");
+    expect(second.intervalDays).toBe(1);
+  });
+
+  it("restarts learning on again and uses the midpoint delay for hard on the first step", () => {
+    const again = scheduleCard(
+      makeCard({ state: "learning", learningStep: 1 }),
+      "again",
+      DEFAULT_DECK_SETTINGS,
+      NOW
+    );
+    expect(again.learningStep).toBe(0);
+    expect(minutesAfterNow(again.nextReviewAt)).toBe(1);
+
+    const hard = scheduleCard(makeCard(), "hard", DEFAULT_DECK_SETTINGS, NOW);
+    expect(hard.learningStep).toBe(0);
+    expect(minutesAfterNow(hard.nextReviewAt)).toBe(5.5);
+  });
+
+  it("graduates immediately with the easy interval", () => {
+    const result = scheduleCard(makeCard(), "easy", DEFAULT_DECK_SETTINGS, NOW);
+    expect(result.state).toBe("review");
+    expect(result.intervalDays).toBe(4);
+  });
+
+  it("counts review days from the given time instead of the clock", () => {
+    const later = new Date("2026-03-20T09:00:00.000Z");
+    const result = scheduleCard(makeCard(), "easy", DEFAULT_DECK_SETTINGS, later);
+    expect(result.nextReviewAt).toBe(
+      new Date(later.getFullYear(), later.getMonth(), later.getDate() + 4).toISOString()
+    );
+  });
+
+  it("grows review intervals with the ease factor and adjusts ease by grade", () => {
+    const card = makeCard({ state: "review", intervalDays: 10, easeFactor: 2.5 });
+    const hard = scheduleCard(card, "hard", DEFAULT_DECK_SETTINGS, NOW);
+    const good = scheduleCard(card, "good", DEFAULT_DECK_SETTINGS, NOW);
+    const easy = scheduleCard(card, "easy", DEFAULT_DECK_SETTINGS, NOW);
+    expect(hard.intervalDays).toBe(12);
+    expect(hard.easeFactor).toBe(2.35);
+    expect(good.intervalDays).toBe(25);
+    expect(good.easeFactor).toBe(2.5);
+    expect(easy.intervalDays).toBe(33);
+    expect(easy.easeFactor).toBe(2.65);
+  });
+
+  it("sends a lapsed review card to relearning and counts the lapse", () => {
+    const result = scheduleCard(
+      makeCard({ state: "review", intervalDays: 10, easeFactor: 1.4 }),
+      "again",
+      DEFAULT_DECK_SETTINGS,
+      NOW
+    );
+    expect(result.state).toBe("relearning");
+    expect(result.lapses).toBe(1);
+    expect(result.intervalDays).toBe(1);
+    expect(result.easeFactor).toBe(1.3);
+    expect(minutesAfterNow(result.nextReviewAt)).toBe(10);
+  });
+
+  it("keeps lapsed cards in review when there are no relearning steps", () => {
+    const result = scheduleCard(
+      makeCard({ state: "review", intervalDays: 10 }),
+      "again",
+      { ...DEFAULT_DECK_SETTINGS, relearningSteps: [] },
+      NOW
+    );
+    expect(result.state).toBe("review");
+  });
+
+  it("stores FSRS memory state when the deck uses FSRS", () => {
+    const result = scheduleCard(
+      makeCard({
+        state: "review",
+        intervalDays: 10,
+        stability: 10,
+        difficulty: 5,
+        lastReviewedAt: NOW.toISOString(),
+      }),
+      "good",
+      { ...DEFAULT_DECK_SETTINGS, scheduler: "fsrs" },
+      new Date("2026-03-20T09:00:00.000Z")
+    );
+    expect(result.stability).toBeGreaterThan(10);
+    expect(result.difficulty).toBeDefined();
+    expect(result.intervalDays).toBeGreaterThan(10);
+  });
+});
+
+describe("buildReviewQueue", () => {
+  it("orders learning before review before new and applies the daily limits", () => {
+    const cards = [
+      makeCard({ id: "new-1" }),
+      makeCard({ id: "new-2" }),
+      makeCard({ id: "review-1", state: "review" }),
+      makeCard({ id: "learning-1", state: "learning" }),
+      makeCard({ id: "later", state: "review", nextReviewAt: "2026-03-12T00:00:00.000Z" }),
+    ];
+    const queue = buildReviewQueue(
+      cards,
+      { ...DEFAULT_DECK_SETTINGS, newCardsPerDay: 2 },
+      { date: "2026-03-10", newCount: 1, reviewCount: 0 },
+      NOW
+    );
+    expect(queue.queue.map((card) => card.id)).toEqual(["learning-1", "review-1", "new-1"]);
+  });
+});
+
+describe("recordDailyProgress", () => {
+  it("starts a new count on a new day", () => {
+    const progress = recordDailyProgress(
+      { date: "2026-03-09", newCount: 5, reviewCount: 5 },
+      "review",
+      NOW
+    );
+    expect(progress).toEqual({ date: "2026-03-10", newCount: 0, reviewCount: 1 });
+  });
+});
+
+describe("steps", () => {
+  it("parses and formats step lists", () => {
+    expect(parseSteps("1m 10m 1h 1d")).toEqual([1, 10, 60, 1440]);
+    expect(parseSteps("10 x")).toBeNull();
+    expect(formatSteps([1, 10, 60, 1440])).toBe("1m 10m 1h 1d");
+  });
+});
+
+describe("normalizeDeckSettings", () => {
+  it("falls back to defaults for invalid values", () => {
+    const settings = normalizeDeckSettings({
+      desiredRetention: 2,
+      learningSteps: [-1],
+      newCardsPerDay: 1.5,
+      typedIgnoreKana: true,
+    });
+    expect(settings.desiredRetention).toBe(DEFAULT_DECK_SETTINGS.desiredRetention);
+    expect(settings.learningSteps).toEqual(DEFAULT_DECK_SETTINGS.learningSteps);
+    expect(settings.newCardsPerDay).toBe(DEFAULT_DECK_SETTINGS.newCardsPerDay);
+    expect(settings.typedIgnoreKana).toBe(true);
+  });
+});
+
+describe("migrateCard", () => {
+  it("fills scheduling fields for cards from older versions", () => {
+    const card = migrateCard({ id: "old", type: "basic", reviewCount: 3, intervalDays: 0 });
+    expect(card.state).toBe("review");
+    expect(card.intervalDays).toBe(1);
+    expect(card.easeFactor).toBe(2.5);
+    expect(card.learningStep).toBe(0);
+  });
+});
@@ -0,0 +1,429 @@
+import { addDays, startOfDay, toDateKey } from "./dates";
+import { DEFAULT_FSRS_WEIGHTS, previewFsrs, type FsrsSettings } from "./fsrs";
+import type {
+  Card,
+  CardState,
+  DeckDailyProgress,
+  DeckSettings,
+  ReviewGrade,
+} from "./types";
+
+export type Sm2Settings = {
+  startingEase: number;
+  minimumEase: number;
+  hardMultiplier: number;
+  easyBonus: number;
+  intervalModifier: number;
+  lapseMultiplier: number;
+  graduatingInterval: number;
+  easyInterval: number;
+  maximumInterval: number;
+};
+
+export type ScheduleResult = {
+  state: CardState;
+  learningStep: number;
+  intervalDays: number;
+  easeFactor: number;
+  lapses: number;
+  nextReviewAt: string;
+  stability?: number;
+  difficulty?: number;
+};
+
+export const DEFAULT_SM2_SETTINGS: Sm2Settings = {
+  startingEase: 2.5,
+  minimumEase: 1.3,
+  hardMultiplier: 1.2,
+  easyBonus: 1.3,
+  intervalModifier: 1,
+  lapseMultiplier: 0,
+  graduatingInterval: 1,
+  easyInterval: 4,
+  maximumInterval: 36500,
+};
+
+export const DEFAULT_DECK_SETTINGS: DeckSettings = {
+  scheduler: "sm2",
+  desiredRetention: 0.9,
+  fsrsWeights: DEFAULT_FSRS_WEIGHTS,
+  learningSteps: [1, 10],
+  relearningSteps: [10],
+  newCardsPerDay: 20,
+  maxReviewsPerDay: 200,
+  typedIgnoreCase: true,
+  typedIgnoreWidth: true,
+  typedIgnoreKana: false,
+};
+
+export type ReviewQueue = {
+  newCards: Card[];
+  learningCards: Card[];
+  reviewCards: Card[];
+  queue: Card[];
+};
+
+export const LEARN_AHEAD_MINUTES = 20;
+
+export const REVIEW_GRADES: ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+const MINUTE_MS = 60 * 1000;
+
+const clampInterval = (days: number, settings: Sm2Settings) =>
+  Math.min(Math.max(Math.round(days), 1), settings.maximumInterval);
+
+const nextSm2Interval = (
+  card: Pick<Card, "intervalDays" | "easeFactor">,
+  grade: ReviewGrade,
+  settings: Sm2Settings
+) => {
+  const current = Math.max(card.intervalDays, 1);
+  const modifier = settings.intervalModifier;
+  const hard = clampInterval(
+    Math.max(current * settings.hardMultiplier * modifier, current + 1),
+    settings
+  );
+  const good = clampInterval(
+    Math.max(current * card.easeFactor * modifier, hard + 1),
+    settings
+  );
+
+  switch (grade) {
+    case "again":
+      return clampInterval(current * settings.lapseMultiplier, settings);
+    case "hard":
+      return hard;
+    case "good":
+      return good;
+    case "easy":
+      return clampInterval(
+        Math.max(current * card.easeFactor * settings.easyBonus * modifier, good + 1),
+        settings
+      );
+  }
+};
+
+const nextSm2Ease = (easeFactor: number, grade: ReviewGrade, settings: Sm2Settings) => {
+  const adjustments: Record<ReviewGrade, number> = {
+    again: -0.2,
+    hard: -0.15,
+    good: 0,
+    easy: 0.15,
+  };
+  const next = easeFactor + adjustments[grade];
+  return Math.max(settings.minimumEase, Math.round(next * 100) / 100);
+};
+
+const toFsrsSettings = (settings: DeckSettings): FsrsSettings => ({
+  desiredRetention: settings.desiredRetention,
+  weights:
+    settings.fsrsWeights.length === DEFAULT_FSRS_WEIGHTS.length
+      ? settings.fsrsWeights
+      : DEFAULT_FSRS_WEIGHTS,
+  maximumInterval: DEFAULT_SM2_SETTINGS.maximumInterval,
+});
+
+const stepDelay = (steps: number[], step: number, grade: ReviewGrade) => {
+  if (grade === "hard" && step === 0 && steps.length > 1) {
+    return (steps[0] + steps[1]) / 2;
+  }
+  return steps[Math.min(step, steps.length - 1)];
+};
+
+const minutesFrom = (now: Date, minutes: number) =>
+  new Date(now.getTime() + minutes * MINUTE_MS).toISOString();
+
+const daysFrom = (now: Date, days: number) => addDays(startOfDay(now), days).toISOString();
+
+export const scheduleCard = (
+  card: Card,
+  grade: ReviewGrade,
+  settings: DeckSettings = DEFAULT_DECK_SETTINGS,
+  now = new Date(),
+  sm2: Sm2Settings = DEFAULT_SM2_SETTINGS
+): ScheduleResult => {
+  const useFsrs = settings.scheduler === "fsrs";
+  const fsrs = useFsrs
+    ? previewFsrs(card, grade, toFsrsSettings(settings), now)
+    : null;
+  const memory = fsrs ? { stability: fsrs.stability, difficulty: fsrs.difficulty } : {};
+  const base = {
+    easeFactor: card.easeFactor,
+    lapses: card.lapses,
+    ...memory,
+  };
+
+  const graduate = (intervalDays: number, easeFactor = card.easeFactor): ScheduleResult => ({
+    ...base,
+    easeFactor,
+    state: "review",
+    learningStep: 0,
+    intervalDays,
+    nextReviewAt: daysFrom(now, intervalDays),
+  });
+
+  if (card.state === "new" || card.state === "learning") {
+    const steps = settings.learningSteps;
+    const step = card.state === "new" ? 0 : card.learningStep;
+    if (grade === "easy") {
+      return graduate(fsrs ? fsrs.intervalDays : clampInterval(sm2.easyInterval, sm2));
+    }
+    const nextStep = grade === "again" ? 0 : grade === "hard" ? step : step + 1;
+    if (nextStep >= steps.length) {
+      return graduate(fsrs ? fsrs.intervalDays : clampInterval(sm2.graduatingInterval, sm2));
+    }
+    return {
+      ...base,
+      state: "learning",
+      learningStep: nextStep,
+      intervalDays: card.intervalDays,
+      nextReviewAt: minutesFrom(now, stepDelay(steps, nextStep, grade)),
+    };
+  }
+
+  if (card.state === "relearning") {
+    const steps = settings.relearningSteps;
+    const nextStep =
+      grade === "again" ? 0 : grade === "hard" ? card.learningStep : card.learningStep + 1;
+    if (grade === "easy" || nextStep >= steps.length) {
+      return graduate(fsrs ? fsrs.intervalDays : card.intervalDays);
+    }
+    return {
+      ...base,
+      state: "relearning",
+      learningStep: nextStep,
+      intervalDays: card.intervalDays,
+      nextReviewAt: minutesFrom(now, stepDelay(steps, nextStep, grade)),
+    };
+  }
+
+  const intervalDays = fsrs ? fsrs.intervalDays : nextSm2Interval(card, grade, sm2);
+  const easeFactor = fsrs ? card.easeFactor : nextSm2Ease(card.easeFactor, grade, sm2);
+  if (grade !== "again") {
+    return graduate(intervalDays, easeFactor);
+  }
+
+  const lapsed = {
+    ...base,
+    easeFactor,
+    lapses: card.lapses + 1,
+    intervalDays,
+  };
+  if (settings.relearningSteps.length === 0) {
+    return {
+      ...lapsed,
+      state: "review",
+      learningStep: 0,
+      nextReviewAt: daysFrom(now, intervalDays),
+    };
+  }
+  return {
+    ...lapsed,
+    state: "relearning",
+    learningStep: 0,
+    nextReviewAt: minutesFrom(now, settings.relearningSteps[0]),
+  };
+};
+
+export const previewSchedules = (
+  card: Card,
+  settings: DeckSettings = DEFAULT_DECK_SETTINGS,
+  now = new Date()
+) =>
+  Object.fromEntries(
+    REVIEW_GRADES.map((grade) => [grade, scheduleCard(card, grade, settings, now)])
+  ) as Record<ReviewGrade, ScheduleResult>;
+
+export const isCardDue = (card: Card, now: Date) =>
+  new Date(card.nextReviewAt).getTime() <= now.getTime();
+
+export const isInLearning = (card: Pick<Card, "state">) =>
+  card.state === "learning" || card.state === "relearning";
+
+const byDueDate = (a: Card, b: Card) =>
+  new Date(a.nextReviewAt).getTime() - new Date(b.nextReviewAt).getTime();
+
+export const progressForToday = (
+  progress: DeckDailyProgress | undefined,
+  now = new Date()
+): DeckDailyProgress => {
+  const date = toDateKey(now);
+  return progress?.date === date ? progress : { date, newCount: 0, reviewCount: 0 };
+};
+
+export const recordDailyProgress = (
+  progress: DeckDailyProgress | undefined,
+  state: CardState,
+  now = new Date()
+): DeckDailyProgress => {
+  const today = progressForToday(progress, now);
+  return {
+    ...today,
+    newCount: today.newCount + (state === "new" ? 1 : 0),
+    reviewCount: today.reviewCount + (state === "review" ? 1 : 0),
+  };
+};
+
+const toQueue = (
+  learningCards: Card[],
+  reviewCards: Card[],
+  newCards: Card[]
+): ReviewQueue => ({
+  newCards,
+  learningCards,
+  reviewCards,
+  queue: [...learningCards, ...reviewCards, ...newCards],
+});
+
+export const buildReviewQueue = (
+  cards: Card[],
+  settings: DeckSettings,
+  progress: DeckDailyProgress | undefined,
+  now = new Date()
+): ReviewQueue => {
+  const today = progressForToday(progress, now);
+  const due = cards.filter((card) => isCardDue(card, now)).sort(byDueDate);
+  return toQueue(
+    due.filter(isInLearning),
+    due
+      .filter((card) => card.state === "review")
+      .slice(0, Math.max(settings.maxReviewsPerDay - today.reviewCount, 0)),
+    due
+      .filter((card) => card.state === "new")
+      .slice(0, Math.max(settings.newCardsPerDay - today.newCount, 0))
+  );
+};
+
+export const mergeReviewQueues = (
+  queues: ReviewQueue[],
+  cards: Card[],
+  now = new Date()
+): ReviewQueue => {
+  const merged = toQueue(
+    queues.flatMap((queue) => queue.learningCards).sort(byDueDate),
+    queues.flatMap((queue) => queue.reviewCards),
+    queues.flatMap((queue) => queue.newCards)
+  );
+  if (merged.queue.length > 0) return merged;
+
+  const learnAhead = new Date(now.getTime() + LEARN_AHEAD_MINUTES * MINUTE_MS);
+  return toQueue(
+    cards.filter((card) => isInLearning(card) && isCardDue(card, learnAhead)).sort(byDueDate),
+    [],
+    []
+  );
+};
+
+export const parseSteps = (value: string) => {
+  const units: Record<string, number> = { s: 1 / 60, m: 1, h: 60, d: 1440 };
+  const steps = value
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((token) => {
+      const match = token.match(/^(\d+(?:\.\d+)?)([smhd]?)$/i);
+      if (!match) return Number.NaN;
+      return Number(match[1]) * units[(match[2] || "m").toLowerCase()];
+    });
+  return steps.some((step) => Number.isNaN(step) || step <= 0) ? null : steps;
+};
+
+export const formatSteps = (steps: number[]) =>
+  steps
+    .map((minutes) => {
+      if (minutes >= 1440 && minutes % 1440 === 0) return `${minutes / 1440}d`;
+      if (minutes >= 60 && minutes % 60 === 0) return `${minutes / 60}h`;
+      return `${minutes}m`;
+    })
+    .join(" ");
+
+const normalizeSteps = (value: unknown, fallback: number[]) =>
+  Array.isArray(value) &&
+  value.every((step) => typeof step === "number" && step > 0)
+    ? (value as number[])
+    : fallback;
+
+const normalizeLimit = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 ? value : fallback;
+
+const normalizeFlag = (value: unknown, fallback: boolean) =>
+  typeof value === "boolean" ? value : fallback;
+
+export const normalizeDeckSettings = (
+  settings: Partial<DeckSettings> | undefined
+): DeckSettings => ({
+  scheduler: settings?.scheduler === "fsrs" ? "fsrs" : "sm2",
+  desiredRetention:
+    typeof settings?.desiredRetention === "number" &&
+    settings.desiredRetention >= 0.7 &&
+    settings.desiredRetention <= 0.99
+      ? settings.desiredRetention
+      : DEFAULT_DECK_SETTINGS.desiredRetention,
+  fsrsWeights:
+    Array.isArray(settings?.fsrsWeights) &&
+    settings.fsrsWeights.length === DEFAULT_FSRS_WEIGHTS.length &&
+    settings.fsrsWeights.every((value) => typeof value === "number")
+      ? settings.fsrsWeights
+      : DEFAULT_FSRS_WEIGHTS,
+  learningSteps: normalizeSteps(settings?.learningSteps, DEFAULT_DECK_SETTINGS.learningSteps),
+  relearningSteps: normalizeSteps(
+    settings?.relearningSteps,
+    DEFAULT_DECK_SETTINGS.relearningSteps
+  ),
+  newCardsPerDay: normalizeLimit(settings?.newCardsPerDay, DEFAULT_DECK_SETTINGS.newCardsPerDay),
+  maxReviewsPerDay: normalizeLimit(
+    settings?.maxReviewsPerDay,
+    DEFAULT_DECK_SETTINGS.maxReviewsPerDay
+  ),
+  typedIgnoreCase: normalizeFlag(settings?.typedIgnoreCase, DEFAULT_DECK_SETTINGS.typedIgnoreCase),
+  typedIgnoreWidth: normalizeFlag(
+    settings?.typedIgnoreWidth,
+    DEFAULT_DECK_SETTINGS.typedIgnoreWidth
+  ),
+  typedIgnoreKana: normalizeFlag(settings?.typedIgnoreKana, DEFAULT_DECK_SETTINGS.typedIgnoreKana),
+});
+
+export const formatInterval = (days: number) => {
+  if (days < 30) return `${days}日`;
+  if (days < 365) return `${(days / 30).toFixed(1)}ヶ月`;
+  return `${(days / 365).toFixed(1)}年`;
+};
+
+export const formatDelay = (result: ScheduleResult, now = new Date()) => {
+  if (!isInLearning(result)) return formatInterval(result.intervalDays);
+  const minutes = Math.max(
+    Math.round((new Date(result.nextReviewAt).getTime() - now.getTime()) / MINUTE_MS),
+    1
+  );
+  if (minutes < 60) return `${minutes}分`;
+  if (minutes < 1440) return `${Math.round(minutes / 6) / 10}時間`;
+  return `${Math.round(minutes / 144) / 10}日`;
+};
+
+const cardStates: CardState[] = ["new", "learning", "review", "relearning"];
+
+export const migrateCard = (card: Partial<Card> & Pick<Card, "id" | "type">): Card => {
+  const intervalDays =
+    typeof card.intervalDays === "number" && card.intervalDays > 0
+      ? card.intervalDays
+      : 1;
+  const reviewCount = typeof card.reviewCount === "number" ? card.reviewCount : 0;
+  return {
+    ...card,
+    intervalDays,
+    reviewCount,
+    updatedAt:
+      card.updatedAt ?? card.lastReviewedAt ?? card.createdAt ?? new Date().toISOString(),
+    state:
+      card.state && cardStates.includes(card.state)
+        ? card.state
+        : reviewCount === 0
+          ? "new"
+          : "review",
+    learningStep: typeof card.learningStep === "number" ? card.learningStep : 0,
+    easeFactor:
+      typeof card.easeFactor === "number" && card.easeFactor > 0
+        ? card.easeFactor
+        : DEFAULT_SM2_SETTINGS.startingEase,
+    lapses: typeof card.lapses === "number" ? card.lapses : 0,
+  } as Card;
+};
@@ -0,0 +1,113 @@
+import { addDays, startOfToday, toDateKey } from "./dates";
+import type { Card, Deck, ReviewGrade, ReviewLog } from "./types";
+
+export type ForecastDay = {
+  date: Date;
+  count: number;
+};
+
+export type HeatmapDay = {
+  date: Date;
+  count: number;
+  level: number;
+};
+
+export type RetentionRow = {
+  deck: Deck;
+  passed: number;
+  total: number;
+  rate: number | null;
+};
+
+export type MaturityBreakdown = {
+  new: number;
+  young: number;
+  mature: number;
+};
+
+export const MATURE_INTERVAL_DAYS = 21;
+
+export const dueForecast = (cards: Card[], days = 30): ForecastDay[] => {
+  const today = startOfToday();
+  const counts = new Map<string, number>();
+  cards.forEach((card) => {
+    const due = new Date(card.nextReviewAt);
+    const key = toDateKey(due < today ? today : due);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return Array.from({ length: days }, (_, index) => {
+    const date = addDays(today, index);
+    return { date, count: counts.get(toDateKey(date)) ?? 0 };
+  });
+};
+
+export const reviewHeatmap = (logs: ReviewLog[], weeks = 26): HeatmapDay[] => {
+  const today = startOfToday();
+  const start = addDays(today, -(weeks * 7 - 1) - today.getDay());
+  const counts = new Map<string, number>();
+  logs.forEach((log) => {
+    const key = toDateKey(new Date(log.reviewedAt));
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  const length = Math.round((today.getTime() - start.getTime()) / 86400000) + 1;
+  const days = Array.from({ length }, (_, index) => {
+    const date = addDays(start, index);
+    return { date, count: counts.get(toDateKey(date)) ?? 0 };
+  });
+  const max = Math.max(...days.map((day) => day.count), 0);
+  return days.map((day) => ({
+    ...day,
+    level: day.count === 0 || max === 0 ? 0 : Math.ceil((day.count / max) * 4),
+  }));
+};
+
+export const trueRetentionByDeck = (
+  cards: Card[],
+  logs: ReviewLog[],
+  decks: Deck[]
+): RetentionRow[] => {
+  const deckByCard = new Map(cards.map((card) => [card.id, card.deckId]));
+  const totals = new Map<string, { passed: number; total: number }>();
+  const seen = new Set<string>();
+  logs.forEach((log) => {
+    if (log.source !== "review") return;
+    if (!seen.has(log.cardId)) {
+      seen.add(log.cardId);
+      return;
+    }
+    const deck = deckByCard.get(log.cardId);
+    if (!deck) return;
+    const entry = totals.get(deck) ?? { passed: 0, total: 0 };
+    entry.total += 1;
+    if (log.grade !== "again") entry.passed += 1;
+    totals.set(deck, entry);
+  });
+  return decks.map((deck) => {
+    const entry = totals.get(deck.id) ?? { passed: 0, total: 0 };
+    return {
+      deck,
+      ...entry,
+      rate: entry.total === 0 ? null : entry.passed / entry.total,
+    };
+  });
+};
+
+export const answerDistribution = (logs: ReviewLog[]) =>
+  logs.reduce<Record<ReviewGrade, number>>(
+    (acc, log) => {
+      acc[log.grade] += 1;
+      return acc;
+    },
+    { again: 0, hard: 0, good: 0, easy: 0 }
+  );
+
+export const maturityBreakdown = (cards: Card[]): MaturityBreakdown =>
+  cards.reduce<MaturityBreakdown>(
+    (acc, card) => {
+      if (card.reviewCount === 0) acc.new += 1;
+      else if (card.intervalDays >= MATURE_INTERVAL_DAYS) acc.mature += 1;
+      else acc.young += 1;
+      return acc;
+    },
+    { new: 0, young: 0, mature: 0 }
+  );
@@ -0,0 +1,219 @@
+import { describe, expect, it } from "vitest";
+import baselineStorage from "./__fixtures__/baseline-storage.json";
+import { DEFAULT_DECK_ID } from "./decks";
+import {
+  SCHEMA_VERSION,
+  collectStorageChanges,
+  hasStorageChanges,
+  loadCollection,
+  serializeCollection,
+} from "./storage";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+const legacyCard = (id: string, deck: string) => ({
+  id,
+  deck,
+  type: "basic",
+  question: `Q${id}`,
+  answer: `A${id}`,
+  nextReviewAt: "2024-05-01T00:00:00.000Z",
+  intervalDays: 3,
+  createdAt: "2024-04-01T00:00:00.000Z",
+  lastReviewedAt: "2024-04-28T00:00:00.000Z",
+  reviewCount: 2,
+});
+
+describe("loadCollection migrations", () => {
+  it("upgrades the original format with deck names and card deck fields", () => {
+    const { collection, report } = loadCollection({
+      cards: [legacyCard("1714000000000-0", "英語::単語"), legacyCard("1714000000000-1", "")],
+      decks: ["General", "英語::単語"],
+    });
+    expect(report.fromVersion).toBe(1);
+    expect(report.toVersion).toBe(SCHEMA_VERSION);
+    expect(collection.decks.map((deck) => deck.name).sort()).toEqual([
+      "General",
+      "英語",
+      "英語::単語",
+    ]);
+    const deck = collection.decks.find((item) => item.name === "英語::単語");
+    const [first, second] = collection.cards;
+    expect(first.deckId).toBe(deck?.id);
+    expect(second.deckId).toBe(DEFAULT_DECK_ID);
+    expect(first).not.toHaveProperty("deck");
+    expect(first.id).toMatch(UUID_PATTERN);
+    expect(first.state).toBe("review");
+    expect(first.easeFactor).toBe(2.5);
+    expect(first.updatedAt).toBe("2024-04-28T00:00:00.000Z");
+  });
+
+  it("turns a desktop storage file from the first release into records the database accepts", () => {
+    const { collection, report } = loadCollection({
+      ...baselineStorage,
+      version: 0,
+      deckSettings: null,
+      reviewLogs: null,
+      dailyProgress: null,
+      tombstones: null,
+    });
+    const payload = serializeCollection(collection);
+    const deckIds = new Set(payload.decks.map((deck) => deck.id));
+    expect(report.issues).toEqual([]);
+    expect(payload.version).toBe(SCHEMA_VERSION);
+    expect(payload.decks.map((deck) => deck.name).sort()).toEqual(["General", "生物", "英語"]);
+    expect(payload.cards).toHaveLength(3);
+    payload.cards.forEach((card) => {
+      expect(deckIds.has(card.deckId)).toBe(true);
+      expect(card).not.toHaveProperty("deck");
+    });
+    const choice = payload.cards.find((card) => card.type === "choice");
+    expect(choice && "choices" in choice ? choice.choices : []).toHaveLength(4);
+    expect(choice?.explanation).toBe("呼吸の場");
+  });
+
+  it("derives the same card ids every time so devices agree", () => {
+    const raw = { cards: [legacyCard("1714000000000-0", "General")], decks: ["General"] };
+    expect(loadCollection(raw).collection.cards[0].id).toBe(
+      loadCollection(raw).collection.cards[0].id
+    );
+  });
+
+  it("moves review logs to the new card ids when upgrading from version 2", () => {
+    const { collection } = loadCollection({
+      version: 2,
+      decks: [{ id: DEFAULT_DECK_ID, name: "General" }],
+      cards: [{ ...legacyCard("old-id", ""), deckId: DEFAULT_DECK_ID }],
+      reviewLogs: [
+        {
+          id: "log-1",
+          cardId: "old-id",
+          grade: "good",
+          reviewedAt: "2024-04-28T00:00:00.000Z",
+          previousIntervalDays: 1,
+          nextIntervalDays: 3,
+          durationMs: 1200,
+        },
+      ],
+    });
+    expect(collection.reviewLogs[0].cardId).toBe(collection.cards[0].id);
+    expect(collection.reviewLogs[0].source).toBe("review");
+    expect(collection.tombstones).toEqual([]);
+  });
+
+  it("repairs or drops invalid records and reports each issue", () => {
+    const current = {
+      deckId: DEFAULT_DECK_ID,
+      type: "basic",
+      question: "Q",
+      answer: "A",
+      nextReviewAt: "2024-05-01T00:00:00.000Z",
+      createdAt: "2024-04-01T00:00:00.000Z",
+    };
+    const { collection, report } = loadCollection({
+      version: SCHEMA_VERSION,
+      decks: [{ id: DEFAULT_DECK_ID, name: "General" }, { name: "no id" }],
+      cards: [
+        { ...current, id: "a", question: "" },
+        { ...current, id: "b", deckId: "missing" },
+        { ...current, id: "b", type: "choice", choices: ["A", "B"] },
+        { ...current, id: "c", type: "note", noteTypeId: "unknown", nextReviewAt: "not a date" },
+      ],
+      reviewLogs: [{ id: "log", cardId: "b", grade: "perfect", reviewedAt: "2024-01-01" }],
+      loadErrors: ["読み込みエラー"],
+    });
+    expect(collection.cards.map((card) => [card.type, card.deckId])).toEqual([
+      ["basic", DEFAULT_DECK_ID],
+      ["choice", DEFAULT_DECK_ID],
+      ["basic", DEFAULT_DECK_ID],
+    ]);
+    expect(new Set(collection.cards.map((card) => card.id)).size).toBe(3);
+    expect(collection.reviewLogs).toEqual([]);
+    expect(report.issues.map((issue) => issue.kind).sort()).toEqual(
+      [
+        "duplicate-id",
+        "invalid-card",
+        "invalid-card",
+        "invalid-date",
+        "invalid-deck",
+        "invalid-log",
+        "load-error",
+        "orphaned-deck",
+      ].sort()
+    );
+  });
+
+  it("loads its own output without changes", () => {
+    const { collection } = loadCollection({
+      cards: [legacyCard("1714000000000-0", "英語")],
+      decks: ["General", "英語"],
+    });
+    const reloaded = loadCollection(JSON.parse(JSON.stringify(serializeCollection(collection))));
+    expect(reloaded.report.issues).toEqual([]);
+    expect(reloaded.collection).toEqual(collection);
+  });
+
+  it("keeps valid note types and the cards that use them", () => {
+    const noteType = {
+      id: "type-1",
+      name: "熟語",
+      fields: ["熟語", "読み"],
+      templates: [{ id: "t1", name: "読み", front: "{{熟語}}", back: "{{読み}}" }],
+      createdAt: "2024-04-01T00:00:00.000Z",
+      updatedAt: "2024-04-01T00:00:00.000Z",
+    };
+    const { collection, report } = loadCollection({
+      version: SCHEMA_VERSION,
+      decks: [{ id: DEFAULT_DECK_ID, name: "General" }],
+      noteTypes: [
+        noteType,
+        { ...noteType, id: "type-2" },
+        { ...noteType, id: "reverse", name: "別名" },
+        { ...noteType, id: "type-3", name: "空", templates: [] },
+      ],
+      cards: [
+        {
+          id: "a",
+          deckId: DEFAULT_DECK_ID,
+          type: "note",
+          question: "漢字",
+          answer: "かんじ",
+          noteId: "n1",
+          noteTypeId: "type-1",
+          templateId: "t1",
+          fields: ["漢字", "かんじ"],
+          nextReviewAt: "2024-05-01T00:00:00.000Z",
+          createdAt: "2024-04-01T00:00:00.000Z",
+        },
+      ],
+    });
+    expect(collection.noteTypes).toEqual([noteType]);
+    expect(collection.cards[0].type).toBe("note");
+    expect(report.issues.map((issue) => issue.kind).sort()).toEqual([
+      "duplicate-id",
+      "invalid-note-type",
+      "invalid-note-type",
+    ]);
+  });
+});
+
+describe("collectStorageChanges", () => {
+  it("lists only the records that changed", () => {
+    const { collection } = loadCollection({
+      cards: [legacyCard("1", "General"), legacyCard("2", "General")],
+      decks: ["General"],
+    });
+    const [first, second] = collection.cards;
+    const next = {
+      ...collection,
+      cards: [{ ...first, question: "changed" }],
+    };
+    const changes = collectStorageChanges(collection, next);
+    expect(changes.upsertCards.map((card) => card.question)).toEqual(["changed"]);
+    expect(changes.deleteCards).toEqual([second.id]);
+    expect(changes.upsertDecks).toEqual([]);
+    expect(changes.tombstones).toBeUndefined();
+    expect(hasStorageChanges(changes)).toBe(true);
+    expect(hasStorageChanges(collectStorageChanges(collection, collection))).toBe(false);
+  });
+});
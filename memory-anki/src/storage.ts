@@ -0,0 +1,578 @@
+import {
+  DEFAULT_DECK_ID,
+  DEFAULT_DECK_NAME,
+  createDeck,
+  ensureParentDecks,
+  migrateLegacyDecks,
+} from "./decks";
+import { startOfToday } from "./dates";
+import { allNoteTypes, noteTypeErrors } from "./notes";
+import { migrateCard, normalizeDeckSettings } from "./scheduler";
+import type {
+  Card,
+  CardState,
+  Deck,
+  DeckDailyProgress,
+  DeckSettings,
+  NoteTemplate,
+  NoteType,
+  ReviewGrade,
+  ReviewLog,
+  Tombstone,
+} from "./types";
+
+export const SCHEMA_VERSION = 4;
+
+export type RawStoragePayload = {
+  version?: unknown;
+  cards?: unknown;
+  decks?: unknown;
+  deckSettings?: unknown;
+  reviewLogs?: unknown;
+  dailyProgress?: unknown;
+  tombstones?: unknown;
+  noteTypes?: unknown;
+  loadErrors?: unknown;
+};
+
+export type StorageCollection = {
+  cards: Card[];
+  decks: Deck[];
+  reviewLogs: ReviewLog[];
+  dailyProgress: Record<string, DeckDailyProgress>;
+  tombstones: Tombstone[];
+  noteTypes: NoteType[];
+};
+
+export type StoragePayload = StorageCollection & {
+  version: number;
+};
+
+export type RepairIssueKind =
+  | "load-error"
+  | "invalid-card"
+  | "invalid-deck"
+  | "invalid-log"
+  | "invalid-note-type"
+  | "orphaned-deck"
+  | "invalid-date"
+  | "duplicate-id";
+
+export type RepairIssue = {
+  kind: RepairIssueKind;
+  message: string;
+};
+
+export type StorageReport = {
+  fromVersion: number;
+  toVersion: number;
+  issues: RepairIssue[];
+};
+
+type Migration = {
+  version: number;
+  migrate: (raw: RawStoragePayload, issues: RepairIssue[]) => RawStoragePayload;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === "string" && !Number.isNaN(new Date(value).getTime());
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const REVIEW_GRADES: ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+const CARD_STATES: CardState[] = ["new", "learning", "review", "relearning"];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const stableUuid = (seed: string) => {
+  const hex = [0x811c9dc5, 0x01000193, 0x9e3779b9, 0x85ebca6b]
+    .map((salt) => {
+      let hash = salt;
+      for (let index = 0; index < seed.length; index += 1) {
+        hash = Math.imul(hash ^ seed.charCodeAt(index), 0x01000193) >>> 0;
+      }
+      return hash.toString(16).padStart(8, "0");
+    })
+    .join("");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `4${hex.slice(13, 16)}`,
+    `${((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)}${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ].join("-");
+};
+
+const migrations: Migration[] = [
+  {
+    version: 2,
+    migrate: (raw, issues) => {
+      const cards = (Array.isArray(raw.cards) ? raw.cards : []).filter((card, index) => {
+        if (isRecord(card)) return true;
+        issues.push({
+          kind: "invalid-card",
+          message: `カード ${index + 1} 件目の形式が不正なため除外しました。`,
+        });
+        return false;
+      });
+      const listed = new Set(
+        (Array.isArray(raw.decks) ? raw.decks : []).map((deck) =>
+          isRecord(deck) ? deck.name : deck
+        )
+      );
+      const collection = migrateLegacyDecks({ ...raw, cards });
+      collection.decks
+        .filter((deck) => deck.id !== DEFAULT_DECK_ID && !listed.has(deck.name))
+        .forEach((deck) =>
+          issues.push({
+            kind: "orphaned-deck",
+            message: `デッキ一覧になかった「${deck.name}」を作成しました。`,
+          })
+        );
+      return { ...raw, ...collection, deckSettings: undefined };
+    },
+  },
+  {
+    version: 3,
+    migrate: (raw) => {
+      const cardIds = new Map<string, string>();
+      const cards = (Array.isArray(raw.cards) ? raw.cards : []).map((card) => {
+        if (!isRecord(card) || typeof card.id !== "string" || UUID_PATTERN.test(card.id)) {
+          return card;
+        }
+        const id = stableUuid(card.id);
+        cardIds.set(card.id, id);
+        return { ...card, id };
+      });
+      const reviewLogs = (Array.isArray(raw.reviewLogs) ? raw.reviewLogs : []).map((log) =>
+        isRecord(log) && typeof log.cardId === "string" && cardIds.has(log.cardId)
+          ? { ...log, cardId: cardIds.get(log.cardId) }
+          : log
+      );
+      return { ...raw, cards, reviewLogs, tombstones: [] };
+    },
+  },
+  {
+    version: 4,
+    migrate: (raw) => ({ ...raw, noteTypes: [] }),
+  },
+];
+
+const readVersion = (raw: RawStoragePayload) =>
+  typeof raw.version === "number" && Number.isInteger(raw.version) && raw.version > 0
+    ? raw.version
+    : 1;
+
+const validateDecks = (value: unknown, issues: RepairIssue[]) => {
+  const decks: Deck[] = [];
+  (Array.isArray(value) ? value : []).forEach((deck, index) => {
+    if (!isRecord(deck) || !isNonEmptyString(deck.id) || !isNonEmptyString(deck.name)) {
+      issues.push({
+        kind: "invalid-deck",
+        message: `デッキ ${index + 1} 件目の形式が不正なため除外しました。`,
+      });
+      return;
+    }
+    if (decks.some((item) => item.id === deck.id)) {
+      issues.push({
+        kind: "duplicate-id",
+        message: `デッキ「${deck.name}」のIDが重複していたため除外しました。`,
+      });
+      return;
+    }
+    if (decks.some((item) => item.name === deck.name)) {
+      issues.push({
+        kind: "invalid-deck",
+        message: `デッキ名「${deck.name}」が重複していたため一方を除外しました。`,
+      });
+      return;
+    }
+    const createdAt = isValidDate(deck.createdAt) ? deck.createdAt : new Date().toISOString();
+    decks.push({
+      id: deck.id,
+      name: deck.name,
+      description: typeof deck.description === "string" ? deck.description : "",
+      createdAt,
+      updatedAt: isValidDate(deck.updatedAt) ? deck.updatedAt : createdAt,
+      options: normalizeDeckSettings(deck.options as Partial<DeckSettings> | undefined),
+    });
+  });
+  if (!decks.some((deck) => deck.id === DEFAULT_DECK_ID)) {
+    decks.unshift(createDeck(DEFAULT_DECK_NAME, undefined, DEFAULT_DECK_ID));
+  }
+  return ensureParentDecks(decks);
+};
+
+const validateTemplates = (value: unknown): NoteTemplate[] | null => {
+  if (!Array.isArray(value)) return null;
+  const templates = value.map((template) =>
+    isRecord(template) &&
+    isNonEmptyString(template.id) &&
+    typeof template.name === "string" &&
+    typeof template.front === "string" &&
+    typeof template.back === "string"
+      ? { id: template.id, name: template.name, front: template.front, back: template.back }
+      : null
+  );
+  if (templates.some((template) => template === null)) return null;
+  const valid = templates as NoteTemplate[];
+  return new Set(valid.map((template) => template.id)).size === valid.length ? valid : null;
+};
+
+const validateNoteTypes = (value: unknown, issues: RepairIssue[]) => {
+  const noteTypes: NoteType[] = [];
+  (Array.isArray(value) ? value : []).forEach((raw, index) => {
+    const label =
+      isRecord(raw) && isNonEmptyString(raw.name) ? `「${raw.name}」` : `${index + 1} 件目`;
+    const templates = isRecord(raw) ? validateTemplates(raw.templates) : null;
+    if (
+      !isRecord(raw) ||
+      !isNonEmptyString(raw.id) ||
+      typeof raw.name !== "string" ||
+      !Array.isArray(raw.fields) ||
+      !raw.fields.every((field) => typeof field === "string") ||
+      !templates
+    ) {
+      issues.push({
+        kind: "invalid-note-type",
+        message: `ノートタイプ ${label} の形式が不正なため除外しました。`,
+      });
+      return;
+    }
+    if (allNoteTypes(noteTypes).some((noteType) => noteType.id === raw.id)) {
+      issues.push({
+        kind: "duplicate-id",
+        message: `ノートタイプ ${label} のIDが重複していたため除外しました。`,
+      });
+      return;
+    }
+    const createdAt = isValidDate(raw.createdAt) ? raw.createdAt : new Date().toISOString();
+    const noteType: NoteType = {
+      id: raw.id,
+      name: raw.name,
+      fields: raw.fields as string[],
+      templates,
+      createdAt,
+      updatedAt: isValidDate(raw.updatedAt) ? raw.updatedAt : createdAt,
+    };
+    const [error] = noteTypeErrors(noteType, allNoteTypes(noteTypes));
+    if (error) {
+      issues.push({
+        kind: "invalid-note-type",
+        message: `ノートタイプ ${label} を除外しました（${error}）。`,
+      });
+      return;
+    }
+    noteTypes.push(noteType);
+  });
+  return noteTypes;
+};
+
+const validateCards = (
+  value: unknown,
+  decks: Deck[],
+  noteTypes: NoteType[],
+  issues: RepairIssue[]
+) => {
+  const deckIds = new Set(decks.map((deck) => deck.id));
+  const seenIds = new Set<string>();
+  const cards: Card[] = [];
+  (Array.isArray(value) ? value : []).forEach((raw, index) => {
+    const label = `カード ${index + 1} 件目`;
+    if (
+      !isRecord(raw) ||
+      !isNonEmptyString(raw.question) ||
+      !isNonEmptyString(raw.answer) ||
+      (raw.type !== "basic" &&
+        raw.type !== "choice" &&
+        raw.type !== "typed" &&
+        raw.type !== "cloze" &&
+        raw.type !== "note")
+    ) {
+      issues.push({
+        kind: "invalid-card",
+        message: `${label}は問題・回答・種類が不正なため除外しました。`,
+      });
+      return;
+    }
+    if (
+      raw.type === "choice" &&
+      (!Array.isArray(raw.choices) ||
+        raw.choices.filter((choice) => isNonEmptyString(choice)).length < 2)
+    ) {
+      issues.push({
+        kind: "invalid-card",
+        message: `${label}（${raw.question}）は選択肢が不足しているため除外しました。`,
+      });
+      return;
+    }
+    if (
+      raw.type === "cloze" &&
+      (typeof raw.clozeNumber !== "number" ||
+        !Number.isInteger(raw.clozeNumber) ||
+        raw.clozeNumber < 1)
+    ) {
+      issues.push({
+        kind: "invalid-card",
+        message: `${label}（${raw.question}）は穴埋め番号が不正なため除外しました。`,
+      });
+      return;
+    }
+
+    const noteType =
+      raw.type === "note"
+        ? noteTypes.find((item) => item.id === String(raw.noteTypeId ?? ""))
+        : undefined;
+    const isValidNote =
+      noteType !== undefined &&
+      noteType.templates.some((template) => template.id === raw.templateId) &&
+      Array.isArray(raw.fields) &&
+      raw.fields.every((field) => typeof field === "string");
+    if (raw.type === "note" && !isValidNote) {
+      issues.push({
+        kind: "invalid-card",
+        message: `${label}（${raw.question}）はノートの情報が不正なため基本カードとして読み込みました。`,
+      });
+    }
+
+    let id = isNonEmptyString(raw.id) ? raw.id : crypto.randomUUID();
+    if (seenIds.has(id)) {
+      const nextId = crypto.randomUUID();
+      issues.push({
+        kind: "duplicate-id",
+        message: `${label}（${raw.question}）のID「${id}」が重複していたため振り直しました。`,
+      });
+      id = nextId;
+    }
+    seenIds.add(id);
+
+    let deckId = isNonEmptyString(raw.deckId) ? raw.deckId : DEFAULT_DECK_ID;
+    if (!deckIds.has(deckId)) {
+      issues.push({
+        kind: "orphaned-deck",
+        message: `${label}（${raw.question}）のデッキが見つからないため既定のデッキに移動しました。`,
+      });
+      deckId = DEFAULT_DECK_ID;
+    }
+
+    const dates: Record<string, unknown> = {};
+    if (!isValidDate(raw.nextReviewAt)) {
+      dates.nextReviewAt = startOfToday().toISOString();
+    }
+    if (!isValidDate(raw.createdAt)) {
+      dates.createdAt = new Date().toISOString();
+    }
+    if (raw.lastReviewedAt !== undefined && !isValidDate(raw.lastReviewedAt)) {
+      dates.lastReviewedAt = undefined;
+    }
+    if (raw.updatedAt !== undefined && !isValidDate(raw.updatedAt)) {
+      dates.updatedAt = undefined;
+    }
+    if (Object.keys(dates).length > 0) {
+      issues.push({
+        kind: "invalid-date",
+        message: `${label}（${raw.question}）の日付が不正だったため修正しました。`,
+      });
+    }
+
+    const card = migrateCard({
+      ...(raw as Partial<Card>),
+      ...dates,
+      id,
+      deckId,
+      type: raw.type === "note" && !isValidNote ? "basic" : raw.type,
+      tags: Array.isArray(raw.tags)
+        ? raw.tags.filter((tag) => isNonEmptyString(tag))
+        : undefined,
+    });
+    cards.push(
+      card.type === "choice"
+        ? { ...card, choices: card.choices.filter((choice) => isNonEmptyString(choice)) }
+        : card.type === "typed"
+          ? {
+              ...card,
+              alternatives: Array.isArray(card.alternatives)
+                ? card.alternatives.filter((alternative) => isNonEmptyString(alternative))
+                : [],
+            }
+          : (card.type === "cloze" || card.type === "note") && !isNonEmptyString(card.noteId)
+            ? { ...card, noteId: id }
+            : card
+    );
+  });
+  return cards;
+};
+
+const validateReviewLogs = (value: unknown, issues: RepairIssue[]) => {
+  const logs: ReviewLog[] = [];
+  let invalid = 0;
+  (Array.isArray(value) ? value : []).forEach((log) => {
+    if (
+      !isRecord(log) ||
+      !isNonEmptyString(log.cardId) ||
+      !REVIEW_GRADES.includes(log.grade as ReviewGrade) ||
+      !isValidDate(log.reviewedAt)
+    ) {
+      invalid += 1;
+      return;
+    }
+    logs.push({
+      id: isNonEmptyString(log.id) ? log.id : crypto.randomUUID(),
+      cardId: log.cardId,
+      grade: log.grade as ReviewGrade,
+      reviewedAt: log.reviewedAt,
+      previousIntervalDays:
+        typeof log.previousIntervalDays === "number" ? log.previousIntervalDays : 0,
+      nextIntervalDays: typeof log.nextIntervalDays === "number" ? log.nextIntervalDays : 0,
+      durationMs: typeof log.durationMs === "number" ? log.durationMs : 0,
+      source: log.source === "test" ? "test" : "review",
+      ...(CARD_STATES.includes(log.previousState as CardState)
+        ? { previousState: log.previousState as CardState }
+        : {}),
+    });
+  });
+  if (invalid > 0) {
+    issues.push({
+      kind: "invalid-log",
+      message: `不正な復習履歴 ${invalid} 件を除外しました。`,
+    });
+  }
+  return logs;
+};
+
+const validateDailyProgress = (value: unknown, decks: Deck[]) => {
+  const deckIds = new Set(decks.map((deck) => deck.id));
+  const progress: Record<string, DeckDailyProgress> = {};
+  if (!isRecord(value)) return progress;
+  Object.entries(value).forEach(([deckId, entry]) => {
+    if (
+      deckIds.has(deckId) &&
+      isRecord(entry) &&
+      typeof entry.date === "string" &&
+      typeof entry.newCount === "number" &&
+      typeof entry.reviewCount === "number"
+    ) {
+      progress[deckId] = entry as DeckDailyProgress;
+    }
+  });
+  return progress;
+};
+
+const validateTombstones = (value: unknown) => {
+  const tombstones = new Map<string, Tombstone>();
+  (Array.isArray(value) ? value : []).forEach((entry) => {
+    if (
+      !isRecord(entry) ||
+      !isNonEmptyString(entry.id) ||
+      (entry.kind !== "card" && entry.kind !== "deck" && entry.kind !== "noteType") ||
+      !isValidDate(entry.deletedAt)
+    ) {
+      return;
+    }
+    const key = `${entry.kind}:${entry.id}`;
+    const existing = tombstones.get(key);
+    if (!existing || existing.deletedAt < entry.deletedAt) {
+      tombstones.set(key, { id: entry.id, kind: entry.kind, deletedAt: entry.deletedAt });
+    }
+  });
+  return [...tombstones.values()];
+};
+
+export const loadCollection = (raw: RawStoragePayload | null | undefined) => {
+  const source = raw ?? {};
+  const fromVersion = readVersion(source);
+  const issues: RepairIssue[] = [];
+
+  if (Array.isArray(source.loadErrors)) {
+    source.loadErrors.forEach((message) => {
+      if (typeof message === "string") issues.push({ kind: "load-error", message });
+    });
+  }
+
+  const migrated = migrations
+    .filter((migration) => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((payload, migration) => migration.migrate(payload, issues), source);
+
+  const decks = validateDecks(migrated.decks, issues);
+  const noteTypes = validateNoteTypes(migrated.noteTypes, issues);
+  const collection: StorageCollection = {
+    decks,
+    cards: validateCards(migrated.cards, decks, allNoteTypes(noteTypes), issues),
+    reviewLogs: validateReviewLogs(migrated.reviewLogs, issues),
+    dailyProgress: validateDailyProgress(migrated.dailyProgress, decks),
+    tombstones: validateTombstones(migrated.tombstones),
+    noteTypes,
+  };
+  const report: StorageReport = {
+    fromVersion,
+    toVersion: SCHEMA_VERSION,
+    issues,
+  };
+  return { collection, report };
+};
+
+export const serializeCollection = (collection: StorageCollection): StoragePayload => ({
+  version: SCHEMA_VERSION,
+  ...collection,
+});
+
+export type StorageChanges = {
+  version: number;
+  upsertCards: Card[];
+  deleteCards: string[];
+  upsertDecks: Deck[];
+  deleteDecks: string[];
+  reviewLogs: ReviewLog[];
+  deleteReviewLogs: string[];
+  tombstones?: Tombstone[];
+  dailyProgress?: Record<string, DeckDailyProgress>;
+  noteTypes?: NoteType[];
+};
+
+const diffRecords = <T extends { id: string }>(previous: T[], next: T[]) => {
+  const before = new Map(previous.map((record) => [record.id, record]));
+  const nextIds = new Set(next.map((record) => record.id));
+  return {
+    upserts: next.filter((record) => before.get(record.id) !== record),
+    deletes: previous.filter((record) => !nextIds.has(record.id)).map((record) => record.id),
+  };
+};
+
+export const collectStorageChanges = (
+  previous: StorageCollection,
+  next: StorageCollection
+): StorageChanges => {
+  const cards = diffRecords(previous.cards, next.cards);
+  const decks = diffRecords(previous.decks, next.decks);
+  const logs = diffRecords(previous.reviewLogs, next.reviewLogs);
+  return {
+    version: SCHEMA_VERSION,
+    upsertCards: cards.upserts,
+    deleteCards: cards.deletes,
+    upsertDecks: decks.upserts,
+    deleteDecks: decks.deletes,
+    reviewLogs: logs.upserts,
+    deleteReviewLogs: logs.deletes,
+    tombstones: previous.tombstones !== next.tombstones ? next.tombstones : undefined,
+    dailyProgress:
+      previous.dailyProgress !== next.dailyProgress ? next.dailyProgress : undefined,
+    noteTypes: previous.noteTypes !== next.noteTypes ? next.noteTypes : undefined,
+  };
+};
+
+export const hasStorageChanges = (changes: StorageChanges) =>
+  changes.upsertCards.length > 0 ||
+  changes.deleteCards.length > 0 ||
+  changes.upsertDecks.length > 0 ||
+  changes.deleteDecks.length > 0 ||
+  changes.reviewLogs.length > 0 ||
+  changes.deleteReviewLogs.length > 0 ||
+  changes.tombstones !== undefined ||
+  changes.dailyProgress !== undefined ||
+  changes.noteTypes !== undefined;
@@ -0,0 +1,205 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DECK_SETTINGS } from "./scheduler";
+import type { StorageCollection } from "./storage";
+import { hasRemoteChanges, mergeCollections, restoreSnapshot, syncRetryDelay } from "./sync";
+import type { Card, Deck, NoteType, ReviewLog } from "./types";
+
+const T1 = "2026-03-01T00:00:00.000Z";
+const T2 = "2026-03-02T00:00:00.000Z";
+const T3 = "2026-03-03T00:00:00.000Z";
+
+const makeDeck = (id: string, name: string, createdAt = T1): Deck => ({
+  id,
+  name,
+  description: "",
+  createdAt,
+  updatedAt: createdAt,
+  options: DEFAULT_DECK_SETTINGS,
+});
+
+const makeCard = (id: string, updatedAt = T1, overrides: Partial<Card> = {}): Card =>
+  ({
+    id,
+    deckId: "deck-1",
+    type: "basic",
+    question: `Q${id}`,
+    answer: `A${id}`,
+    state: "new",
+    learningStep: 0,
+    nextReviewAt: T1,
+    intervalDays: 1,
+    easeFactor: 2.5,
+    lapses: 0,
+    createdAt: T1,
+    updatedAt,
+    reviewCount: 0,
+    ...overrides,
+  }) as Card;
+
+const makeLog = (id: string, cardId: string, reviewedAt: string): ReviewLog => ({
+  id,
+  cardId,
+  grade: "good",
+  reviewedAt,
+  previousIntervalDays: 1,
+  nextIntervalDays: 3,
+  durationMs: 1000,
+  source: "review",
+});
+
+const makeCollection = (overrides: Partial<StorageCollection> = {}): StorageCollection => ({
+  cards: [],
+  decks: [makeDeck("deck-1", "General")],
+  reviewLogs: [],
+  dailyProgress: {},
+  tombstones: [],
+  noteTypes: [],
+  ...overrides,
+});
+
+describe("mergeCollections", () => {
+  it("keeps the newer version of each card and counts pulled and pushed cards", () => {
+    const local = makeCollection({
+      cards: [makeCard("a", T2, { question: "local" }), makeCard("b", T1), makeCard("c", T1)],
+    });
+    const remote = makeCollection({
+      cards: [makeCard("a", T1, { question: "remote" }), makeCard("b", T3, { question: "new" })],
+    });
+    const { collection, summary } = mergeCollections(local, remote);
+    const questions = Object.fromEntries(collection.cards.map((card) => [card.id, card.question]));
+    expect(questions).toEqual({ a: "local", b: "new", c: "Qc" });
+    expect(summary).toEqual({ pulledCards: 1, pushedCards: 2, deletedCards: 0 });
+  });
+
+  it("drops cards deleted on the other device unless they were edited afterwards", () => {
+    const local = makeCollection({ cards: [makeCard("a", T1), makeCard("b", T3)] });
+    const remote = makeCollection({
+      tombstones: [
+        { id: "a", kind: "card", deletedAt: T2 },
+        { id: "b", kind: "card", deletedAt: T2 },
+      ],
+    });
+    const { collection, summary } = mergeCollections(local, remote);
+    expect(collection.cards.map((card) => card.id)).toEqual(["b"]);
+    expect(collection.tombstones).toEqual([{ id: "a", kind: "card", deletedAt: T2 }]);
+    expect(summary.deletedCards).toBe(1);
+  });
+
+  it("keeps the latest tombstone for the same record", () => {
+    const { collection } = mergeCollections(
+      makeCollection({ tombstones: [{ id: "a", kind: "card", deletedAt: T1 }] }),
+      makeCollection({ tombstones: [{ id: "a", kind: "card", deletedAt: T3 }] })
+    );
+    expect(collection.tombstones).toEqual([{ id: "a", kind: "card", deletedAt: T3 }]);
+  });
+
+  it("merges decks created with the same name on two devices", () => {
+    const local = makeCollection({
+      decks: [makeDeck("deck-1", "General"), makeDeck("local-en", "英語", T1)],
+      cards: [makeCard("a", T1, { deckId: "local-en" })],
+    });
+    const remote = makeCollection({
+      decks: [makeDeck("deck-1", "General"), makeDeck("remote-en", "英語", T2)],
+      cards: [makeCard("b", T2, { deckId: "remote-en" })],
+    });
+    const { collection } = mergeCollections(local, remote);
+    expect(collection.decks.map((deck) => deck.id).sort()).toEqual(["deck-1", "local-en"]);
+    expect(collection.cards.map((card) => card.deckId)).toEqual(["local-en", "local-en"]);
+    expect(collection.tombstones).toEqual([{ id: "remote-en", kind: "deck", deletedAt: T2 }]);
+  });
+
+  it("unions review logs and combines the daily counts of the same day", () => {
+    const shared = makeLog("log-1", "a", T1);
+    const local = makeCollection({
+      reviewLogs: [shared, makeLog("log-3", "a", T3)],
+      dailyProgress: { "deck-1": { date: "2026-03-03", newCount: 2, reviewCount: 1 } },
+    });
+    const remote = makeCollection({
+      reviewLogs: [shared, makeLog("log-2", "a", T2)],
+      dailyProgress: { "deck-1": { date: "2026-03-03", newCount: 1, reviewCount: 4 } },
+    });
+    const { collection } = mergeCollections(local, remote);
+    expect(collection.reviewLogs.map((log) => log.id)).toEqual(["log-1", "log-2", "log-3"]);
+    expect(collection.dailyProgress["deck-1"]).toEqual({
+      date: "2026-03-03",
+      newCount: 2,
+      reviewCount: 4,
+    });
+  });
+});
+
+describe("mergeCollections note types", () => {
+  const noteType = (updatedAt: string, name: string): NoteType => ({
+    id: "type-1",
+    name,
+    fields: ["表", "裏"],
+    templates: [{ id: "t1", name: "表→裏", front: "{{表}}", back: "{{裏}}" }],
+    createdAt: T1,
+    updatedAt,
+  });
+
+  it("keeps the newer note type and drops deleted ones", () => {
+    const { collection } = mergeCollections(
+      makeCollection({ noteTypes: [noteType(T1, "旧")] }),
+      makeCollection({ noteTypes: [noteType(T2, "新")] })
+    );
+    expect(collection.noteTypes.map((item) => item.name)).toEqual(["新"]);
+
+    const deleted = mergeCollections(
+      makeCollection({ noteTypes: [noteType(T1, "旧")] }),
+      makeCollection({ tombstones: [{ id: "type-1", kind: "noteType", deletedAt: T2 }] })
+    );
+    expect(deleted.collection.noteTypes).toEqual([]);
+    expect(hasRemoteChanges(deleted.collection, makeCollection())).toBe(true);
+  });
+
+  it("keeps a deleted note type while cards still use it", () => {
+    const card = makeCard("a", T1, {
+      type: "note",
+      noteId: "n1",
+      noteTypeId: "type-1",
+      templateId: "t1",
+      fields: ["表", "裏"],
+    });
+    const { collection } = mergeCollections(
+      makeCollection({ cards: [card], noteTypes: [noteType(T1, "旧")] }),
+      makeCollection({ tombstones: [{ id: "type-1", kind: "noteType", deletedAt: T2 }] })
+    );
+    expect(collection.noteTypes.map((item) => item.id)).toEqual(["type-1"]);
+    expect(collection.tombstones).toEqual([]);
+  });
+});
+
+describe("hasRemoteChanges", () => {
+  it("reports whether the merged data differs from the remote copy", () => {
+    const remote = makeCollection({ cards: [makeCard("a", T1)] });
+    expect(hasRemoteChanges(mergeCollections(remote, remote).collection, remote)).toBe(false);
+    const local = makeCollection({ cards: [makeCard("a", T2)] });
+    expect(hasRemoteChanges(mergeCollections(local, remote).collection, remote)).toBe(true);
+  });
+});
+
+describe("restoreSnapshot", () => {
+  it("brings back the snapshot cards and deletes cards added since", () => {
+    const now = new Date(T3);
+    const local = makeCollection({
+      cards: [makeCard("a", T2, { question: "edited" }), makeCard("added", T2)],
+      tombstones: [{ id: "b", kind: "card", deletedAt: T2 }],
+    });
+    const snapshot = makeCollection({ cards: [makeCard("a", T1), makeCard("b", T1)] });
+    const restored = restoreSnapshot(local, snapshot, now);
+    expect(restored.cards.map((card) => [card.id, card.question, card.updatedAt])).toEqual([
+      ["a", "Qa", T3],
+      ["b", "Qb", T3],
+    ]);
+    expect(restored.tombstones).toEqual([{ id: "added", kind: "card", deletedAt: T3 }]);
+    const { collection } = mergeCollections(local, restored);
+    expect(collection.cards.map((card) => card.id).sort()).toEqual(["a", "b"]);
+  });
+});
+
+describe("syncRetryDelay", () => {
+  it("doubles the delay after each failure up to five minutes", () => {
+    expect([1, 2, 3, 10].map(syncRetryDelay)).toEqual([5000, 10000, 20000, 300000]);
+  });
+});
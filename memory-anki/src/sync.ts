@@ -0,0 +1,253 @@
+import type { StorageCollection } from "./storage";
+import type { Card, Deck, DeckDailyProgress, Tombstone } from "./types";
+
+export type MergeSummary = {
+  pulledCards: number;
+  pushedCards: number;
+  deletedCards: number;
+};
+
+type Versioned = { id: string; updatedAt: string };
+
+const isNewer = (candidate: string, current: string) =>
+  new Date(candidate).getTime() > new Date(current).getTime();
+
+const mergeTombstones = (local: Tombstone[], remote: Tombstone[]) => {
+  const merged = new Map<string, Tombstone>();
+  [...local, ...remote].forEach((tombstone) => {
+    const key = `${tombstone.kind}:${tombstone.id}`;
+    const existing = merged.get(key);
+    if (!existing || isNewer(tombstone.deletedAt, existing.deletedAt)) {
+      merged.set(key, tombstone);
+    }
+  });
+  return merged;
+};
+
+const mergeRecords = <T extends Versioned>(
+  local: T[],
+  remote: T[],
+  kind: Tombstone["kind"],
+  tombstones: Map<string, Tombstone>
+) => {
+  const merged = new Map(local.map((record) => [record.id, record]));
+  remote.forEach((record) => {
+    const existing = merged.get(record.id);
+    if (!existing || isNewer(record.updatedAt, existing.updatedAt)) {
+      merged.set(record.id, record);
+    }
+  });
+  return [...merged.values()].filter((record) => {
+    const key = `${kind}:${record.id}`;
+    const tombstone = tombstones.get(key);
+    if (!tombstone) return true;
+    if (isNewer(record.updatedAt, tombstone.deletedAt)) {
+      tombstones.delete(key);
+      return true;
+    }
+    return false;
+  });
+};
+
+const dedupeDecksByName = (decks: Deck[], tombstones: Map<string, Tombstone>) => {
+  const byName = new Map<string, Deck>();
+  const replaced = new Map<string, string>();
+  [...decks]
+    .sort(
+      (a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id)
+    )
+    .forEach((deck) => {
+      const kept = byName.get(deck.name);
+      if (!kept) {
+        byName.set(deck.name, deck);
+        return;
+      }
+      replaced.set(deck.id, kept.id);
+      tombstones.set(`deck:${deck.id}`, {
+        id: deck.id,
+        kind: "deck",
+        deletedAt: deck.updatedAt,
+      });
+    });
+  return { decks: decks.filter((deck) => !replaced.has(deck.id)), replaced };
+};
+
+const mergeDailyProgress = (
+  local: Record<string, DeckDailyProgress>,
+  remote: Record<string, DeckDailyProgress>
+) => {
+  const merged = { ...local };
+  Object.entries(remote).forEach(([deckId, progress]) => {
+    const existing = merged[deckId];
+    if (!existing || progress.date > existing.date) {
+      merged[deckId] = progress;
+    } else if (progress.date === existing.date) {
+      merged[deckId] = {
+        date: progress.date,
+        newCount: Math.max(progress.newCount, existing.newCount),
+        reviewCount: Math.max(progress.reviewCount, existing.reviewCount),
+      };
+    }
+  });
+  return merged;
+};
+
+export const mergeCollections = (
+  local: StorageCollection,
+  remote: StorageCollection
+): { collection: StorageCollection; summary: MergeSummary } => {
+  const tombstones = mergeTombstones(local.tombstones, remote.tombstones);
+  const { decks, replaced } = dedupeDecksByName(
+    mergeRecords(local.decks, remote.decks, "deck", tombstones),
+    tombstones
+  );
+  const cards: Card[] = mergeRecords(local.cards, remote.cards, "card", tombstones).map(
+    (card) => ({ ...card, deckId: replaced.get(card.deckId) ?? card.deckId })
+  );
+  cards.forEach((card) => {
+    if (card.type === "note") tombstones.delete(`noteType:${card.noteTypeId}`);
+  });
+  const noteTypes = mergeRecords(local.noteTypes, remote.noteTypes, "noteType", tombstones);
+
+  const reviewLogs = new Map(local.reviewLogs.map((log) => [log.id, log]));
+  remote.reviewLogs.forEach((log) => {
+    if (!reviewLogs.has(log.id)) reviewLogs.set(log.id, log);
+  });
+
+  const localCards = new Map(local.cards.map((card) => [card.id, card]));
+  const remoteCards = new Map(remote.cards.map((card) => [card.id, card]));
+  const mergedIds = new Set(cards.map((card) => card.id));
+
+  return {
+    collection: {
+      cards,
+      decks,
+      reviewLogs: [...reviewLogs.values()].sort((a, b) =>
+        a.reviewedAt.localeCompare(b.reviewedAt)
+      ),
+      dailyProgress: mergeDailyProgress(local.dailyProgress, remote.dailyProgress),
+      tombstones: [...tombstones.values()],
+      noteTypes,
+    },
+    summary: {
+      pulledCards: cards.filter(
+        (card) => localCards.get(card.id)?.updatedAt !== card.updatedAt
+      ).length,
+      pushedCards: cards.filter(
+        (card) => remoteCards.get(card.id)?.updatedAt !== card.updatedAt
+      ).length,
+      deletedCards: local.cards.filter((card) => !mergedIds.has(card.id)).length,
+    },
+  };
+};
+
+const sameVersions = (left: Versioned[], right: Versioned[]) => {
+  const versions = new Map(right.map((record) => [record.id, record.updatedAt]));
+  return (
+    left.length === right.length &&
+    left.every((record) => versions.get(record.id) === record.updatedAt)
+  );
+};
+
+export const hasRemoteChanges = (merged: StorageCollection, remote: StorageCollection) =>
+  !sameVersions(merged.cards, remote.cards) ||
+  !sameVersions(merged.decks, remote.decks) ||
+  !sameVersions(merged.noteTypes, remote.noteTypes) ||
+  merged.reviewLogs.length !== remote.reviewLogs.length ||
+  merged.tombstones.length !== remote.tombstones.length ||
+  JSON.stringify(merged.dailyProgress) !== JSON.stringify(remote.dailyProgress);
+
+export type CollectionDiff = {
+  onlyInSnapshot: Card[];
+  onlyInLocal: Card[];
+  changed: { local: Card; snapshot: Card }[];
+};
+
+export const diffCollections = (
+  local: StorageCollection,
+  snapshot: StorageCollection
+): CollectionDiff => {
+  const localCards = new Map(local.cards.map((card) => [card.id, card]));
+  const snapshotIds = new Set(snapshot.cards.map((card) => card.id));
+  return {
+    onlyInSnapshot: snapshot.cards.filter((card) => !localCards.has(card.id)),
+    onlyInLocal: local.cards.filter((card) => !snapshotIds.has(card.id)),
+    changed: snapshot.cards.flatMap((card) => {
+      const localCard = localCards.get(card.id);
+      return localCard && localCard.updatedAt !== card.updatedAt
+        ? [{ local: localCard, snapshot: card }]
+        : [];
+    }),
+  };
+};
+
+export const restoreSnapshot = (
+  local: StorageCollection,
+  snapshot: StorageCollection,
+  now: Date = new Date()
+): StorageCollection => {
+  const stamp = now.toISOString();
+  const cardIds = new Set(snapshot.cards.map((card) => card.id));
+  const deckIds = new Set(snapshot.decks.map((deck) => deck.id));
+  const noteTypeIds = new Set(snapshot.noteTypes.map((noteType) => noteType.id));
+  const tombstones = mergeTombstones(local.tombstones, snapshot.tombstones);
+  local.cards
+    .filter((card) => !cardIds.has(card.id))
+    .forEach((card) =>
+      tombstones.set(`card:${card.id}`, { id: card.id, kind: "card", deletedAt: stamp })
+    );
+  local.decks
+    .filter((deck) => !deckIds.has(deck.id))
+    .forEach((deck) =>
+      tombstones.set(`deck:${deck.id}`, { id: deck.id, kind: "deck", deletedAt: stamp })
+    );
+  cardIds.forEach((id) => tombstones.delete(`card:${id}`));
+  deckIds.forEach((id) => tombstones.delete(`deck:${id}`));
+  noteTypeIds.forEach((id) => tombstones.delete(`noteType:${id}`));
+
+  const reviewLogs = new Map(
+    [...local.reviewLogs, ...snapshot.reviewLogs].map((log) => [log.id, log])
+  );
+  return {
+    cards: snapshot.cards.map((card) => ({ ...card, updatedAt: stamp })),
+    decks: snapshot.decks.map((deck) => ({ ...deck, updatedAt: stamp })),
+    reviewLogs: [...reviewLogs.values()].sort((a, b) =>
+      a.reviewedAt.localeCompare(b.reviewedAt)
+    ),
+    dailyProgress: snapshot.dailyProgress,
+    tombstones: [...tombstones.values()],
+    noteTypes: [
+      ...snapshot.noteTypes.map((noteType) => ({ ...noteType, updatedAt: stamp })),
+      ...local.noteTypes.filter((noteType) => !noteTypeIds.has(noteType.id)),
+    ],
+  };
+};
+
+export type SyncMeta = {
+  lastSyncedAt: string | null;
+  pending: boolean;
+};
+
+export const AUTO_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+export const CHANGE_SYNC_DELAY_MS = 30 * 1000;
+const SYNC_RETRY_BASE_MS = 5 * 1000;
+const SYNC_RETRY_MAX_MS = 5 * 60 * 1000;
+
+export const syncRetryDelay = (failures: number) =>
+  Math.min(SYNC_RETRY_MAX_MS, SYNC_RETRY_BASE_MS * 2 ** Math.max(0, failures - 1));
+
+export const parseSyncMeta = (stored: string | null): SyncMeta => {
+  try {
+    const value = stored ? JSON.parse(stored) : null;
+    return {
+      lastSyncedAt:
+        typeof value?.lastSyncedAt === "string" &&
+        !Number.isNaN(new Date(value.lastSyncedAt).getTime())
+          ? value.lastSyncedAt
+          : null,
+      pending: value?.pending === true,
+    };
+  } catch {
+    return { lastSyncedAt: null, pending: false };
+  }
+};
@@ -0,0 +1,179 @@
+export type KdfParams = {
+  name: "PBKDF2";
+  hash: "SHA-256";
+  iterations: number;
+  salt: string;
+};
+
+export type SyncKeyRecord = {
+  key: string;
+  kdf?: KdfParams;
+};
+
+export type EncryptedBlob = {
+  iv: string;
+  data: string;
+  fingerprint?: string;
+  kdf?: KdfParams;
+};
+
+export const PBKDF2_ITERATIONS = 600_000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (value: string) =>
+  Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+export const bytesToHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+export const isValidSyncKey = (key: string) => {
+  try {
+    return base64ToBytes(key).length === 32;
+  } catch {
+    return false;
+  }
+};
+
+export const generateSyncKey = () => bytesToBase64(crypto.getRandomValues(new Uint8Array(32)));
+
+const isKdfParams = (value: unknown): value is KdfParams => {
+  const kdf = value as Partial<KdfParams> | null;
+  return (
+    kdf?.name === "PBKDF2" &&
+    kdf.hash === "SHA-256" &&
+    typeof kdf.iterations === "number" &&
+    kdf.iterations > 0 &&
+    typeof kdf.salt === "string"
+  );
+};
+
+export const parseEncryptedBlob = (value: unknown): EncryptedBlob => {
+  const blob = value as Partial<EncryptedBlob> | null;
+  if (typeof blob?.iv !== "string" || typeof blob?.data !== "string") {
+    throw new Error("同期データの形式が正しくありません。");
+  }
+  return {
+    iv: blob.iv,
+    data: blob.data,
+    fingerprint: typeof blob.fingerprint === "string" ? blob.fingerprint : undefined,
+    kdf: isKdfParams(blob.kdf) ? blob.kdf : undefined,
+  };
+};
+
+export const parseSyncKeyRecord = (stored: string | null): SyncKeyRecord | null => {
+  if (!stored) return null;
+  if (isValidSyncKey(stored)) return { key: stored };
+  try {
+    const value = JSON.parse(stored);
+    if (typeof value?.key !== "string" || !isValidSyncKey(value.key)) return null;
+    return { key: value.key, kdf: isKdfParams(value.kdf) ? value.kdf : undefined };
+  } catch {
+    return null;
+  }
+};
+
+export const deriveSyncKey = async (
+  passphrase: string,
+  kdf: KdfParams = {
+    name: "PBKDF2",
+    hash: "SHA-256",
+    iterations: PBKDF2_ITERATIONS,
+    salt: bytesToBase64(crypto.getRandomValues(new Uint8Array(16))),
+  }
+): Promise<SyncKeyRecord> => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase.normalize("NFKC")),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: "PBKDF2",
+      hash: kdf.hash,
+      iterations: kdf.iterations,
+      salt: base64ToBytes(kdf.salt),
+    },
+    material,
+    256
+  );
+  return { key: bytesToBase64(new Uint8Array(bits)), kdf };
+};
+
+export const syncKeyFingerprint = async (key: string) => {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", base64ToBytes(key)));
+  return bytesToHex(digest.subarray(0, 8))
+    .replace(/(.{4})(?!$)/g, "$1-")
+    .toUpperCase();
+};
+
+const getCryptoKey = async (keyBase64: string) =>
+  crypto.subtle.importKey("raw", base64ToBytes(keyBase64), "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+
+export const encryptBytes = async (
+  bytes: Uint8Array<ArrayBuffer>,
+  record: SyncKeyRecord
+): Promise<EncryptedBlob> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await getCryptoKey(record.key);
+  const encrypted = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, bytes);
+  return {
+    iv: bytesToBase64(iv),
+    data: bytesToBase64(new Uint8Array(encrypted)),
+    fingerprint: await syncKeyFingerprint(record.key),
+    kdf: record.kdf,
+  };
+};
+
+export const encryptPayload = async (payload: unknown, record: SyncKeyRecord) =>
+  encryptBytes(new TextEncoder().encode(JSON.stringify(payload)), record);
+
+const wrongKeyMessage = (fingerprint?: string) =>
+  `同期キーが一致しないため復号できません。${
+    fingerprint ? `同期先のキーの指紋は ${fingerprint} です。` : ""
+  }他の端末と同じキー（またはパスフレーズ）を設定してください。`;
+
+export const decryptBytes = async (blob: EncryptedBlob, keyBase64: string) => {
+  if (blob.fingerprint && blob.fingerprint !== (await syncKeyFingerprint(keyBase64))) {
+    throw new Error(wrongKeyMessage(blob.fingerprint));
+  }
+  const key = await getCryptoKey(keyBase64);
+  try {
+    return new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: base64ToBytes(blob.iv) },
+        key,
+        base64ToBytes(blob.data)
+      )
+    );
+  } catch {
+    throw new Error(wrongKeyMessage(blob.fingerprint));
+  }
+};
+
+export const decryptPayload = async (blob: EncryptedBlob, keyBase64: string) =>
+  JSON.parse(new TextDecoder().decode(await decryptBytes(blob, keyBase64)));
+
+export const mediaRemoteId = async (name: string, keyBase64: string) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base64ToBytes(keyBase64),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(name));
+  return bytesToHex(new Uint8Array(signature));
+};
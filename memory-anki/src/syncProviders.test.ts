@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { decryptPayload, encryptPayload, generateSyncKey, type EncryptedBlob } from "./syncCrypto";
+import { reencryptSnapshots, type SnapshotStore } from "./syncProviders";
+
+const createStore = (blobs: Map<string, EncryptedBlob>): SnapshotStore => ({
+  list: async () =>
+    [...blobs.keys()].map((id) => ({
+      id,
+      createdAt: "2026-03-01T00:00:00.000Z",
+      deviceName: "",
+      cardCount: 0,
+      deckCount: 0,
+    })),
+  load: async (id) => blobs.get(id) as EncryptedBlob,
+  save: async (id, blob) => {
+    blobs.set(id, blob);
+  },
+  wipe: async () => blobs.clear(),
+});
+
+describe("reencryptSnapshots", () => {
+  it("re-encrypts older snapshots so they open with the new key", async () => {
+    const previous = { key: generateSyncKey() };
+    const next = { key: generateSyncKey() };
+    const blobs = new Map([
+      ["old", await encryptPayload({ cards: ["old"] }, previous)],
+      ["new", await encryptPayload({ cards: ["new"] }, next)],
+    ]);
+    const untouched = blobs.get("new");
+
+    expect(await reencryptSnapshots(createStore(blobs), previous, next)).toBe(1);
+    expect(blobs.get("new")).toBe(untouched);
+    expect(await decryptPayload(blobs.get("old") as EncryptedBlob, next.key)).toEqual({
+      cards: ["old"],
+    });
+    await expect(
+      decryptPayload(blobs.get("old") as EncryptedBlob, previous.key)
+    ).rejects.toThrow("同期キーが一致しない");
+  });
+});
@@ -0,0 +1,314 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  decryptPayload,
+  encryptPayload,
+  parseEncryptedBlob,
+  syncKeyFingerprint,
+  type EncryptedBlob,
+  type SyncKeyRecord,
+} from "./syncCrypto";
+import { invokeTauri } from "./tauri";
+
+export type SyncProviderKind = "supabase" | "folder" | "http";
+
+export type SnapshotMeta = {
+  deviceName: string;
+  cardCount: number;
+  deckCount: number;
+};
+
+export type SnapshotInfo = SnapshotMeta & {
+  id: string;
+  createdAt: string;
+};
+
+export type SnapshotStore = {
+  list: () => Promise<SnapshotInfo[]>;
+  load: (id: string) => Promise<EncryptedBlob>;
+  save: (id: string, blob: EncryptedBlob) => Promise<void>;
+  wipe: () => Promise<void>;
+};
+
+export type MediaStore = {
+  list: () => Promise<string[]>;
+  load: (id: string) => Promise<EncryptedBlob>;
+  save: (id: string, blob: EncryptedBlob) => Promise<void>;
+};
+
+export type SyncProvider = {
+  kind: SyncProviderKind;
+  pull: () => Promise<EncryptedBlob | null>;
+  push: (blob: EncryptedBlob, snapshot?: SnapshotMeta) => Promise<void>;
+  snapshots: SnapshotStore;
+  media: MediaStore;
+};
+
+export const SNAPSHOT_LIMIT = 30;
+
+const MEDIA_PAGE_SIZE = 1000;
+
+export type SyncServerSettings = {
+  url: string;
+  token: string;
+};
+
+export const syncProviderLabels: Record<SyncProviderKind, string> = {
+  supabase: "Supabase",
+  folder: "フォルダ（デスクトップ版）",
+  http: "自前サーバー",
+};
+
+const parseBlob = (payload: string | null | undefined) =>
+  payload ? parseEncryptedBlob(JSON.parse(payload)) : null;
+
+export const createSupabaseProvider = (
+  client: SupabaseClient,
+  userId: string
+): SyncProvider => ({
+  kind: "supabase",
+  pull: async () => {
+    const { data, error } = await client
+      .from("user_data")
+      .select("payload")
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) throw error;
+    return parseBlob(data?.payload);
+  },
+  push: async (blob, snapshot) => {
+    const payload = JSON.stringify(blob);
+    const { error } = await client.from("user_data").upsert(
+      {
+        user_id: userId,
+        payload,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id" }
+    );
+    if (error) throw error;
+    if (!snapshot) return;
+    const { error: snapshotError } = await client.from("user_snapshots").insert({
+      user_id: userId,
+      payload,
+      device_name: snapshot.deviceName,
+      card_count: snapshot.cardCount,
+      deck_count: snapshot.deckCount,
+    });
+    if (snapshotError) throw snapshotError;
+  },
+  snapshots: {
+    list: async () => {
+      const { data, error } = await client
+        .from("user_snapshots")
+        .select("id, created_at, device_name, card_count, deck_count")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(SNAPSHOT_LIMIT);
+      if (error) throw error;
+      return (data ?? []).map((row) => ({
+        id: row.id,
+        createdAt: row.created_at,
+        deviceName: row.device_name,
+        cardCount: row.card_count,
+        deckCount: row.deck_count,
+      }));
+    },
+    load: async (id) => {
+      const { data, error } = await client
+        .from("user_snapshots")
+        .select("payload")
+        .eq("user_id", userId)
+        .eq("id", id)
+        .single();
+      if (error) throw error;
+      return parseEncryptedBlob(JSON.parse(data.payload));
+    },
+    save: async (id, blob) => {
+      const { error } = await client
+        .from("user_snapshots")
+        .update({ payload: JSON.stringify(blob) })
+        .eq("user_id", userId)
+        .eq("id", id);
+      if (error) throw error;
+    },
+    wipe: async () => {
+      const { error: mediaError } = await client.from("user_media").delete().eq("user_id", userId);
+      if (mediaError) throw mediaError;
+      const { error: snapshotError } = await client
+        .from("user_snapshots")
+        .delete()
+        .eq("user_id", userId);
+      if (snapshotError) throw snapshotError;
+      const { error } = await client.from("user_data").delete().eq("user_id", userId);
+      if (error) throw error;
+    },
+  },
+  media: {
+    list: async () => {
+      const ids: string[] = [];
+      for (let from = 0; ; from += MEDIA_PAGE_SIZE) {
+        const { data, error } = await client
+          .from("user_media")
+          .select("id")
+          .eq("user_id", userId)
+          .order("id")
+          .range(from, from + MEDIA_PAGE_SIZE - 1);
+        if (error) throw error;
+        ids.push(...(data ?? []).map((row) => String(row.id)));
+        if ((data ?? []).length < MEDIA_PAGE_SIZE) return ids;
+      }
+    },
+    load: async (id) => {
+      const { data, error } = await client
+        .from("user_media")
+        .select("payload")
+        .eq("user_id", userId)
+        .eq("id", id)
+        .single();
+      if (error) throw error;
+      return parseEncryptedBlob(JSON.parse(data.payload));
+    },
+    save: async (id, blob) => {
+      const { error } = await client
+        .from("user_media")
+        .upsert(
+          { user_id: userId, id, payload: JSON.stringify(blob) },
+          { onConflict: "user_id,id" }
+        );
+      if (error) throw error;
+    },
+  },
+});
+
+export const createFolderProvider = (): SyncProvider => ({
+  kind: "folder",
+  pull: async () => parseBlob(await invokeTauri<string | null>("read_sync_file")),
+  push: async (blob, snapshot) => {
+    const payload = JSON.stringify(blob);
+    await invokeTauri("write_sync_file", { payload });
+    if (snapshot) await invokeTauri("add_sync_snapshot", { payload, snapshot });
+  },
+  snapshots: {
+    list: () => invokeTauri<SnapshotInfo[]>("list_sync_snapshots"),
+    load: async (id) =>
+      parseEncryptedBlob(JSON.parse(await invokeTauri<string>("read_sync_snapshot", { id }))),
+    save: async (id, blob) => {
+      await invokeTauri("save_sync_snapshot", { id, payload: JSON.stringify(blob) });
+    },
+    wipe: async () => {
+      await invokeTauri("wipe_sync_folder");
+    },
+  },
+  media: {
+    list: () => invokeTauri<string[]>("list_sync_media"),
+    load: async (id) =>
+      parseEncryptedBlob(JSON.parse(await invokeTauri<string>("read_sync_media", { id }))),
+    save: async (id, blob) => {
+      await invokeTauri("write_sync_media", { id, payload: JSON.stringify(blob) });
+    },
+  },
+});
+
+export const createHttpProvider = ({ url, token }: SyncServerSettings): SyncProvider => {
+  const base = `${url.replace(/\/+$/, "")}/v1`;
+  const endpoint = `${base}/blob`;
+  const headers = { Authorization: `Bearer ${token}`, "Content-Type": "application/json" };
+  const check = async (response: Response) => {
+    if (response.ok) return;
+    const message = await response.text().catch(() => "");
+    throw new Error(
+      `同期サーバーがエラーを返しました（${response.status}）${message ? `: ${message}` : ""}`
+    );
+  };
+  return {
+    kind: "http",
+    pull: async () => {
+      const response = await fetch(endpoint, { headers });
+      if (response.status === 404) return null;
+      await check(response);
+      const body = (await response.json()) as { payload?: string };
+      return parseBlob(body.payload);
+    },
+    push: async (blob, snapshot) => {
+      const payload = JSON.stringify(blob);
+      const response = await fetch(endpoint, {
+        method: "PUT",
+        headers,
+        body: JSON.stringify({ payload, updatedAt: new Date().toISOString() }),
+      });
+      await check(response);
+      if (!snapshot) return;
+      await check(
+        await fetch(`${base}/snapshots`, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ payload, ...snapshot }),
+        })
+      );
+    },
+    snapshots: {
+      list: async () => {
+        const response = await fetch(`${base}/snapshots`, { headers });
+        await check(response);
+        const body = (await response.json()) as { snapshots?: SnapshotInfo[] };
+        return body.snapshots ?? [];
+      },
+      load: async (id) => {
+        const response = await fetch(`${base}/snapshots/${encodeURIComponent(id)}`, { headers });
+        await check(response);
+        const body = (await response.json()) as { payload?: string };
+        return parseEncryptedBlob(JSON.parse(body.payload ?? "null"));
+      },
+      save: async (id, blob) => {
+        const response = await fetch(`${base}/snapshots/${encodeURIComponent(id)}`, {
+          method: "PUT",
+          headers,
+          body: JSON.stringify({ payload: JSON.stringify(blob) }),
+        });
+        await check(response);
+      },
+      wipe: async () => {
+        await check(await fetch(`${base}/data`, { method: "DELETE", headers }));
+      },
+    },
+    media: {
+      list: async () => {
+        const response = await fetch(`${base}/media`, { headers });
+        await check(response);
+        const body = (await response.json()) as { ids?: string[] };
+        return body.ids ?? [];
+      },
+      load: async (id) => {
+        const response = await fetch(`${base}/media/${id}`, { headers });
+        await check(response);
+        const body = (await response.json()) as { payload?: string };
+        return parseEncryptedBlob(JSON.parse(body.payload ?? "null"));
+      },
+      save: async (id, blob) => {
+        const response = await fetch(`${base}/media/${id}`, {
+          method: "PUT",
+          headers,
+          body: JSON.stringify({ payload: JSON.stringify(blob) }),
+        });
+        await check(response);
+      },
+    },
+  };
+};
+
+export const reencryptSnapshots = async (
+  store: SnapshotStore,
+  record: SyncKeyRecord,
+  nextRecord: SyncKeyRecord
+) => {
+  const fingerprint = await syncKeyFingerprint(nextRecord.key);
+  let count = 0;
+  for (const info of await store.list()) {
+    const blob = await store.load(info.id);
+    if (blob.fingerprint === fingerprint) continue;
+    const payload = await decryptPayload(blob, record.key);
+    await store.save(info.id, await encryptPayload(payload, nextRecord));
+    count += 1;
+  }
+  return count;
+};
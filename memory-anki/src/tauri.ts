@@ -0,0 +1,14 @@
+import type { InvokeArgs, InvokeOptions } from "@tauri-apps/api/core";
+
+export const isTauri = () =>
+  typeof window !== "undefined" &&
+  Boolean((window as { __TAURI__?: unknown }).__TAURI__);
+
+export const invokeTauri = async <T,>(
+  command: string,
+  payload?: InvokeArgs,
+  options?: InvokeOptions
+) => {
+  const module = await import("@tauri-apps/api/core");
+  return module.invoke<T>(command, payload, options);
+};
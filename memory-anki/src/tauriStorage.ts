@@ -0,0 +1,32 @@
+import type { StorageChanges } from "./storage";
+import { invokeTauri } from "./tauri";
+import type { Card } from "./types";
+
+const isSingleCardChange = (changes: StorageChanges) =>
+  changes.upsertCards.length === 1 &&
+  changes.deleteCards.length === 0 &&
+  changes.upsertDecks.length === 0 &&
+  changes.deleteDecks.length === 0 &&
+  changes.deleteReviewLogs.length === 0 &&
+  changes.tombstones === undefined &&
+  changes.noteTypes === undefined &&
+  changes.reviewLogs.every((log) => log.cardId === changes.upsertCards[0].id);
+
+export const saveStorageChanges = async (changes: StorageChanges) => {
+  if (isSingleCardChange(changes) && changes.reviewLogs.length > 0) {
+    await invokeTauri("record_review", {
+      card: changes.upsertCards[0],
+      logs: changes.reviewLogs,
+      dailyProgress: changes.dailyProgress ?? null,
+    });
+    return;
+  }
+  if (isSingleCardChange(changes) && !changes.dailyProgress) {
+    await invokeTauri("upsert_card", { card: changes.upsertCards[0] });
+    return;
+  }
+  await invokeTauri("apply_storage_changes", { changes });
+};
+
+export const queryDueCards = (deckIds: string[], until: Date) =>
+  invokeTauri<Card[]>("query_due_cards", { deckIds, until: until.toISOString() });
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { compareTypedAnswer, typedAnswerText, type AnswerMatchOptions } from "./typedAnswer";
+
+const STRICT: AnswerMatchOptions = {
+  typedIgnoreCase: false,
+  typedIgnoreWidth: false,
+  typedIgnoreKana: false,
+};
+
+const LENIENT: AnswerMatchOptions = {
+  typedIgnoreCase: true,
+  typedIgnoreWidth: true,
+  typedIgnoreKana: true,
+};
+
+describe("typedAnswerText", () => {
+  it("drops media and keeps the text of math", () => {
+    expect(typedAnswerText(`[image:${"a".repeat(64)}.png] $$x^2$$ と $y$`)).toBe("x^2 と y");
+  });
+});
+
+describe("compareTypedAnswer", () => {
+  it("ignores case, width and kana only when the deck allows it", () => {
+    const lenient = compareTypedAnswer("ＡＢＣ　かたかな", ["abc カタカナ"], LENIENT);
+    expect(lenient.isExact).toBe(true);
+    expect(lenient.suggestedGrade).toBe("good");
+    expect(compareTypedAnswer("ＡＢＣ　かたかな", ["abc カタカナ"], STRICT).isExact).toBe(false);
+    expect(compareTypedAnswer("  abc   def ", ["abc def"], STRICT).isExact).toBe(true);
+  });
+
+  it("shows a character diff and suggests 難しい for close answers", () => {
+    const result = compareTypedAnswer("recieve", ["receive"], STRICT);
+    expect(result.parts).toEqual([
+      { kind: "same", text: "rec" },
+      { kind: "extra", text: "i" },
+      { kind: "same", text: "e" },
+      { kind: "missing", text: "i" },
+      { kind: "same", text: "ve" },
+    ]);
+    expect(result.similarity).toBeCloseTo(12 / 14);
+    expect(result.suggestedGrade).toBe("hard");
+  });
+
+  it("compares against the closest accepted answer", () => {
+    expect(compareTypedAnswer("colour", ["color", "colour"], STRICT)).toMatchObject({
+      expected: "colour",
+      isExact: true,
+    });
+    expect(compareTypedAnswer("colr", ["colour", "color"], STRICT)).toMatchObject({
+      expected: "color",
+      suggestedGrade: "hard",
+    });
+  });
+
+  it("suggests もう一度 for empty or distant answers", () => {
+    expect(compareTypedAnswer("", ["abc"], STRICT)).toMatchObject({
+      isExact: false,
+      similarity: 0,
+      suggestedGrade: "again",
+    });
+    expect(compareTypedAnswer("xyz", ["abc"], STRICT).suggestedGrade).toBe("again");
+  });
+});
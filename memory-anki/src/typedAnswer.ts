@@ -0,0 +1,120 @@
+import { MEDIA_TOKEN_PATTERN } from "./media";
+import type { DeckSettings, ReviewGrade } from "./types";
+
+export type AnswerMatchOptions = Pick<
+  DeckSettings,
+  "typedIgnoreCase" | "typedIgnoreWidth" | "typedIgnoreKana"
+>;
+
+export type AnswerDiffPart = {
+  kind: "same" | "missing" | "extra";
+  text: string;
+};
+
+export type AnswerComparison = {
+  expected: string;
+  parts: AnswerDiffPart[];
+  similarity: number;
+  isExact: boolean;
+  suggestedGrade: ReviewGrade;
+};
+
+const CLOSE_MATCH = 0.8;
+
+export const typedAnswerText = (answer: string) =>
+  answer
+    .replace(MEDIA_TOKEN_PATTERN, "")
+    .replace(/\$\$([\s\S]+?)\$\$|\$([^$\n]+)\$/g, (_, block?: string, inline?: string) =>
+      block ?? inline ?? ""
+    )
+    .trim();
+
+const toHiragana = (text: string) =>
+  text.replace(/[ァ-ヶ]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60));
+
+const prepare = (text: string, options: AnswerMatchOptions) => {
+  const chars = Array.from(
+    (options.typedIgnoreWidth ? text.normalize("NFKC") : text).trim().replace(/\s+/g, " ")
+  );
+  const keys = chars.map((char) => {
+    const kana = options.typedIgnoreKana ? toHiragana(char) : char;
+    return options.typedIgnoreCase ? kana.toLowerCase() : kana;
+  });
+  return { chars, keys };
+};
+
+const diffAnswer = (
+  expected: ReturnType<typeof prepare>,
+  actual: ReturnType<typeof prepare>
+) => {
+  const rows = expected.keys.length;
+  const columns = actual.keys.length;
+  const common = Array.from({ length: rows + 1 }, () => new Array<number>(columns + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i -= 1) {
+    for (let j = columns - 1; j >= 0; j -= 1) {
+      common[i][j] =
+        expected.keys[i] === actual.keys[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const parts: AnswerDiffPart[] = [];
+  const push = (kind: AnswerDiffPart["kind"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else parts.push({ kind, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < columns) {
+    if (expected.keys[i] === actual.keys[j]) {
+      push("same", actual.chars[j]);
+      i += 1;
+      j += 1;
+    } else if (common[i][j + 1] >= common[i + 1][j]) {
+      push("extra", actual.chars[j]);
+      j += 1;
+    } else {
+      push("missing", expected.chars[i]);
+      i += 1;
+    }
+  }
+  for (; j < columns; j += 1) push("extra", actual.chars[j]);
+  for (; i < rows; i += 1) push("missing", expected.chars[i]);
+
+  const total = rows + columns;
+  return { parts, similarity: total === 0 ? 1 : (2 * common[0][0]) / total };
+};
+
+export const compareTypedAnswer = (
+  input: string,
+  acceptedAnswers: string[],
+  options: AnswerMatchOptions
+): AnswerComparison => {
+  const actual = prepare(input, options);
+  const candidates = acceptedAnswers.map(typedAnswerText).filter(Boolean);
+  return (candidates.length > 0 ? candidates : [""])
+    .map((expected): AnswerComparison => {
+      const prepared = prepare(expected, options);
+      const { parts, similarity } = diffAnswer(prepared, actual);
+      const isExact =
+        actual.keys.length > 0 && prepared.keys.join("") === actual.keys.join("");
+      return {
+        expected,
+        parts,
+        similarity,
+        isExact,
+        suggestedGrade: isExact ? "good" : similarity >= CLOSE_MATCH ? "hard" : "again",
+      };
+    })
+    .reduce((best, comparison) =>
+      comparison.isExact !== best.isExact
+        ? comparison.isExact
+          ? comparison
+          : best
+        : comparison.similarity > best.similarity
+          ? comparison
+          : best
+    );
+};
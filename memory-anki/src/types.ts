@@ -0,0 +1,120 @@
+export type CardState = "new" | "learning" | "review" | "relearning";
+
+export type BaseCard = {
+  id: string;
+  deckId: string;
+  question: string;
+  answer: string;
+  explanation?: string;
+  tags?: string[];
+  state: CardState;
+  learningStep: number;
+  nextReviewAt: string;
+  intervalDays: number;
+  easeFactor: number;
+  lapses: number;
+  stability?: number;
+  difficulty?: number;
+  createdAt: string;
+  updatedAt: string;
+  lastReviewedAt?: string;
+  reviewCount: number;
+};
+
+export type BasicCard = BaseCard & {
+  type: "basic";
+};
+
+export type ChoiceCard = BaseCard & {
+  type: "choice";
+  choices: string[];
+};
+
+export type ClozeCard = BaseCard & {
+  type: "cloze";
+  noteId: string;
+  clozeNumber: number;
+};
+
+export type NoteCard = BaseCard & {
+  type: "note";
+  noteId: string;
+  noteTypeId: string;
+  templateId: string;
+  fields: string[];
+};
+
+export type TypedCard = BaseCard & {
+  type: "typed";
+  alternatives: string[];
+};
+
+export type Card = BasicCard | ChoiceCard | ClozeCard | NoteCard | TypedCard;
+
+export type NoteTemplate = {
+  id: string;
+  name: string;
+  front: string;
+  back: string;
+};
+
+export type NoteType = {
+  id: string;
+  name: string;
+  fields: string[];
+  templates: NoteTemplate[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+export type DeckScheduler = "sm2" | "fsrs";
+
+export type DeckSettings = {
+  scheduler: DeckScheduler;
+  desiredRetention: number;
+  fsrsWeights: number[];
+  learningSteps: number[];
+  relearningSteps: number[];
+  newCardsPerDay: number;
+  maxReviewsPerDay: number;
+  typedIgnoreCase: boolean;
+  typedIgnoreWidth: boolean;
+  typedIgnoreKana: boolean;
+};
+
+export type DeckDailyProgress = {
+  date: string;
+  newCount: number;
+  reviewCount: number;
+};
+
+export type ReviewSource = "review" | "test";
+
+export type ReviewLog = {
+  id: string;
+  cardId: string;
+  grade: ReviewGrade;
+  reviewedAt: string;
+  previousIntervalDays: number;
+  nextIntervalDays: number;
+  durationMs: number;
+  source: ReviewSource;
+  previousState?: CardState;
+};
+
+export type Deck = {
+  id: string;
+  name: string;
+  description: string;
+  createdAt: string;
+  updatedAt: string;
+  options: DeckSettings;
+};
+
+export type Tombstone = {
+  id: string;
+  kind: "card" | "deck" | "noteType";
+  deletedAt: string;
+};
@@ -0,0 +1,180 @@
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+import type { RawStoragePayload, StorageChanges, StoragePayload } from "./storage";
+
+const WEB_DB = "memory-anki";
+const META_STORE = "meta";
+const TOMBSTONE_STORE = "tombstones";
+const RECORD_STORES = {
+  cards: "createdAt",
+  decks: "createdAt",
+  reviewLogs: "reviewedAt",
+} as const;
+
+type RecordStore = keyof typeof RECORD_STORES;
+
+const STORES = [...(Object.keys(RECORD_STORES) as RecordStore[]), TOMBSTONE_STORE, META_STORE];
+
+const LEGACY_KEYS = {
+  version: "memory-anki.schemaVersion",
+  cards: "memory-anki.cards.v1",
+  decks: "memory-anki.decks.v1",
+  deckSettings: "memory-anki.deckSettings.v1",
+  reviewLogs: "memory-anki.reviewLogs.v1",
+  dailyProgress: "memory-anki.dailyProgress.v1",
+  tombstones: "memory-anki.tombstones.v1",
+} as const;
+
+let webDb: Promise<IDBDatabase> | null = null;
+
+const getWebDb = () => {
+  webDb ??= openDatabase(WEB_DB, 1, (database) => {
+    (Object.keys(RECORD_STORES) as RecordStore[]).forEach((name) =>
+      database.createObjectStore(name, { keyPath: "id" })
+    );
+    database.createObjectStore(TOMBSTONE_STORE, { keyPath: ["kind", "id"] });
+    database.createObjectStore(META_STORE);
+  }).then((database) => {
+    database.onversionchange = () => {
+      database.close();
+      webDb = null;
+    };
+    return database;
+  });
+  webDb.catch(() => {
+    webDb = null;
+  });
+  return webDb;
+};
+
+const readRecords = async (transaction: IDBTransaction, name: RecordStore) => {
+  const order = RECORD_STORES[name];
+  const records = await requestToPromise<Record<string, unknown>[]>(
+    transaction.objectStore(name).getAll()
+  );
+  return records.sort((a, b) => String(a[order] ?? "").localeCompare(String(b[order] ?? "")));
+};
+
+const readLegacyStorage = (): RawStoragePayload | null => {
+  const loadErrors: string[] = [];
+  const entries = Object.entries(LEGACY_KEYS).map(([field, key]) => {
+    const stored = localStorage.getItem(key);
+    if (!stored) return [field, undefined];
+    try {
+      return [field, JSON.parse(stored)];
+    } catch {
+      loadErrors.push(`${key} を読み込めなかったため無視しました。`);
+      return [field, undefined];
+    }
+  });
+  const payload: RawStoragePayload = Object.fromEntries(entries);
+  if (Object.values(payload).every((value) => value === undefined) && loadErrors.length === 0) {
+    return null;
+  }
+  return {
+    ...payload,
+    decks: Array.isArray(payload.decks) && payload.decks.length > 0 ? payload.decks : undefined,
+    loadErrors,
+  };
+};
+
+const clearLegacyStorage = () => {
+  Object.values(LEGACY_KEYS).forEach((key) => localStorage.removeItem(key));
+};
+
+export const loadWebStorage = async (): Promise<RawStoragePayload | null> => {
+  const database = await getWebDb();
+  const transaction = database.transaction(STORES, "readonly");
+  const meta = transaction.objectStore(META_STORE);
+  const [version, cards, decks, reviewLogs, tombstones, dailyProgress, noteTypes] =
+    await Promise.all([
+      requestToPromise(meta.get("version")),
+      readRecords(transaction, "cards"),
+      readRecords(transaction, "decks"),
+      readRecords(transaction, "reviewLogs"),
+      requestToPromise(transaction.objectStore(TOMBSTONE_STORE).getAll()),
+      requestToPromise(meta.get("dailyProgress")),
+      requestToPromise(meta.get("noteTypes")),
+    ]);
+  if (version === undefined) return readLegacyStorage();
+  return {
+    version,
+    cards,
+    decks: decks.length > 0 ? decks : undefined,
+    reviewLogs,
+    tombstones,
+    dailyProgress,
+    noteTypes,
+  };
+};
+
+const writeStores = async (write: (transaction: IDBTransaction) => void) => {
+  const database = await getWebDb();
+  const transaction = database.transaction(STORES, "readwrite");
+  write(transaction);
+  await transactionDone(transaction);
+};
+
+export const saveWebStorage = async (payload: StoragePayload) => {
+  await writeStores((transaction) => {
+    STORES.forEach((name) => transaction.objectStore(name).clear());
+    payload.cards.forEach((card) => transaction.objectStore("cards").put(card));
+    payload.decks.forEach((deck) => transaction.objectStore("decks").put(deck));
+    payload.reviewLogs.forEach((log) => transaction.objectStore("reviewLogs").put(log));
+    payload.tombstones.forEach((tombstone) =>
+      transaction.objectStore(TOMBSTONE_STORE).put(tombstone)
+    );
+    transaction.objectStore(META_STORE).put(payload.dailyProgress, "dailyProgress");
+    transaction.objectStore(META_STORE).put(payload.noteTypes, "noteTypes");
+    transaction.objectStore(META_STORE).put(payload.version, "version");
+  });
+  clearLegacyStorage();
+};
+
+export const saveWebStorageChanges = async (changes: StorageChanges) => {
+  await writeStores((transaction) => {
+    const cards = transaction.objectStore("cards");
+    const decks = transaction.objectStore("decks");
+    const reviewLogs = transaction.objectStore("reviewLogs");
+    const meta = transaction.objectStore(META_STORE);
+    changes.deleteCards.forEach((id) => cards.delete(id));
+    changes.deleteDecks.forEach((id) => decks.delete(id));
+    changes.deleteReviewLogs.forEach((id) => reviewLogs.delete(id));
+    changes.upsertDecks.forEach((deck) => decks.put(deck));
+    changes.upsertCards.forEach((card) => cards.put(card));
+    changes.reviewLogs.forEach((log) => reviewLogs.put(log));
+    if (changes.tombstones) {
+      const tombstones = transaction.objectStore(TOMBSTONE_STORE);
+      tombstones.clear();
+      changes.tombstones.forEach((tombstone) => tombstones.put(tombstone));
+    }
+    if (changes.dailyProgress) meta.put(changes.dailyProgress, "dailyProgress");
+    if (changes.noteTypes) meta.put(changes.noteTypes, "noteTypes");
+    meta.put(changes.version, "version");
+  });
+};
+
+export const requestPersistentStorage = async () => {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+};
+
+export const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED");
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const describeStorageError = async (error: unknown) => {
+  if (!isQuotaError(error)) {
+    return `データを保存できませんでした（${
+      error instanceof Error ? error.message : String(error)
+    }）。`;
+  }
+  const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+  const usage =
+    estimate?.usage !== undefined && estimate.quota
+      ? `（使用量 ${formatMegabytes(estimate.usage)} / 上限 ${formatMegabytes(estimate.quota)}）`
+      : "";
+  return `ブラウザの保存容量が足りないため保存できませんでした${usage}。不要なカードやバックアップを削除するか、データを書き出してから空き容量を増やしてください。`;
+};
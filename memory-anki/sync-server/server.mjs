@@ -0,0 +1,270 @@
+import { createServer } from "node:http";
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { access, mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+
+const PORT = Number(process.env.SYNC_PORT ?? 8787);
+const DATA_DIR = resolve(process.env.SYNC_DATA_DIR ?? "sync-data");
+const ALLOWED_ORIGIN = process.env.SYNC_ALLOWED_ORIGIN ?? "*";
+const MAX_BODY_BYTES = Number(process.env.SYNC_MAX_BODY_BYTES ?? 64 * 1024 * 1024);
+const TOKENS = (process.env.SYNC_TOKENS ?? "")
+  .split(",")
+  .map((token) => token.trim())
+  .filter(Boolean);
+
+if (TOKENS.length === 0) {
+  console.error("SYNC_TOKENS にカンマ区切りでアクセストークンを設定してください。");
+  process.exit(1);
+}
+
+const digest = (value) => createHash("sha256").update(value).digest();
+
+const authenticate = (request) => {
+  const match = /^Bearer (.+)$/.exec(request.headers.authorization ?? "");
+  if (!match) return null;
+  const candidate = digest(match[1]);
+  const token = TOKENS.find((item) => timingSafeEqual(digest(item), candidate));
+  return token ? candidate.toString("hex") : null;
+};
+
+const send = (response, status, body) => {
+  response.writeHead(status, {
+    "Access-Control-Allow-Origin": ALLOWED_ORIGIN,
+    "Access-Control-Allow-Headers": "Authorization, Content-Type",
+    "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+    ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (request) =>
+  new Promise((resolveBody, reject) => {
+    const chunks = [];
+    let size = 0;
+    request.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error("payload too large"), { status: 413 }));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on("end", () => resolveBody(Buffer.concat(chunks).toString("utf8")));
+    request.on("error", reject);
+  });
+
+const isEncryptedBlob = (payload) => {
+  if (typeof payload !== "string") return false;
+  try {
+    const value = JSON.parse(payload);
+    return typeof value?.iv === "string" && typeof value?.data === "string";
+  } catch {
+    return false;
+  }
+};
+
+const MEDIA_ID_PATTERN = /^[0-9a-f]{64}$/;
+const SNAPSHOT_ID_PATTERN = /^\d{13}-[0-9a-f]{8}$/;
+const SNAPSHOT_LIMIT = 30;
+
+const blobPath = (userKey) => join(DATA_DIR, `${userKey}.json`);
+
+const mediaDir = (userKey) => join(DATA_DIR, `${userKey}-media`);
+
+const snapshotDir = (userKey) => join(DATA_DIR, `${userKey}-snapshots`);
+
+const writeJson = async (target, value) => {
+  const temp = `${target}.${process.pid}-${randomBytes(6).toString("hex")}.tmp`;
+  try {
+    await writeFile(temp, JSON.stringify(value));
+    await rename(temp, target);
+  } catch (error) {
+    await rm(temp, { force: true });
+    throw error;
+  }
+};
+
+const handleGet = async (response, target) => {
+  try {
+    const stored = JSON.parse(await readFile(target, "utf8"));
+    send(response, 200, stored);
+  } catch (error) {
+    if (error.code === "ENOENT") {
+      send(response, 404, { error: "not found" });
+      return;
+    }
+    throw error;
+  }
+};
+
+const handlePut = async (request, response, target) => {
+  const body = JSON.parse(await readBody(request));
+  if (!isEncryptedBlob(body?.payload)) {
+    send(response, 400, { error: "payload must be an encrypted blob" });
+    return;
+  }
+  await writeJson(target, { payload: body.payload, updatedAt: new Date().toISOString() });
+  send(response, 204);
+};
+
+const handleMediaList = async (response, userKey) => {
+  const files = await readdir(mediaDir(userKey)).catch((error) => {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  });
+  const ids = files
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => file.slice(0, -".json".length))
+    .filter((id) => MEDIA_ID_PATTERN.test(id));
+  send(response, 200, { ids });
+};
+
+const handleMedia = async (request, response, userKey, id) => {
+  if (!MEDIA_ID_PATTERN.test(id)) {
+    send(response, 400, { error: "invalid media id" });
+    return;
+  }
+  const target = join(mediaDir(userKey), `${id}.json`);
+  if (request.method === "GET") {
+    await handleGet(response, target);
+  } else if (request.method === "PUT") {
+    await mkdir(mediaDir(userKey), { recursive: true });
+    await handlePut(request, response, target);
+  } else {
+    send(response, 405, { error: "method not allowed" });
+  }
+};
+
+const snapshotIds = async (userKey) => {
+  const files = await readdir(snapshotDir(userKey)).catch((error) => {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  });
+  return files
+    .filter((file) => file.endsWith(".info.json"))
+    .map((file) => file.slice(0, -".info.json".length))
+    .filter((id) => SNAPSHOT_ID_PATTERN.test(id))
+    .sort()
+    .reverse();
+};
+
+const handleSnapshotList = async (response, userKey) => {
+  const ids = (await snapshotIds(userKey)).slice(0, SNAPSHOT_LIMIT);
+  const snapshots = await Promise.all(
+    ids.map(async (id) =>
+      JSON.parse(await readFile(join(snapshotDir(userKey), `${id}.info.json`), "utf8"))
+    )
+  );
+  send(response, 200, { snapshots });
+};
+
+const handleSnapshotCreate = async (request, response, userKey) => {
+  const body = JSON.parse(await readBody(request));
+  if (!isEncryptedBlob(body?.payload)) {
+    send(response, 400, { error: "payload must be an encrypted blob" });
+    return;
+  }
+  const createdAt = new Date();
+  const id = `${createdAt.getTime()}-${randomBytes(4).toString("hex")}`;
+  const dir = snapshotDir(userKey);
+  await mkdir(dir, { recursive: true });
+  await writeJson(join(dir, `${id}.json`), {
+    payload: body.payload,
+    updatedAt: createdAt.toISOString(),
+  });
+  await writeJson(join(dir, `${id}.info.json`), {
+    id,
+    createdAt: createdAt.toISOString(),
+    deviceName: typeof body.deviceName === "string" ? body.deviceName : "",
+    cardCount: Number.isFinite(body.cardCount) ? body.cardCount : 0,
+    deckCount: Number.isFinite(body.deckCount) ? body.deckCount : 0,
+  });
+  for (const old of (await snapshotIds(userKey)).slice(SNAPSHOT_LIMIT)) {
+    await rm(join(dir, `${old}.info.json`), { force: true });
+    await rm(join(dir, `${old}.json`), { force: true });
+  }
+  send(response, 201, { id });
+};
+
+const handleSnapshot = async (request, response, userKey, id) => {
+  if (!SNAPSHOT_ID_PATTERN.test(id)) {
+    send(response, 400, { error: "invalid snapshot id" });
+    return;
+  }
+  const target = join(snapshotDir(userKey), `${id}.json`);
+  if (request.method === "GET") {
+    await handleGet(response, target);
+  } else if (request.method === "PUT") {
+    try {
+      await access(target);
+    } catch {
+      send(response, 404, { error: "not found" });
+      return;
+    }
+    await handlePut(request, response, target);
+  } else {
+    send(response, 405, { error: "method not allowed" });
+  }
+};
+
+const handleWipe = async (response, userKey) => {
+  await rm(blobPath(userKey), { force: true });
+  await rm(mediaDir(userKey), { recursive: true, force: true });
+  await rm(snapshotDir(userKey), { recursive: true, force: true });
+  send(response, 204);
+};
+
+const server = createServer(async (request, response) => {
+  try {
+    const { pathname } = new URL(request.url ?? "/", "http://localhost");
+    if (request.method === "OPTIONS") {
+      send(response, 204);
+      return;
+    }
+    if (pathname === "/health") {
+      send(response, 200, { ok: true });
+      return;
+    }
+    const mediaMatch = /^\/v1\/media\/([^/]+)$/.exec(pathname);
+    const snapshotMatch = /^\/v1\/snapshots\/([^/]+)$/.exec(pathname);
+    const isKnownPath = ["/v1/blob", "/v1/media", "/v1/snapshots", "/v1/data"].includes(pathname);
+    if (!isKnownPath && !mediaMatch && !snapshotMatch) {
+      send(response, 404, { error: "not found" });
+      return;
+    }
+    const userKey = authenticate(request);
+    if (!userKey) {
+      send(response, 401, { error: "unauthorized" });
+      return;
+    }
+    if (mediaMatch) {
+      await handleMedia(request, response, userKey, mediaMatch[1]);
+    } else if (snapshotMatch) {
+      await handleSnapshot(request, response, userKey, snapshotMatch[1]);
+    } else if (pathname === "/v1/snapshots" && request.method === "GET") {
+      await handleSnapshotList(response, userKey);
+    } else if (pathname === "/v1/snapshots" && request.method === "POST") {
+      await handleSnapshotCreate(request, response, userKey);
+    } else if (pathname === "/v1/data" && request.method === "DELETE") {
+      await handleWipe(response, userKey);
+    } else if (pathname === "/v1/media" && request.method === "GET") {
+      await handleMediaList(response, userKey);
+    } else if (pathname === "/v1/blob" && request.method === "GET") {
+      await handleGet(response, blobPath(userKey));
+    } else if (pathname === "/v1/blob" && request.method === "PUT") {
+      await handlePut(request, response, blobPath(userKey));
+    } else {
+      send(response, 405, { error: "method not allowed" });
+    }
+  } catch (error) {
+    const status = error.status ?? (error instanceof SyntaxError ? 400 : 500);
+    if (status === 500) console.error(error);
+    if (!response.headersSent) send(response, status, { error: error.message });
+  }
+});
+
+await mkdir(DATA_DIR, { recursive: true });
+server.listen(PORT, () => {
+  console.log(`memory-anki sync server listening on http://localhost:${PORT}`);
+});
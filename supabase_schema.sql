@@ -14,3 +14,81 @@ create policy "Users can upsert their data" on public.user_data
 
 create policy "Users can update their data" on public.user_data
   for update using (auth.uid() = user_id);
+
+create policy "Users can delete their data" on public.user_data
+  for delete using (auth.uid() = user_id);
+
+create table if not exists public.user_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  payload text not null,
+  device_name text not null default '',
+  card_count integer not null default 0,
+  deck_count integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists user_snapshots_user_id_created_at_idx
+  on public.user_snapshots (user_id, created_at desc);
+
+alter table public.user_snapshots enable row level security;
+
+create policy "Users can read their snapshots" on public.user_snapshots
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their snapshots" on public.user_snapshots
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their snapshots" on public.user_snapshots
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their snapshots" on public.user_snapshots
+  for delete using (auth.uid() = user_id);
+
+-- Keep only the latest 30 snapshots per user (matches SNAPSHOT_LIMIT in syncProviders.ts).
+create or replace function public.prune_user_snapshots()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.user_snapshots
+  where user_id = new.user_id
+    and id not in (
+      select id from public.user_snapshots
+      where user_id = new.user_id
+      order by created_at desc
+      limit 30
+    );
+  return null;
+end;
+$$;
+
+drop trigger if exists prune_user_snapshots on public.user_snapshots;
+create trigger prune_user_snapshots
+  after insert on public.user_snapshots
+  for each row execute function public.prune_user_snapshots();
+
+-- Encrypted media files. id is an HMAC of the file name under the sync key.
+create table if not exists public.user_media (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  id text not null,
+  payload text not null,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, id)
+);
+
+alter table public.user_media enable row level security;
+
+create policy "Users can read their media" on public.user_media
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their media" on public.user_media
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their media" on public.user_media
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their media" on public.user_media
+  for delete using (auth.uid() = user_id);